@@ -25,8 +25,11 @@ export interface CleanedParameters {
   namespace: string;
   resource: string;
   identifier: string;
-  intent: 'list' | 'inspect';
+  intent: 'list' | 'inspect' | 'diagnose' | 'connect' | 'ssh' | 'history' | 'tree' | 'logs';
   lines?: number; // Optional lines parameter for inspect command
+  reveal?: boolean; // Reveal secrets for the connect command (audit-logged)
+  maxPods?: number; // Optional pod budget for diagnose command
+  zone?: string; // Target zone resolved from the REPL context
 }
 
 export class AIService {
@@ -86,19 +89,29 @@ export class AIService {
    - event -> "event"
    - account -> "account"
    - debt -> "debt"
+   - billing, balance, 余额 -> "billing"
+   - debtlimit, debt-limit, 欠费 -> "debtlimit"
+   - suspect, suspects, 嫌疑 -> "suspects"
    - pod, pods -> "pods"
    - devbox -> "devbox"
    - ingress -> "ingress"
    - quota -> "quota"
+   - health, overview, dashboard, 健康, 概览 -> "health"
 4. 如果输入中未发现任何资源关键词，默认 resource 为 "pods"。
 5. 自动去重。
 
 【意图识别】
 6. 如果输入包含 describe, desc, inspect, detail, xiangqing, 查看详情 等词，设置 intent 为 "inspect"。
-7. 否则默认为 "list"。
+7. 如果输入包含 diagnose, diag, why, 诊断, 排查 等词，且资源为 devbox 或 cluster，设置 intent 为 "diagnose"。
+8. 如果输入包含 connect, conn, 连接 等词，且资源为 cluster (db)，设置 intent 为 "connect"。
+9. 如果输入包含 ssh 一词，且资源为 devbox，设置 intent 为 "ssh"。
+10. 如果输入包含 history, commits, 提交记录 等词，且资源为 devbox，设置 intent 为 "history"。
+11. 如果输入包含 tree, 关系 等词，且资源为 devbox 或 cluster，设置 intent 为 "tree"。
+12. 如果输入包含 logs, log, 日志 等词，且资源为 pods，设置 intent 为 "logs"。
+13. 否则默认为 "list"。
 
 【标识符提取】
-- inspect 模式：identifier 必须是具体的资源名称（如 mysql-0, my-cluster）。
+- inspect / diagnose / connect / ssh / history / tree / logs 模式：identifier 必须是具体的资源名称（如 mysql-0, my-cluster）。
 - list 模式：保持现有逻辑，默认 "hzh"。
 
 【输出要求】
@@ -116,6 +129,24 @@ export class AIService {
 输入: ["describe", "pod", "mysql-0", "ns-test"]
 输出: [{"namespace":"ns-test","resource":"pods","identifier":"mysql-0","intent":"inspect"}]
 
+输入: ["diagnose", "devbox", "my-app", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"devbox","identifier":"my-app","intent":"diagnose"}]
+
+输入: ["connect", "db", "my-pg", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"cluster","identifier":"my-pg","intent":"connect"}]
+
+输入: ["ssh", "devbox", "my-app", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"devbox","identifier":"my-app","intent":"ssh"}]
+
+输入: ["history", "devbox", "my-app", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"devbox","identifier":"my-app","intent":"history"}]
+
+输入: ["tree", "db", "my-pg", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"cluster","identifier":"my-pg","intent":"tree"}]
+
+输入: ["logs", "pod", "api-7d9f-x2k", "ns-test"]
+输出: [{"namespace":"ns-test","resource":"pods","identifier":"api-7d9f-x2k","intent":"logs"}]
+
 输入: ["node", "hzh"]
 输出: [{"namespace":"","resource":"node","identifier":"hzh","intent":"list"}]`;
 
@@ -18,14 +18,19 @@ if (result.error) {
 }
 
 // Other imports...
-import { spawn, ChildProcess } from 'child_process';
 import { CleanedParameters, AIService } from './ai/ai-service';
+import { McpConnection } from './mcp/mcp-connection';
+import { parseInputDeterministic, KNOWN_ZONES, RESOURCE_ALIASES } from './parsers/parameter-parser';
 import * as readline from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
 import * as Renderer from './renderers';
 import { transformToViewModel } from './viewmodels/inspect-viewmodel';
+import { buildWatchFrame, createWatchState } from './viewmodels/watch-viewmodel';
 import { renderInspectView } from './renderers/inspect-renderer';
 import { sortKeys } from './utils/sort-keys';
+import { listSnapshots, loadSnapshot, saveSnapshot, Snapshot, SNAPSHOT_RESOURCES, snapshotId } from './snapshots/snapshot-store';
+import { diffSnapshots } from './snapshots/snapshot-diff';
+import { redactSecrets } from '../shared/redaction';
 
 // === [NEW] Global Context Management (Refined) ===
 interface GlobalParameters {
@@ -38,15 +43,10 @@ interface GlobalParameters {
 // 1. Initialize Context (Strict Null)
 let parameters: GlobalParameters = { zone: null, namespace: null, resource: null, name: null };
 
-// 2. Constants
-const KNOWN_ZONES = new Set(['hzh', 'bja', 'gzg']);
+// 2. Constants (zones and resource aliases are shared with the deterministic parser)
 // Command keywords to ignore when parsing 'name'
-const IGNORED_KEYWORDS = new Set(['describe', 'inspect', 'get', 'list', 'show', 'watch', 'debug']);
-const KNOWN_RESOURCES = new Set([
-  'cluster', 'node', 'account', 'debt', 'devbox',
-  'objectstorage', 'obs', 'bucket', 'certificate', 'cert',
-  'cronjob', 'pods', 'pod', 'ingress', 'event', 'quota'
-]);
+const IGNORED_KEYWORDS = new Set(['describe', 'desc', 'inspect', 'get', 'list', 'show', 'watch', 'debug', 'diagnose', 'diag', 'connect', 'conn', 'ssh', 'history', 'commits', 'tree', 'logs', 'log']);
+const KNOWN_RESOURCES = new Set(Object.keys(RESOURCE_ALIASES));
 
 /**
  * Updates global parameters and returns true if Scope (Zone/NS) changed.
@@ -114,36 +114,26 @@ function updateParameters(inputString: string): boolean {
 // ==================================
 
 // Global variables for process tracking
-let activeMcpServers = new Set<ChildProcess>();
+const mcpConnection = new McpConnection(); // Persistent MCP server session shared by all queries
 let mainReadlineInterface: readline.Interface | null = null;
 let lastSigintTime = 0;
 let lastToolResult: any = null; // Global AI context memory
+let isExiting = false;
+let activeSession: AbortController | null = null; // Set while "logs -f", "watch" or a confirmation prompt is running
 
 function cleanupAndExit(code: number) {
-  // Kill all active MCP server processes
-  activeMcpServers.forEach(server => {
-    try {
-      if (!server.killed) {
-        server.kill('SIGTERM');
-        // Force kill after 3 seconds
-        setTimeout(() => {
-          if (!server.killed) {
-            server.kill('SIGKILL');
-          }
-        }, 3000);
-      }
-    } catch (error) {
-      console.error('[Client] Error killing server process:', error);
-    }
-  });
+  if (isExiting) return;
+  isExiting = true;
 
   // Close readline interface
   if (mainReadlineInterface) {
     mainReadlineInterface.close();
   }
 
-  // Exit with the specified code
-  process.exit(code);
+  // Gracefully stop the MCP server, then exit with the specified code
+  mcpConnection.close()
+    .catch(error => console.error('[Client] Error closing MCP connection:', error))
+    .finally(() => process.exit(code));
 }
 
 async function main() {
@@ -160,6 +150,9 @@ async function main() {
   // Store reference for cleanup
   mainReadlineInterface = rl;
 
+  // Stdin closed (Ctrl+D or piped input finished): stop the MCP server too
+  rl.on('close', () => cleanupAndExit(0));
+
   // Display welcome message
   console.log('[Client] Sealos SRE Agent Interactive Mode');
   console.log('[Client] Usage: Enter "namespace resource identifier" (e.g., "ns-mh69tey1 pods hzh")');
@@ -185,6 +178,72 @@ async function main() {
       return;
     }
 
+    // "logs -f <pod>" streams until Ctrl+C; it bypasses the parser entirely
+    if (/^logs?\s+(-f|--follow)\b/i.test(input)) {
+      try {
+        await followLogs(input);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
+    // "watch <resource>" polls a list tool and redraws until Ctrl+C
+    if (/^watch\b/i.test(input)) {
+      try {
+        await watchResources(input);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
+    // "snapshot" / "diff" work on saved list-tool results, not on a single query
+    if (/^(snapshots?|diff)\b/i.test(input)) {
+      try {
+        await runSnapshotCommand(input);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
+    // "history --audit" reads the server audit log; plain "history" is the devbox intent
+    if (/^history\s+--audit\b/i.test(input)) {
+      try {
+        await showAuditLog(input);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
+    // "quota fit devbox x cpu=2" predicts a resize against the namespace quotas
+    if (/^quota\s+fit\b/i.test(input)) {
+      try {
+        await runQuotaFit(input);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
+    // Write actions ("restart pod x", "stop devbox y", ...) always go through dry run + confirmation
+    if (WRITE_ACTION_PATTERN.test(input)) {
+      try {
+        await runWriteAction(input, rl);
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      rl.prompt();
+      return;
+    }
+
     // Parse flags before AI processing
     const isRawMode = input.includes('--raw');
 
@@ -201,10 +260,19 @@ async function main() {
       }
     }
 
+    // Parse --pods flag (diagnose pod budget)
+    const podsMatch = input.match(/--pods\s+(\d+)/);
+    const podsCount = podsMatch && parseInt(podsMatch[1]) > 0 ? parseInt(podsMatch[1]) : undefined;
+
+    // Parse --reveal flag (show redacted values and the connect password, audit-logged on the server)
+    const isReveal = input.includes('--reveal');
+
     // Strip flags from input
     const cleanInput = input
       .replace(/--raw/g, '')
+      .replace(/--reveal/g, '')
       .replace(/--lines(?:\s+\d+)?/g, '')
+      .replace(/--pods(?:\s+\d+)?/g, '')
       .trim();
 
     try {
@@ -256,9 +324,15 @@ async function main() {
          return; // STOP execution here
       }
 
-      console.error('[AI] Processing input...');
-      // Pass the augmented 'rawArgs' to AI
-      const cleanedParamsList = await aiService.parseRawInput(rawArgs, lastToolResult);
+      // Deterministic parser first; the LLM only handles inputs it cannot resolve
+      let cleanedParamsList = parseInputDeterministic(rawArgs);
+      if (cleanedParamsList) {
+        console.error('[Parser] Resolved input locally');
+      } else if (aiService.isEnabled()) {
+        console.error('[AI] Processing input...');
+        // Pass the augmented 'rawArgs' to AI
+        cleanedParamsList = await aiService.parseRawInput(rawArgs, lastToolResult);
+      }
 
       if (!cleanedParamsList || cleanedParamsList.length === 0) {
         console.error('❌ Invalid input. Please provide at least: [namespace, resource, identifier] OR [resource, identifier] for nodes');
@@ -271,13 +345,27 @@ async function main() {
       // === [NEW] Parameter Fusion Logic ===
       // Use for..of instead of forEach to allow early return on errors
       for (const item of cleanedParamsList) {
-        // A. Namespace Fusion (Always merge)
+        // A. Namespace Fusion (Always merge); only cluster-scoped nodes may stay without one
         if (!item.namespace && parameters.namespace) {
           item.namespace = parameters.namespace;
           console.log(`[Fusion] Auto-filled namespace: ${parameters.namespace}`);
         }
+        if (!item.namespace && item.resource !== 'node') {
+          console.error(`[Fusion] ERROR: No namespace for ${item.resource}: add an ns-xxx token`);
+          console.error('   Examples: ns-mh69tey1 pods hzh');
+          rl.prompt();
+          return;
+        }
 
-        // B. Intent-specific Logic
+        // B. Zone Fusion: list identifiers carry the zone, otherwise use the cached zone
+        const identifierZone = item.identifier ? item.identifier.toLowerCase() : '';
+        if (item.intent === 'list' && KNOWN_ZONES.has(identifierZone)) {
+          item.zone = identifierZone;
+        } else if (parameters.zone) {
+          item.zone = parameters.zone;
+        }
+
+        // C. Intent-specific Logic
         if (item.intent === 'list') {
           // Rule: Clear name cache on List
           if (parameters.name) {
@@ -290,8 +378,8 @@ async function main() {
             item.identifier = parameters.zone;
             console.log(`[Fusion] List intent: Auto-filled zone: ${parameters.zone}`);
           }
-        } else if (item.intent === 'inspect') {
-          // Rule: DO NOT auto-fill name from cache - describe/inspect MUST have explicit name
+        } else if (item.intent === 'inspect' || item.intent === 'diagnose' || item.intent === 'connect' || item.intent === 'ssh' || item.intent === 'history' || item.intent === 'tree' || item.intent === 'logs') {
+          // Rule: DO NOT auto-fill name from cache - describe/inspect/diagnose MUST have explicit name
           // If identifier is missing or generic, show immediate error and abort
           const isMissingOrZone = !item.identifier || KNOWN_ZONES.has(item.identifier.toLowerCase());
           if (isMissingOrZone) {
@@ -312,6 +400,26 @@ async function main() {
         });
       }
 
+      // Pass the reveal flag to every query
+      if (isReveal) {
+        Renderer.renderRevealWarning();
+        cleanedParamsList.forEach(params => {
+          params.reveal = true;
+        });
+      }
+
+      // Add pod budget to diagnose params if present
+      if (podsCount) {
+        cleanedParamsList.forEach(params => {
+          params.maxPods = podsCount;
+        });
+      }
+
+      // Billing banner comes before any other result
+      if (!isRawMode) {
+        await showBillingBanner(cleanedParamsList);
+      }
+
       // Execute MCP tasks (parallel or single based on array length)
       if (cleanedParamsList.length === 1) {
         // Single resource - use legacy function for backward compatibility
@@ -319,7 +427,7 @@ async function main() {
         // 构造一致的上下文格式
         lastToolResult = [{
           resource: cleanedParamsList[0].resource,
-          data: tryParseJson(resultRaw.result?.content?.[0]?.text),
+          data: redactForContext(tryParseJson(resultRaw.result?.content?.[0]?.text)),
           error: resultRaw.error
         }];
       } else {
@@ -331,7 +439,7 @@ async function main() {
         lastToolResult = results.map(r => ({
           resource: r.resource,
           // 尝试解析 JSON 字符串，如果解析失败则保留原文本
-          data: tryParseJson(r.result?.content?.[0]?.text),
+          data: redactForContext(tryParseJson(r.result?.content?.[0]?.text)),
           error: r.error
         }));
 
@@ -350,6 +458,13 @@ async function main() {
   rl.on('SIGINT', () => {
     const now = Date.now();
 
+    // A running log follow, watch or confirmation prompt swallows Ctrl+C: stop it, stay in the REPL
+    if (activeSession) {
+      process.stdout.write('^C\n');
+      activeSession.abort();
+      return;
+    }
+
     // If there's text in the current line, just clear it (like bash)
     if (rl.line.length > 0) {
       // 1. Visual feedback: print ^C and move to new line
@@ -389,6 +504,8 @@ const TOOL_MAPPING: Record<string, string> = {
   'node': 'list_nodes',
   'account': 'list_account_by_ns',
   'debt': 'list_debt_by_ns',
+  'billing': 'analyze_billing',
+  'debtlimit': 'check_debt_limit',
   'devbox': 'list_devbox_by_ns',
   'objectstorage': 'list_objectstoragebucket_by_ns',
   'obs': 'list_objectstoragebucket_by_ns',
@@ -397,177 +514,503 @@ const TOOL_MAPPING: Record<string, string> = {
   'cert': 'list_certificate_by_ns',
   'cronjob': 'list_cronjobs_by_ns',
   'pods': 'list_pods_by_ns',
+  'suspects': 'rank_suspect_pods',
   'ingress': 'list_ingress_by_ns',
   'event': 'list_events_by_ns',
-  'quota': 'list_quota_by_ns'
+  'quota': 'list_quota_by_ns',
+  'health': 'namespace_health'
 };
 
+// Billing block checks, cached per zone/namespace to avoid a full scan on every query
+const BILLING_CHECK_TTL_MS = 60000;
+const BILLING_CHECK_TIMEOUT_MS = 15000;
+const billingCheckCache = new Map<string, { checkedAt: number; data: any }>();
+
+// Run check_debt_limit for each queried namespace and print a banner when billing blocks it
+async function showBillingBanner(paramsList: CleanedParameters[]): Promise<void> {
+  const targets = new Map<string, { namespace: string; zone?: string }>();
+  paramsList.forEach(params => {
+    // Node queries have no namespace; explicit billing and health queries report billing themselves
+    if (!params.namespace || params.resource === 'debtlimit' || params.resource === 'billing' || params.resource === 'health') return;
+    targets.set(`${params.zone || ''}/${params.namespace}`, { namespace: params.namespace, zone: params.zone });
+  });
+
+  await Promise.all(Array.from(targets.entries()).map(async ([key, target]) => {
+    let cached = billingCheckCache.get(key);
+    if (!cached || Date.now() - cached.checkedAt > BILLING_CHECK_TTL_MS) {
+      try {
+        const result = await mcpConnection.callTool('check_debt_limit', {
+          namespace: target.namespace,
+          ...(target.zone && { zone: target.zone })
+        }, BILLING_CHECK_TIMEOUT_MS);
+        cached = { checkedAt: Date.now(), data: tryParseJson(result.content?.[0]?.text) };
+        billingCheckCache.set(key, cached);
+      } catch (error) {
+        console.error('[Client] Billing check skipped:', error instanceof Error ? error.message : error);
+        return;
+      }
+    }
+    Renderer.renderDebtLimitBanner(cached.data);
+  }));
+}
+
 // Single MCP task execution (helper for parallel execution)
 async function executeSingleMcpTask(params: CleanedParameters): Promise<{resource: string, result?: any, error?: string}> {
-  console.error(`\n[Client] Executing: ${params.namespace} ${params.resource} ${params.identifier}`);
-
-  return new Promise((resolve) => {
-    // Start MCP Server process
-    const server = spawn('npm', ['run', 'start:server'], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      shell: true
-    });
-
-    // Track the server process
-    activeMcpServers.add(server);
-
-    // Remove from tracking when the process exits
-    server.on('exit', () => {
-      activeMcpServers.delete(server);
-    });
-
-    let responseData = '';
-    let hasResponded = false;
-
-    // Set timeout
-    const timeout = setTimeout(() => {
-      if (!hasResponded) {
-        hasResponded = true;
-        server.kill();
-        resolve({
-          resource: params.resource,
-          error: `Request timeout after 30 seconds`
-        });
-      }
-    }, 30000);
+  console.error(`\n[Client] Executing: ${params.namespace} ${params.resource} ${params.identifier}${params.zone ? ` (zone: ${params.zone})` : ''}`);
+
+  let toolName;
+  let requestArgs;
+
+  if (params.intent === 'diagnose') {
+    // Diagnosis state machine only supports parent CRDs
+    toolName = 'diagnose_resource';
+    requestArgs = {
+      namespace: params.namespace,
+      resource: params.resource === 'db' ? 'cluster' : params.resource,
+      name: params.identifier,
+      ...(params.lines && { lines: params.lines }),
+      ...(params.maxPods && { maxPods: params.maxPods }),
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'connect') {
+    // Connection info from the <db>-conn-credential Secret
+    toolName = 'get_db_connection';
+    requestArgs = {
+      namespace: params.namespace,
+      name: params.identifier,
+      ...(params.reveal && { reveal: true }),
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'ssh') {
+    // Stage-by-stage SSH probe against the devbox NodePort
+    toolName = 'check_devbox_ssh';
+    requestArgs = {
+      namespace: params.namespace,
+      name: params.identifier,
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'history') {
+    // Commit/image history from status.commitHistory
+    toolName = 'devbox_history';
+    requestArgs = {
+      namespace: params.namespace,
+      name: params.identifier,
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'tree') {
+    // Ownership graph of a devbox or cluster
+    toolName = 'resource_tree';
+    requestArgs = {
+      namespace: params.namespace,
+      resource: params.resource === 'db' ? 'cluster' : params.resource,
+      name: params.identifier,
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'logs') {
+    // Error-pattern analysis of current and previous container logs
+    toolName = 'analyze_pod_logs';
+    requestArgs = {
+      namespace: params.namespace,
+      name: params.identifier,
+      ...(params.lines && { tailLines: params.lines }),
+      ...(params.zone && { zone: params.zone })
+    };
+  } else if (params.intent === 'inspect') {
+    // Force use inspect_resource tool
+    toolName = 'inspect_resource';
+    requestArgs = {
+      namespace: params.namespace,
+      resource: params.resource, // Server supports both singular and plural
+      name: params.identifier,   // Actual resource name for inspect
+      ...(params.lines && { lines: params.lines }), // Add lines parameter if present
+      ...(params.zone && { zone: params.zone })
+    };
+  } else {
+    // Use existing TOOL_MAPPING logic for list
+    toolName = TOOL_MAPPING[params.resource] || 'list_pods_by_ns';
+    requestArgs = {
+      namespace: params.namespace,
+      ...(params.zone && { zone: params.zone })
+    };
+  }
 
-    // Handle Server response
-    server.stdout.on('data', (data) => {
-      if (hasResponded) return;
+  try {
+    // --reveal turns off server-side redaction for this call (audit-logged)
+    const result = await mcpConnection.callTool(toolName, requestArgs, undefined, params.reveal ? { reveal: true } : undefined);
+    return {
+      resource: params.resource,
+      result
+    };
+  } catch (error) {
+    console.error('[Server Error Response]', error instanceof Error ? error.message : error);
+    return {
+      resource: params.resource,
+      error: `Server returned error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
 
-      try {
-        responseData += data.toString();
-
-        // Try to parse complete JSON response
-        const lines = responseData.trim().split('\n');
-        for (const line of lines) {
-          if (line.startsWith('{') && line.endsWith('}')) {
-            try {
-              const response = JSON.parse(line);
-
-              // Check for error response first
-              if (response.error) {
-                console.error('[Server Error Response]', JSON.stringify(response.error, null, 2));
-                hasResponded = true;
-                clearTimeout(timeout);
-                server.kill();
-                resolve({
-                  resource: params.resource,
-                  error: `Server returned error: ${response.error.message || 'Unknown error'}`
-                });
-                return;
-              }
-
-              // Handle successful response
-              if (response.result && !hasResponded) {
-                hasResponded = true;
-                clearTimeout(timeout);
-                server.kill();
-
-                // Return result with resource type
-                resolve({
-                  resource: params.resource,
-                  result: response.result
-                });
-                return;
-              }
-            } catch (parseError) {
-              console.error('[Debug] Failed to parse JSON:', line);
-            }
-          } else if (line.trim()) {
-            console.error('[Server Output]', line);
-          }
-        }
-      } catch (e) {
-        // Ignore parsing errors, continue waiting for complete response
-      }
-    });
+// Upper bound for one "logs -f" session (the server caps it at 30 minutes)
+const LOG_FOLLOW_SECONDS = 1800;
 
-    // Handle errors
-    server.stderr.on('data', (data) => {
-      console.error('[Server Error]', data.toString());
-    });
+/**
+ * Parse and run "logs -f <pod> [-c container]... [--grep pattern] [-i] [-v] [ns-x] [zone]".
+ * Namespace and zone fall back to the REPL context.
+ */
+async function followLogs(input: string): Promise<void> {
+  const grepMatch = input.match(/--grep\s+(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  const grep = grepMatch ? (grepMatch[1] ?? grepMatch[2] ?? grepMatch[3]) : undefined;
+  const tokens = input
+    .replace(/--grep\s+(?:"[^"]*"|'[^']*'|\S+)/, '')
+    .trim()
+    .split(/\s+/)
+    .slice(2);
+
+  let namespace = parameters.namespace;
+  let zone = parameters.zone;
+  let pod: string | undefined;
+  const containers: string[] = [];
+  let ignoreCase = false;
+  let invert = false;
 
-    server.on('error', (error) => {
-      if (!hasResponded) {
-        hasResponded = true;
-        clearTimeout(timeout);
-        resolve({
-          resource: params.resource,
-          error: error.message || 'Unknown error'
-        });
-      }
-    });
-
-    server.on('exit', (code) => {
-      if (!hasResponded) {
-        hasResponded = true;
-        clearTimeout(timeout);
-        if (code !== 0) {
-          resolve({
-            resource: params.resource,
-            error: `Server exited with code ${code}`
-          });
-        } else {
-          resolve({
-            resource: params.resource,
-            result: null
-          });
-        }
-      }
-    });
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const lower = token.toLowerCase();
+    if (token === '-c' || token === '--container') {
+      if (tokens[i + 1]) containers.push(tokens[++i]);
+    } else if (token === '-i') {
+      ignoreCase = true;
+    } else if (token === '-v') {
+      invert = true;
+    } else if (lower.startsWith('ns-')) {
+      namespace = lower;
+    } else if (KNOWN_ZONES.has(lower)) {
+      zone = lower;
+    } else if (!pod) {
+      pod = token;
+    } else {
+      containers.push(token);
+    }
+  }
 
-    // Send request
-    try {
-      let toolName;
-      let requestArgs;
-
-      if (params.intent === 'inspect') {
-        // Force use inspect_resource tool
-        toolName = 'inspect_resource';
-        requestArgs = {
-          namespace: params.namespace,
-          resource: params.resource, // Server supports both singular and plural
-          name: params.identifier,   // Actual resource name for inspect
-          ...(params.lines && { lines: params.lines }) // Add lines parameter if present
-        };
-      } else {
-        // Use existing TOOL_MAPPING logic for list
-        toolName = TOOL_MAPPING[params.resource] || 'list_pods_by_ns';
-        requestArgs = {
-          namespace: params.namespace
-        };
-      }
+  if (!pod || !namespace) {
+    console.error('❌ Usage: logs -f <pod> [-c container]... [--grep pattern] [-i] [-v] [ns-xxx] [zone]');
+    if (pod) console.error('   No namespace in context: add an ns-xxx token');
+    return;
+  }
+
+  Renderer.renderLogFollowStart(pod, namespace, grep);
+
+  const controller = new AbortController();
+  activeSession = controller;
+  let shown = 0;
+
+  try {
+    const result = await mcpConnection.streamTool('follow_pod_logs', {
+      namespace,
+      name: pod,
+      ...(containers.length > 0 && { containers }),
+      ...(grep && { grep }),
+      ...(ignoreCase && { ignoreCase }),
+      ...(invert && { invert }),
+      durationSeconds: LOG_FOLLOW_SECONDS,
+      ...(zone && { zone })
+    }, (message) => {
+      const batch = tryParseJson(message);
+      if (!Array.isArray(batch)) return;
+      shown += batch.length;
+      Renderer.renderLogStreamLines(batch);
+    }, controller.signal, (LOG_FOLLOW_SECONDS + 30) * 1000);
+
+    Renderer.renderLogFollowEnd(tryParseJson(result.content?.[0]?.text) || {});
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+    Renderer.renderLogFollowEnd({ success: true, stoppedBy: 'cancelled', streamed: shown });
+  } finally {
+    activeSession = null;
+  }
+}
+
+// Poll interval for "watch" (seconds); list tools are cheap enough for this rate
+const WATCH_INTERVAL_SECONDS = 5;
+// Resources whose tools are reports rather than lists
+const NON_LIST_RESOURCES = new Set(['billing', 'debtlimit', 'health']);
+
+/**
+ * Resolve after ms, or early when the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Parse and run "watch <resource>... [ns-x] [zone] [--interval N]": poll the list
+ * tools and redraw, highlighting rows that appeared, disappeared or changed status.
+ */
+async function watchResources(input: string): Promise<void> {
+  const intervalMatch = input.match(/--interval\s+(\d+)/);
+  const intervalSeconds = intervalMatch && parseInt(intervalMatch[1]) > 0 ? parseInt(intervalMatch[1]) : WATCH_INTERVAL_SECONDS;
+  const tokens = input.replace(/--interval(?:\s+\d+)?/g, '').trim().split(/\s+/).slice(1);
+
+  // Namespace and zone fall back to the REPL context
+  if (parameters.namespace && !tokens.some(t => t.toLowerCase().startsWith('ns-'))) tokens.push(parameters.namespace);
+  if (parameters.zone && !tokens.some(t => KNOWN_ZONES.has(t.toLowerCase()))) tokens.push(parameters.zone);
+
+  const paramsList = parseInputDeterministic(tokens);
+  if (!paramsList || paramsList.some(p => p.intent !== 'list' || NON_LIST_RESOURCES.has(p.resource) || (!p.namespace && p.resource !== 'node'))) {
+    console.error('❌ Usage: watch <resource>... [ns-xxx] [zone] [--interval seconds]');
+    console.error('   Example: watch devbox ns-test hzh --interval 10');
+    return;
+  }
+
+  const targets = paramsList.map(params => ({
+    resource: params.resource,
+    toolName: TOOL_MAPPING[params.resource] || 'list_pods_by_ns',
+    args: {
+      namespace: params.namespace,
+      ...(KNOWN_ZONES.has(params.identifier) && { zone: params.identifier })
+    },
+    state: createWatchState()
+  }));
+  const label = `${paramsList.map(p => p.resource).join(', ')}${paramsList[0].namespace ? ` in ${paramsList[0].namespace}` : ''}${paramsList[0].identifier ? ` (${paramsList[0].identifier})` : ''}`;
+
+  const controller = new AbortController();
+  activeSession = controller;
+  let poll = 0;
 
-      const request = {
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'tools/call',
-        params: {
-          name: toolName,
-          arguments: requestArgs
+  try {
+    while (!controller.signal.aborted) {
+      poll++;
+      const frames = await Promise.all(targets.map(async target => {
+        try {
+          const result = await mcpConnection.callTool(target.toolName, target.args);
+          return buildWatchFrame(target.resource, tryParseJson(result.content?.[0]?.text), target.state);
+        } catch (error) {
+          return buildWatchFrame(target.resource, { success: false, error: { message: error instanceof Error ? error.message : 'Unknown error' } }, target.state);
         }
-      };
+      }));
+      if (controller.signal.aborted) break;
+
+      Renderer.clearWatchScreen();
+      Renderer.renderWatchHeader(label, intervalSeconds, poll);
+      frames.forEach(frame => Renderer.renderWatchFrame(frame));
+      console.log('─'.repeat(80));
 
-      server.stdin.write(JSON.stringify(request) + '\n');
-      server.stdin.end();
+      await sleep(intervalSeconds * 1000, controller.signal);
+    }
+    console.log(`⏹  Watch stopped after ${poll} poll${poll === 1 ? '' : 's'}`);
+  } finally {
+    activeSession = null;
+  }
+}
+
+/**
+ * Split ns-xxx and zone tokens out of a command, falling back to the REPL context
+ */
+function resolveScope(tokens: string[]): { namespace: string | null; zone: string | null; rest: string[] } {
+  let namespace = parameters.namespace;
+  let zone = parameters.zone;
+  const rest: string[] = [];
+  tokens.forEach(token => {
+    const lower = token.toLowerCase();
+    if (lower.startsWith('ns-')) namespace = lower;
+    else if (KNOWN_ZONES.has(lower)) zone = lower;
+    else if (token) rest.push(token);
+  });
+  return { namespace, zone, rest };
+}
+
+/**
+ * Run every namespace list tool and collect the parsed results
+ */
+async function captureSnapshot(namespace: string, zone: string | null, id: string): Promise<Snapshot> {
+  const results: Record<string, any> = {};
+  const errors: Record<string, string> = {};
+
+  await Promise.all(SNAPSHOT_RESOURCES.map(async resource => {
+    try {
+      const result = await mcpConnection.callTool(TOOL_MAPPING[resource], { namespace, ...(zone && { zone }) });
+      const data = tryParseJson(result.content?.[0]?.text);
+      results[resource] = data;
+      if (data?.success === false) errors[resource] = data.error?.message || 'Unknown error';
     } catch (error) {
-      if (!hasResponded) {
-        hasResponded = true;
-        clearTimeout(timeout);
-        server.kill();
-        resolve({
-          resource: params.resource,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+      errors[resource] = error instanceof Error ? error.message : 'Unknown error';
     }
+  }));
+
+  return {
+    id,
+    namespace,
+    ...(zone && { zone }),
+    takenAt: new Date().toISOString(),
+    results,
+    ...(Object.keys(errors).length > 0 && { errors })
+  };
+}
+
+/**
+ * "snapshot [ns-x] [zone]"          save every list-tool result of the namespace
+ * "snapshot list [ns-x]"            list saved snapshots
+ * "diff [from] [to] [ns-x] [zone]"  compare snapshots (ids, "latest", "previous");
+ *                                   without "to" the comparison is against live state
+ */
+async function runSnapshotCommand(input: string): Promise<void> {
+  const [command, ...args] = input.trim().split(/\s+/);
+  const { namespace, zone, rest } = resolveScope(args);
+
+  if (!namespace) {
+    console.error('❌ No namespace in context: add an ns-xxx token');
+    console.error('   Usage: snapshot [ns-xxx] [zone] | snapshot list [ns-xxx] | diff [from] [to] [ns-xxx] [zone]');
+    return;
+  }
+
+  if (command.toLowerCase() === 'snapshots' || rest[0] === 'list') {
+    Renderer.renderSnapshotList(namespace, listSnapshots(namespace));
+    return;
+  }
+
+  if (command.toLowerCase() === 'snapshot') {
+    console.error(`[Client] Capturing ${SNAPSHOT_RESOURCES.length} resource types in ${namespace}...`);
+    const snapshot = await captureSnapshot(namespace, zone, snapshotId(new Date()));
+    Renderer.renderSnapshotSaved(snapshot, saveSnapshot(snapshot));
+    return;
+  }
+
+  // diff: default is latest saved snapshot vs live state
+  const from = loadSnapshot(namespace, rest[0] || 'latest');
+  let to: Snapshot;
+  if (rest[1]) {
+    to = loadSnapshot(namespace, rest[1]);
+  } else {
+    console.error(`[Client] Capturing live state of ${namespace} for comparison...`);
+    to = await captureSnapshot(namespace, zone || from.zone || null, 'live');
+  }
+  Renderer.renderSnapshotDiff(diffSnapshots(from, to));
+}
+
+// "<verb> <kind> <name>": the write tools the REPL exposes
+const WRITE_ACTION_PATTERN = /^(restart|delete|start|stop|suspend|resume)\s+(pods?|devbox|cronjob|db|database|cluster)\b/i;
+
+/**
+ * Map a write command to its tool and arguments (without namespace/zone)
+ */
+function resolveWriteAction(verb: string, kind: string, name: string, extra: string[]): { toolName: string; args: Record<string, unknown> } | null {
+  if (/^pods?$/.test(kind) && (verb === 'restart' || verb === 'delete')) {
+    return { toolName: 'restart_pod', args: { name } };
+  }
+  if (kind === 'devbox' && (verb === 'start' || verb === 'stop')) {
+    return { toolName: 'set_devbox_state', args: { name, state: verb === 'start' ? 'Running' : 'Stopped' } };
+  }
+  if (kind === 'cronjob' && (verb === 'suspend' || verb === 'resume')) {
+    return { toolName: 'suspend_cronjob', args: { name, suspend: verb === 'suspend' } };
+  }
+  if (['db', 'database', 'cluster'].includes(kind) && verb === 'restart') {
+    return { toolName: 'restart_cluster', args: { name, ...(extra.length > 0 && { components: extra }) } };
+  }
+  return null;
+}
+
+/**
+ * "restart pod <name>", "delete pod <name>", "start|stop devbox <name>",
+ * "suspend|resume cronjob <name>", "restart db <name> [component]..." with [ns-x] [zone].
+ * Shows the server-side dry run, then applies only after the user types "yes".
+ */
+async function runWriteAction(input: string, rl: readline.Interface): Promise<void> {
+  const [verb, kind, ...args] = input.trim().split(/\s+/);
+  const { namespace, zone, rest } = resolveScope(args);
+  const [name, ...extra] = rest;
+  const action = name ? resolveWriteAction(verb.toLowerCase(), kind.toLowerCase(), name, extra) : null;
+
+  if (!action || !namespace) {
+    console.error('❌ Usage: restart|delete pod <name> | start|stop devbox <name> | suspend|resume cronjob <name> | restart db <name> [component]... [ns-xxx] [zone]');
+    if (action) console.error('   No namespace in context: add an ns-xxx token');
+    return;
+  }
+
+  const baseArgs = { ...action.args, namespace, ...(zone && { zone }) };
+  const dryRun = tryParseJson((await mcpConnection.callTool(action.toolName, baseArgs)).content?.[0]?.text) || {};
+  Renderer.renderActionPreview(dryRun);
+  if (dryRun.success === false || !dryRun.confirmationToken) return;
+
+  // Ctrl+C while asking declines, like answering "no"
+  const controller = new AbortController();
+  activeSession = controller;
+  let answer = '';
+  try {
+    answer = await rl.question(`Type "yes" to ${dryRun.action} ${dryRun.target}: `, { signal: controller.signal });
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+  } finally {
+    activeSession = null;
+  }
+
+  if (answer.trim().toLowerCase() !== 'yes') {
+    console.log('⏹  Cancelled, nothing was changed');
+    return;
+  }
+
+  const applied = await mcpConnection.callTool(action.toolName, { ...baseArgs, confirm: true, confirmationToken: dryRun.confirmationToken });
+  Renderer.renderActionResult(tryParseJson(applied.content?.[0]?.text) || {});
+}
+
+/**
+ * "history --audit [--since 2h|2026-10-01] [--until ...] [--tool name] [--limit N] [ns-x]".
+ * Unlike other commands the namespace does not fall back to the REPL context.
+ */
+async function showAuditLog(input: string): Promise<void> {
+  const option = (flag: string) => input.match(new RegExp(`--${flag}\\s+(\\S+)`))?.[1];
+  const limit = option('limit') ? parseInt(option('limit')!) : NaN;
+  const namespace = input.split(/\s+/).find(token => token.toLowerCase().startsWith('ns-'))?.toLowerCase();
+
+  const result = await mcpConnection.callTool('query_audit_log', {
+    ...(option('since') && { since: option('since') }),
+    ...(option('until') && { until: option('until') }),
+    ...(option('tool') && { tool: option('tool') }),
+    ...(limit > 0 && { limit }),
+    ...(namespace && { namespace })
+  });
+  Renderer.renderAuditLog(tryParseJson(result.content?.[0]?.text) || {});
+}
+
+/**
+ * "quota fit devbox|db <name> [cpu=2] [memory=4Gi] [storage=20Gi] [replicas=3] [component=x] [ns-x] [zone]".
+ * Omitted sizes keep their current value.
+ */
+async function runQuotaFit(input: string): Promise<void> {
+  const [, , kind, ...args] = input.trim().split(/\s+/);
+  const { namespace, zone, rest } = resolveScope(args);
+  const [name, ...sizes] = rest;
+  const resizeKind = kind?.toLowerCase() === 'devbox' ? 'devbox' : ['db', 'database', 'cluster'].includes(kind?.toLowerCase()) ? 'cluster' : null;
+
+  const resize: Record<string, unknown> = { kind: resizeKind, name };
+  const invalid = sizes.filter(size => {
+    const match = size.match(/^(cpu|memory|storage|replicas|component)=(\S+)$/i);
+    if (!match) return true;
+    resize[match[1].toLowerCase()] = match[1].toLowerCase() === 'replicas' ? parseInt(match[2]) : match[2];
+    return false;
   });
+
+  if (!resizeKind || !name || invalid.length > 0 || !namespace) {
+    console.error('❌ Usage: quota fit devbox|db <name> [cpu=2] [memory=4Gi] [storage=20Gi] [replicas=3] [component=x] [ns-xxx] [zone]');
+    if (invalid.length > 0) console.error(`   Not understood: ${invalid.join(' ')}`);
+    if (!namespace) console.error('   No namespace in context: add an ns-xxx token');
+    return;
+  }
+
+  const result = await mcpConnection.callTool('list_quota_by_ns', { namespace, resize, ...(zone && { zone }) });
+  const data = tryParseJson(result.content?.[0]?.text) || {};
+  if (data.success === false) {
+    console.error(`❌ Failed to list quotas: ${data.error?.message || 'Unknown error'}`);
+    return;
+  }
+  Renderer.renderQuotaAlerts(data.alerts, data.thresholds);
+  Renderer.renderResizeFit(data.resizeFit);
 }
 
 // MCP task execution function (parallel)
@@ -595,6 +1038,7 @@ async function runMcpTaskLegacy(params: CleanedParameters, isRawMode: boolean =
 
   if (result.result) {
     displayResults(result.result, isRawMode);
+    if (!isRawMode) Renderer.renderRedactionNotice(tryParseJson(result.result.content?.[0]?.text));
   }
 
   return result;
@@ -603,12 +1047,12 @@ async function runMcpTaskLegacy(params: CleanedParameters, isRawMode: boolean =
 // Aggregated results display function for multi-resource queries
 function displayAggregatedResults(results: Array<{resource: string, result?: any, error?: string}>, isRawMode: boolean = false) {
   // Define priority order for display
-  const priority: Record<string, number> = { cluster: 1, node: 2, account: 3, debt: 4, devbox: 5, objectstorage: 6, certificate: 7, cronjob: 8, pods: 9, ingress: 10, event: 11, quota: 12 };
+  const priority: Record<string, number> = { debtlimit: 0, billing: 0, health: 0, cluster: 1, node: 2, account: 3, debt: 4, devbox: 5, objectstorage: 6, certificate: 7, cronjob: 8, suspects: 9, pods: 9, ingress: 10, event: 11, quota: 12 };
 
   // Sort results by priority
   const sortedResults = results.sort((a, b) => {
-    const priorityA = priority[a.resource] || 999;
-    const priorityB = priority[b.resource] || 999;
+    const priorityA = priority[a.resource] ?? 999;
+    const priorityB = priority[b.resource] ?? 999;
     return priorityA - priorityB;
   });
 
@@ -640,6 +1084,76 @@ function displayAggregatedResults(results: Array<{resource: string, result?: any
         const textContent = result.content[0].text;
         const data = JSON.parse(textContent);
 
+        // Check for diagnose_resource response first
+        if (data.steps && Array.isArray(data.steps) && data.checkedPods) {
+          Renderer.renderDiagnosisReport(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for namespace_health response
+        if (typeof data.score === 'number' && data.grade && Array.isArray(data.findings)) {
+          Renderer.renderNamespaceHealth(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for analyze_billing response
+        if (data.balances && Array.isArray(data.balances)) {
+          Renderer.renderBillingReport(data);
+          totalFound += data.balances.length;
+          continue;
+        }
+
+        // Check for check_debt_limit response
+        if (typeof data.blocked === 'boolean' && Array.isArray(data.evidence)) {
+          Renderer.renderDebtLimitReport(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for get_db_connection response
+        if (data.connectionStrings && Array.isArray(data.connectionStrings)) {
+          Renderer.renderDbConnection(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for check_devbox_ssh response
+        if (Array.isArray(data.stages) && typeof data.reachable === 'boolean') {
+          Renderer.renderSshCheck(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for devbox_history response
+        if (Array.isArray(data.commits) && typeof data.flagged === 'number') {
+          Renderer.renderDevboxHistory(data);
+          totalFound += data.commits.length;
+          continue;
+        }
+
+        // Check for rank_suspect_pods response
+        if (Array.isArray(data.suspects)) {
+          Renderer.renderSuspectPods(data);
+          totalFound += data.suspects.length;
+          continue;
+        }
+
+        // Check for resource_tree response
+        if (data.counts && (data.tree || data.success === false) && data.resource) {
+          Renderer.renderResourceTree(data);
+          totalFound += 1;
+          continue;
+        }
+
+        // Check for analyze_pod_logs response
+        if (Array.isArray(data.findings) && data.pod) {
+          Renderer.renderLogAnalysis(data);
+          totalFound += data.findings.length;
+          continue;
+        }
+
         // Check for inspect_resource response first
         if (data.manifest || (data.events && Array.isArray(data.events))) {
           console.log(`\n🔍 Inspect Result for ${resource}:`);
@@ -661,7 +1175,7 @@ function displayAggregatedResults(results: Array<{resource: string, result?: any
 
         // 2. Devbox List Rendering
         if (data.devboxes && Array.isArray(data.devboxes)) {
-          Renderer.displayDevboxesAsTable(data.devboxes, data.namespace, data.total || data.devboxes.length);
+          Renderer.displayDevboxesAsTable(data.devboxes, data.namespace, data.total || data.devboxes.length, data.summary);
           totalFound += data.devboxes.length;
           continue;
         }
@@ -676,6 +1190,8 @@ function displayAggregatedResults(results: Array<{resource: string, result?: any
         // 4. Quota List Rendering
         if (data.quotas && Array.isArray(data.quotas)) {
           Renderer.displayQuotasAsTransposedTable(data.quotas, data.namespace, data.total || data.quotas.length);
+          Renderer.renderQuotaAlerts(data.alerts, data.thresholds);
+          Renderer.renderResizeFit(data.resizeFit);
           totalFound += data.quotas.length;
           continue;
         }
@@ -738,7 +1254,11 @@ function displayAggregatedResults(results: Array<{resource: string, result?: any
 
         // 13. Error Handling
         if (data.success === false) {
-          console.error(`❌ Operation Failed: ${data.error?.message || data.error || 'Unknown error'}`);
+          const errorCode = data.error?.errorCode ? ` [${data.error.errorCode}]` : '';
+          console.error(`❌ Operation Failed${errorCode}: ${data.error?.message || data.error || 'Unknown error'}`);
+          if (data.error?.hint) {
+            console.error(`💡 Hint: ${data.error.hint}`);
+          }
           if (data.error?.details) {
             console.error('Details:', JSON.stringify(data.error.details, null, 2));
           }
@@ -809,6 +1329,106 @@ function displayResults(result: any, isRawMode: boolean = false) {
     try {
       const data = JSON.parse(textContent);
 
+      // Check for diagnose_resource response first
+      if (data.steps && Array.isArray(data.steps) && data.checkedPods) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderDiagnosisReport(data);
+        }
+        return;
+      }
+
+      // Check for namespace_health response
+      if (typeof data.score === 'number' && data.grade && Array.isArray(data.findings)) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderNamespaceHealth(data);
+        }
+        return;
+      }
+
+      // Check for analyze_billing response
+      if (data.balances && Array.isArray(data.balances)) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderBillingReport(data);
+        }
+        return;
+      }
+
+      // Check for check_debt_limit response
+      if (typeof data.blocked === 'boolean' && Array.isArray(data.evidence)) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderDebtLimitReport(data);
+        }
+        return;
+      }
+
+      // Check for get_db_connection response
+      if (data.connectionStrings && Array.isArray(data.connectionStrings)) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderDbConnection(data);
+        }
+        return;
+      }
+
+      // Check for check_devbox_ssh response
+      if (Array.isArray(data.stages) && typeof data.reachable === 'boolean') {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderSshCheck(data);
+        }
+        return;
+      }
+
+      // Check for devbox_history response
+      if (Array.isArray(data.commits) && typeof data.flagged === 'number') {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderDevboxHistory(data);
+        }
+        return;
+      }
+
+      // Check for rank_suspect_pods response
+      if (Array.isArray(data.suspects)) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderSuspectPods(data);
+        }
+        return;
+      }
+
+      // Check for resource_tree response
+      if (data.counts && (data.tree || data.success === false) && data.resource) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderResourceTree(data);
+        }
+        return;
+      }
+
+      // Check for analyze_pod_logs response
+      if (Array.isArray(data.findings) && data.pod) {
+        if (isRawMode) {
+          console.log(JSON.stringify(sortKeys(data), null, 2));
+        } else {
+          Renderer.renderLogAnalysis(data);
+        }
+        return;
+      }
+
       // Check for inspect_resource response first
       if (data.manifest || (data.events && Array.isArray(data.events))) {
         if (isRawMode) {
@@ -834,7 +1454,7 @@ function displayResults(result: any, isRawMode: boolean = false) {
 
       // 2. ✅ Devbox List Rendering
       if (data.devboxes && Array.isArray(data.devboxes)) {
-        Renderer.displayDevboxesAsTable(data.devboxes, data.namespace, data.total);
+        Renderer.displayDevboxesAsTable(data.devboxes, data.namespace, data.total, data.summary);
         return; // Exit immediately after rendering, no JSON dump
       }
 
@@ -847,6 +1467,8 @@ function displayResults(result: any, isRawMode: boolean = false) {
       // 4. ✅ Quota List Rendering (Beautiful display)
       if (data.quotas && Array.isArray(data.quotas)) {
         Renderer.displayQuotasAsTransposedTable(data.quotas, data.namespace, data.total);
+        Renderer.renderQuotaAlerts(data.alerts, data.thresholds);
+        Renderer.renderResizeFit(data.resizeFit);
         return; // Exit immediately after rendering, no JSON dump
       }
 
@@ -900,7 +1522,11 @@ function displayResults(result: any, isRawMode: boolean = false) {
 
       // 13. ❌ Error Handling
       if (data.success === false) {
-        console.error(`\n❌ Operation Failed: ${data.error?.message || data.error || 'Unknown error'}`);
+        const errorCode = data.error?.errorCode ? ` [${data.error.errorCode}]` : '';
+        console.error(`\n❌ Operation Failed${errorCode}: ${data.error?.message || data.error || 'Unknown error'}`);
+        if (data.error?.hint) {
+          console.error(`💡 Hint: ${data.error.hint}`);
+        }
         if (data.error?.details) {
           console.error('Details:', JSON.stringify(data.error.details, null, 2));
         }
@@ -967,8 +1593,17 @@ function tryParseJson(input: any): any {
   try { return JSON.parse(input); } catch { return input; }
 }
 
+// Secrets never go into the AI context, even when the user revealed them
+function redactForContext(data: any): any {
+  const redacted = redactSecrets(data).value;
+  if (redacted && redacted.revealed) {
+    return { ...redacted, password: '********', connectionStrings: [] };
+  }
+  return redacted;
+}
+
 // Start the program
 main().catch(error => {
   console.error('[Client] Fatal error:', error);
-  process.exit(1);
+  cleanupAndExit(1);
 });
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ClientConfig, McpResponse } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Long-lived MCP connection to the SRE agent server over stdio.
+ *
+ * The server process is spawned lazily on the first tool call and reused for
+ * every following call. Concurrent calls are multiplexed over the same pipe;
+ * the SDK Client correlates responses by JSON-RPC request id. If the server
+ * crashes, the next call transparently respawns it.
+ */
+export class McpConnection {
+  private config: Required<ClientConfig>;
+  private client: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+  private closing = false;
+
+  constructor(config: ClientConfig = {}) {
+    this.config = {
+      serverCommand: config.serverCommand || 'npm',
+      serverArgs: config.serverArgs || ['run', '--silent', 'start:server'],
+    };
+  }
+
+  /**
+   * Connect to the server, reusing the live connection or an in-flight attempt
+   */
+  private async connect(): Promise<Client> {
+    if (this.client) return this.client;
+    if (this.connecting) return this.connecting;
+
+    this.connecting = (async () => {
+      console.error(`[MCP] Starting server: ${this.config.serverCommand} ${this.config.serverArgs.join(' ')}`);
+
+      const transport = new StdioClientTransport({
+        command: this.config.serverCommand,
+        args: this.config.serverArgs,
+        stderr: 'pipe',
+      });
+
+      // Forward server logs line by line
+      transport.stderr?.on('data', (data) => {
+        data.toString().split('\n').filter((line: string) => line.trim()).forEach((line: string) => {
+          console.error(`[Server Log] ${line}`);
+        });
+      });
+
+      const client = new Client({ name: 'sealos-sre-agent-client', version: '2.0.0' });
+      client.onclose = () => {
+        if (this.client === client) {
+          this.client = null;
+          if (!this.closing) {
+            console.error('[MCP] Server connection closed unexpectedly. It will be restarted on the next query.');
+          }
+        }
+      };
+      client.onerror = (error) => {
+        console.error('[MCP] Transport error:', error.message);
+      };
+
+      await client.connect(transport);
+      console.error('[MCP] Connected to server');
+      this.client = client;
+      return client;
+    })();
+
+    try {
+      return await this.connecting;
+    } finally {
+      this.connecting = null;
+    }
+  }
+
+  /**
+   * Call a tool, reconnecting once if the server died mid-request.
+   * meta is sent as request _meta (e.g. { reveal: true } to skip server-side redaction).
+   */
+  async callTool(name: string, args: Record<string, any>, timeoutMs: number = DEFAULT_TIMEOUT_MS, meta?: Record<string, unknown>): Promise<McpResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const client = await this.connect();
+      try {
+        const result = await client.callTool({ name, arguments: args, ...(meta && { _meta: meta }) }, undefined, { timeout: timeoutMs });
+        return result as McpResponse;
+      } catch (error) {
+        const connectionLost = error instanceof McpError && error.code === ErrorCode.ConnectionClosed;
+        if (connectionLost && attempt === 1 && !this.closing) {
+          console.error(`[MCP] Connection lost during ${name}, reconnecting...`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Call a streaming tool: progress messages are handed to onMessage as they
+   * arrive. Aborting the signal cancels the request on the server as well.
+   */
+  async streamTool(
+    name: string,
+    args: Record<string, any>,
+    onMessage: (message: string) => void,
+    signal: AbortSignal,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ): Promise<McpResponse> {
+    const client = await this.connect();
+    const result = await client.callTool({ name, arguments: args }, undefined, {
+      timeout: timeoutMs,
+      signal,
+      onprogress: (progress) => {
+        if (progress.message) onMessage(progress.message);
+      },
+    });
+    return result as McpResponse;
+  }
+
+  /**
+   * Gracefully close the connection (SIGTERM, then SIGKILL after a grace period)
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    const client = this.client || (this.connecting ? await this.connecting.catch(() => null) : null);
+    this.client = null;
+    if (client) {
+      await client.close();
+    }
+  }
+}
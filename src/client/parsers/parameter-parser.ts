@@ -1,138 +1,122 @@
-import { z } from 'zod';
-
-// Define parameter schemas
-const ParameterSchema = z.object({
-  ns: z.string().optional(),
-  namespace: z.string().optional(),
-  hzh: z.string().optional(),
-  pods: z.boolean().optional(),
-});
-
-export type ParameterData = z.infer<typeof ParameterSchema>;
-
-export interface CleanedParameters {
-  namespace: string;
-  command: string;
-}
-
-export interface ParseResult {
-  success: boolean;
-  data?: CleanedParameters;
-  error?: string;
-}
+import { CleanedParameters } from '../ai/ai-service';
+
+// Zones accepted as list identifiers
+export const KNOWN_ZONES = new Set(['hzh', 'bja', 'gzg']);
+
+// Alias -> canonical resource (same table as the AIService prompt)
+export const RESOURCE_ALIASES: Record<string, string> = {
+  'obs': 'objectstorage', 'bucket': 'objectstorage', 'buckets': 'objectstorage', 'objectstorage': 'objectstorage',
+  'cert': 'certificate', 'certs': 'certificate', 'certificate': 'certificate', 'certificates': 'certificate',
+  'db': 'cluster', 'dbs': 'cluster', 'cluster': 'cluster', 'clusters': 'cluster',
+  'node': 'node', 'nodes': 'node',
+  'cronjob': 'cronjob', 'cronjobs': 'cronjob',
+  'event': 'event', 'events': 'event',
+  'account': 'account', 'accounts': 'account',
+  'debt': 'debt', 'debts': 'debt',
+  'billing': 'billing', 'balance': 'billing', '余额': 'billing',
+  'debtlimit': 'debtlimit', 'debt-limit': 'debtlimit', '欠费': 'debtlimit',
+  'pod': 'pods', 'pods': 'pods',
+  'suspect': 'suspects', 'suspects': 'suspects', '嫌疑': 'suspects',
+  'devbox': 'devbox', 'devboxes': 'devbox',
+  'ingress': 'ingress', 'ingresses': 'ingress',
+  'quota': 'quota', 'quotas': 'quota',
+  'health': 'health', 'overview': 'health', 'dashboard': 'health', '健康': 'health', '概览': 'health',
+};
+
+// Intent keywords; anything else defaults to "list"
+const INTENT_KEYWORDS: Record<string, CleanedParameters['intent']> = {
+  'describe': 'inspect', 'desc': 'inspect', 'inspect': 'inspect', 'detail': 'inspect',
+  'xiangqing': 'inspect', '查看详情': 'inspect', '详情': 'inspect',
+  'diagnose': 'diagnose', 'diag': 'diagnose', 'why': 'diagnose', '诊断': 'diagnose', '排查': 'diagnose',
+  'connect': 'connect', 'conn': 'connect', '连接': 'connect',
+  'ssh': 'ssh',
+  'history': 'history', 'commits': 'history', '提交记录': 'history',
+  'tree': 'tree', '关系': 'tree',
+  'logs': 'logs', 'log': 'logs', '日志': 'logs',
+  'get': 'list', 'list': 'list', 'show': 'list', 'ls': 'list',
+};
+
+// Only parent CRDs can be diagnosed or shown as a tree
+const DIAGNOSABLE_RESOURCES = new Set(['devbox', 'cluster']);
 
 /**
- * Parse unordered parameters and extract relevant information
- * Supports input: ["ns", "hzh", "pods"]
+ * Rule-based replacement for AIService.parseRawInput.
+ *
+ * Resolves zones, ns- namespaces, resource aliases, describe/diagnose/connect/ssh/history/tree/logs intents
+ * and multi-resource queries without any network call. Returns null when the
+ * input contains tokens it cannot place, so the caller can fall back to the LLM.
+ * A missing namespace is left empty: the caller fills it from the REPL context
+ * and rejects the query only if it is still missing then.
+ *
+ * Examples:
+ *   ["hzh", "obs", "ns-test"]             -> [{ns-test, objectstorage, hzh, list}]
+ *   ["describe", "pod", "mysql-0", "ns-x"] -> [{ns-x, pods, mysql-0, inspect}]
  */
-export function parseUnorderedParameters(rawArgs: string[]): ParseResult {
-  try {
-    // Initialize parameter object
-    const params: any = {};
-
-    // Process each argument
-    for (let i = 0; i < rawArgs.length; i++) {
-      const arg = rawArgs[i].toLowerCase().trim();
-
-      // Handle different parameter formats
-      if (arg === 'ns' || arg === 'namespace') {
-        // Next argument might be the namespace value
-        const nextArg = rawArgs[i + 1];
-        if (nextArg && !['ns', 'hzh', 'pods', 'namespace'].includes(nextArg.toLowerCase())) {
-          params.namespace = nextArg;
-          i++; // Skip the next argument as we've processed it
-        }
-      } else if (arg === 'hzh') {
-        // hzh is typically the namespace value in this context
-        params.hzh = arg;
-      } else if (arg === 'pods') {
-        params.pods = true;
-      } else {
-        // If it's not a known keyword, it might be a namespace value
-        if (arg.match(/^[a-z0-9-]+$/)) {
-          // If we haven't found a namespace yet, use this as namespace
-          if (!params.namespace && !params.hzh) {
-            params.namespace = arg;
-          } else if (arg === 'hzh' && !params.namespace) {
-            // Special case: if "hzh" is found without namespace, use it
-            params.namespace = 'hzh';
-          }
-        }
-      }
-    }
-
-    // Determine the final namespace
-    let finalNamespace = '';
-    if (params.namespace) {
-      finalNamespace = params.namespace;
-    } else if (params.hzh) {
-      // For the specific input ["ns", "hzh", "pods"], hzh is the namespace
-      finalNamespace = 'hzh';
+export function parseInputDeterministic(rawArgs: string[]): CleanedParameters[] | null {
+  let namespace = '';
+  let zone = '';
+  let name = '';
+  let intent: CleanedParameters['intent'] = 'list';
+  const resources: string[] = [];
+  let previousWasResource = false;
+
+  for (const rawToken of rawArgs) {
+    const token = rawToken.trim();
+    const lower = token.toLowerCase();
+    if (!lower || lower === '!') continue;
+
+    if (INTENT_KEYWORDS[lower]) {
+      // An explicit inspect/diagnose keyword wins over a generic list verb
+      if (INTENT_KEYWORDS[lower] !== 'list') intent = INTENT_KEYWORDS[lower];
+      previousWasResource = false;
+    } else if (KNOWN_ZONES.has(lower)) {
+      zone = lower;
+      previousWasResource = false;
+    } else if (lower.startsWith('ns-')) {
+      namespace = lower;
+      previousWasResource = false;
+    } else if (RESOURCE_ALIASES[lower]) {
+      const resource = RESOURCE_ALIASES[lower];
+      if (!resources.includes(resource)) resources.push(resource);
+      previousWasResource = true;
+    } else if (previousWasResource && !name) {
+      // Names are only accepted right after a resource token
+      name = token;
+      previousWasResource = false;
     } else {
-      return {
-        success: false,
-        error: 'No namespace found in parameters',
-      };
+      console.error(`[Parser] Unresolved token: ${token}`);
+      return null;
     }
-
-    // Validate using Zod schema
-    ParameterSchema.parse(params);
-
-    // Generate the command
-    const command = `kubectl get pods -n ${finalNamespace}`;
-
-    const result: CleanedParameters = {
-      namespace: finalNamespace,
-      command,
-    };
-
-    return {
-      success: true,
-      data: result,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown parsing error',
-    };
   }
-}
-
-/**
- * Clean and validate parameters for various input patterns
- * Handles: ["ns-mh69tey1", "hzh", "pods"], ["ns", "hzh", "pods"], etc.
- */
-export function cleanNsHzhPodsParameters(rawArgs: string[]): ParseResult {
-  // Look for namespace-like values (alphanumeric strings with possible hyphens)
-  let namespace = '';
 
-  for (const arg of rawArgs) {
-    const lowerArg = arg.toLowerCase().trim();
+  // A bare name only makes sense for named intents (inspect/diagnose/connect/ssh/history/tree/logs)
+  if (name && intent === 'list') {
+    console.error(`[Parser] Name "${name}" given without describe/diagnose intent`);
+    return null;
+  }
 
-    // Skip known keywords
-    if (lowerArg === 'ns' || lowerArg === 'namespace' || lowerArg === 'pods') {
-      continue;
-    }
+  if (resources.length === 0) resources.push('pods');
 
-    // If it looks like a namespace (alphanumeric with possible hyphens)
-    if (arg.match(/^[a-z0-9-]+$/i) && arg.length > 1) {
-      namespace = arg;
-      break; // Take the first namespace-like value
-    }
+  if (intent !== 'list') {
+    // Named intents target exactly one named resource
+    if (!name || resources.length !== 1) return null;
+    if ((intent === 'diagnose' || intent === 'tree') && !DIAGNOSABLE_RESOURCES.has(resources[0])) return null;
+    if (intent === 'connect' && resources[0] !== 'cluster') return null;
+    if ((intent === 'ssh' || intent === 'history') && resources[0] !== 'devbox') return null;
+    if (intent === 'logs' && resources[0] !== 'pods') return null;
+    return [{ namespace, resource: resources[0], identifier: name, intent }];
   }
 
-  // If no namespace found, fall back to general parser
-  if (!namespace) {
-    return parseUnorderedParameters(rawArgs);
+  const results: CleanedParameters[] = [];
+  for (const resource of resources) {
+    // Node is cluster-scoped and never carries a namespace
+    results.push({
+      namespace: resource === 'node' ? '' : namespace,
+      resource,
+      identifier: zone,
+      intent: 'list',
+    });
   }
 
-  const result: CleanedParameters = {
-    namespace: namespace,
-    command: `kubectl get pods -n ${namespace}`,
-  };
-
-  return {
-    success: true,
-    data: result,
-  };
-}
\ No newline at end of file
+  return results;
+}
@@ -0,0 +1,44 @@
+// Renderer for guarded write actions: dry-run preview and applied result
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+function renderActionFailure(title: string, data: any): void {
+  console.log(`\n❌ ${title} Failed: ${data.error?.message || 'Unknown error'}`);
+  if (data.error?.hint) {
+    console.log(`💡 Hint: ${data.error.hint}`);
+  }
+  console.log('─'.repeat(80));
+}
+
+function renderWarnings(warnings?: string[]): void {
+  (warnings || []).forEach(warning => console.log(`  ⚠️  ${COLORS.yellow}${warning}${COLORS.reset}`));
+}
+
+// Helper function for displaying the dry-run preview of a write action
+export function renderActionPreview(data: any): void {
+  console.log(`\n🛡️  Dry run: ${COLORS.bold}${data.action}${COLORS.reset} ${data.target} in ${data.namespace} (${data.zone})`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    renderActionFailure('Dry Run', data);
+    return;
+  }
+
+  (data.preview || []).forEach((line: string) => console.log(`  ${COLORS.cyan}•${COLORS.reset} ${line}`));
+  renderWarnings(data.warnings);
+  console.log(`  ${COLORS.dim}Accepted by the API server (dry run), nothing changed yet. Confirmation expires at ${data.expiresAt ? new Date(data.expiresAt).toLocaleTimeString() : '-'}${COLORS.reset}`);
+  console.log('─'.repeat(80));
+}
+
+// Helper function for displaying the outcome of a confirmed write action
+export function renderActionResult(data: any): void {
+  if (data.success === false) {
+    renderActionFailure('Action', data);
+    return;
+  }
+
+  (data.result || []).forEach((line: string) => console.log(`✅ ${COLORS.green}${line}${COLORS.reset}`));
+}
@@ -0,0 +1,63 @@
+// Renderer for query_audit_log results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  'success': COLORS.green,
+  'failure': COLORS.red,
+  'invalid': COLORS.yellow,
+  'cancelled': COLORS.gray
+};
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+// Write tools get their confirmation step, everything else the resource name
+function describeCall(entry: any): string {
+  const target = entry.args?.name ? String(entry.args.name) : '';
+  if (!entry.confirmation) return target;
+  const step = entry.confirmation.step === 'confirm' ? `${COLORS.bold}confirm${COLORS.reset}` : 'dry-run';
+  return `${target} ${COLORS.cyan}[${step}${entry.confirmation.tokenId ? ` ${entry.confirmation.tokenId}` : ''}]${COLORS.reset}`;
+}
+
+// Helper function for displaying audit log entries, newest first
+export function renderAuditLog(data: any): void {
+  console.log(`\n🧾 Audit log ${COLORS.dim}${data.file || ''}${COLORS.reset}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Audit Query Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  if (!data.entries || data.entries.length === 0) {
+    console.log(`  ${COLORS.dim}No matching entries.${COLORS.reset}`);
+  }
+
+  (data.entries || []).forEach((entry: any) => {
+    const color = STATUS_COLORS[entry.status] || '';
+    const status = `${color}${String(entry.status).padEnd(9)}${COLORS.reset}`;
+    const time = new Date(entry.time).toLocaleString();
+    const scope = `${entry.namespace || '-'}${entry.zone ? `@${entry.zone}` : ''}`;
+    console.log(`  ${COLORS.dim}${time}${COLORS.reset}  ${status} ${entry.tool.padEnd(22)} ${scope.padEnd(24)} ${describeCall(entry)}`);
+    const meta = [
+      formatDuration(entry.durationMs || 0),
+      entry.errorCode,
+      entry.context && `context ${entry.context}`,
+      entry.actor && `by ${entry.actor}`
+    ].filter(Boolean).join(' · ');
+    console.log(`  ${' '.repeat(time.length)}  ${COLORS.gray}${meta}${COLORS.reset}`);
+  });
+
+  const shown = (data.entries || []).length;
+  console.log(`\n  ${COLORS.dim}Showing ${shown} of ${data.matched} matching (${data.total} entries in the log${data.skipped ? `, ${data.skipped} unreadable` : ''})${COLORS.reset}`);
+  console.log('─'.repeat(80));
+}
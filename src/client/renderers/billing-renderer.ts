@@ -0,0 +1,135 @@
+// Report renderers for analyze_billing and check_debt_limit results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const VERDICT_STYLES: Record<string, { icon: string; color: string }> = {
+  'OK': { icon: '✅', color: COLORS.green },
+  'Warning': { icon: '⚠️', color: COLORS.yellow },
+  'Critical': { icon: '🚨', color: COLORS.red }
+};
+
+const LEVEL_COLORS: Record<string, string> = {
+  'Healthy': COLORS.green,
+  'Low': COLORS.yellow,
+  'Negative': COLORS.red
+};
+
+const IMPACT_COLORS: Record<string, string> = {
+  'None': COLORS.green,
+  'Notice': COLORS.yellow,
+  'SuspendSoon': COLORS.yellow,
+  'Suspended': COLORS.red,
+  'DeletionSoon': COLORS.red,
+  'Deleted': COLORS.red
+};
+
+// Format a yuan amount, e.g. ¥12.50 / -¥3.00
+export function formatYuan(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}¥${Math.abs(amount).toFixed(2)}`;
+}
+
+// Helper function for displaying the billing analysis (balances, debt status, verdict)
+export function renderBillingReport(data: any): void {
+  console.log(`\n💰 Billing in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Billing Analysis Failed: ${data.error?.message || 'Unknown error'}`);
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  (data.balances || []).forEach((account: any) => {
+    const color = LEVEL_COLORS[account.level] || COLORS.gray;
+    console.log(`  ${COLORS.bold}${account.name}${COLORS.reset}  ${color}${account.level}${COLORS.reset}`);
+    console.log(`    ├─ Available:  ${color}${formatYuan(account.available)}${COLORS.reset}`);
+    console.log(`    ├─ Recharged:  ${formatYuan(account.balance)}`);
+    console.log(`    ├─ Spent:      ${formatYuan(account.deductionBalance)}`);
+    console.log(`    └─ Bonus:      ${formatYuan(account.activityBonus)} ${COLORS.dim}(display only)${COLORS.reset}`);
+  });
+
+  if (data.debt) {
+    const color = IMPACT_COLORS[data.debt.impact] || COLORS.gray;
+    console.log(`\n  ${COLORS.bold}Debt${COLORS.reset} ${data.debt.name}: ${color}${data.debt.status}${COLORS.reset} ${COLORS.dim}(${data.debt.impact})${COLORS.reset}`);
+    console.log(`    ${data.debt.meaning}`);
+    if (data.debt.lastUpdate) {
+      console.log(`    ${COLORS.dim}Last update: ${data.debt.lastUpdate}${COLORS.reset}`);
+    }
+  }
+
+  (data.warnings || []).forEach((w: string) => console.log(`\n  ${COLORS.yellow}⚠️  ${w}${COLORS.reset}`));
+
+  const verdict = data.verdict;
+  if (verdict) {
+    const style = VERDICT_STYLES[verdict.level] || { icon: '📄', color: COLORS.gray };
+    console.log(`\n${style.icon} ${COLORS.bold}${style.color}${verdict.level}${COLORS.reset}: ${verdict.summary}`);
+    (verdict.findings || []).forEach((f: string) => console.log(`    • ${f}`));
+  }
+
+  console.log('─'.repeat(80));
+}
+
+const DEBT_LIMIT_STYLES: Record<string, { icon: string; color: string }> = {
+  'Blocked': { icon: '⛔', color: COLORS.red },
+  'AtRisk': { icon: '⚠️', color: COLORS.yellow },
+  'Clear': { icon: '✅', color: COLORS.green }
+};
+
+// Helper function for the billing banner printed before query results (silent when clear)
+export function renderDebtLimitBanner(data: any): void {
+  if (!data || data.success === false || data.status === 'Clear') return;
+
+  const style = DEBT_LIMIT_STYLES[data.status] || DEBT_LIMIT_STYLES['AtRisk'];
+  const title = data.blocked
+    ? `BILLING BLOCK: namespace ${data.namespace} is blocked by debt`
+    : `BILLING WARNING: namespace ${data.namespace} is at risk of suspension`;
+
+  console.log(`\n${style.color}${'═'.repeat(80)}${COLORS.reset}`);
+  console.log(`${style.icon} ${COLORS.bold}${style.color}${title}${COLORS.reset}`);
+  console.log(`   ${data.summary}`);
+  (data.evidence || []).slice(0, 3).forEach((e: any) => {
+    console.log(`   • ${COLORS.dim}${e.path}:${COLORS.reset} ${e.value}`);
+  });
+  if ((data.evidence || []).length > 3) {
+    console.log(`   ${COLORS.dim}... ${data.evidence.length - 3} more (run "debtlimit" for the full report)${COLORS.reset}`);
+  }
+  console.log(`${style.color}${'═'.repeat(80)}${COLORS.reset}`);
+}
+
+// Helper function for displaying the full check_debt_limit report
+export function renderDebtLimitReport(data: any): void {
+  console.log(`\n🧾 Billing block check in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Billing Check Failed: ${data.error?.message || 'Unknown error'}`);
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const scanned = data.scanned || {};
+  console.log(`  ${COLORS.dim}Scanned:${COLORS.reset} ${scanned.events || 0} events, ${scanned.devboxes || 0} devboxes, ${scanned.clusters || 0} clusters, ${scanned.quotas || 0} quotas`);
+
+  if (data.debt) {
+    const color = IMPACT_COLORS[data.debt.impact] || COLORS.gray;
+    console.log(`  ${COLORS.dim}Debt:${COLORS.reset}    ${data.debt.name} ${color}${data.debt.status}${COLORS.reset} ${COLORS.dim}(${data.debt.impact})${COLORS.reset}`);
+  }
+
+  const style = DEBT_LIMIT_STYLES[data.status] || { icon: '📄', color: COLORS.gray };
+  console.log(`\n${style.icon} ${COLORS.bold}${style.color}${data.status}${COLORS.reset}: ${data.summary}`);
+
+  if (data.evidence && data.evidence.length > 0) {
+    console.log(`\n  ${COLORS.bold}${COLORS.cyan}Evidence${COLORS.reset}`);
+    data.evidence.forEach((e: any) => {
+      console.log(`    • ${COLORS.dim}${e.path}:${COLORS.reset} ${e.value}`);
+    });
+  }
+
+  (data.warnings || []).forEach((w: string) => console.log(`\n  ${COLORS.yellow}⚠️  ${w}${COLORS.reset}`));
+
+  console.log('─'.repeat(80));
+}
@@ -0,0 +1,49 @@
+// Renderer for get_db_connection results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+// Helper function for displaying database connection info and client commands
+export function renderDbConnection(data: any): void {
+  console.log(`\n🔌 Connection: ${data.name} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Connection Lookup Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const rows: Array<[string, string]> = [
+    ['Engine', `${data.engine || '-'}${data.clusterDefinitionRef ? ` (${data.clusterDefinitionRef})` : ''}`],
+    ['Service', data.service || '-'],
+    ['Host', data.host || '-'],
+    ['Port', String(data.port || '-')],
+    ['Username', data.username || '-'],
+    ['Password', data.revealed ? `${COLORS.red}${data.password}${COLORS.reset}` : `${data.password} ${COLORS.dim}(masked, use --reveal)${COLORS.reset}`],
+  ];
+  if (data.publicEndpoint) {
+    rows.push(['Public', `${data.publicEndpoint.host}:${data.publicEndpoint.port} ${COLORS.dim}(${data.publicEndpoint.type})${COLORS.reset}`]);
+  }
+  rows.forEach(([key, value]) => console.log(`  ${COLORS.dim}${key.padEnd(10)}${COLORS.reset} ${value}`));
+
+  if (data.connectionStrings && data.connectionStrings.length > 0) {
+    console.log(`\n  ${COLORS.bold}${COLORS.cyan}Connect${COLORS.reset}`);
+    data.connectionStrings.forEach((c: any) => {
+      console.log(`    ${COLORS.dim}${c.client.padEnd(18)}${COLORS.reset} ${c.command}`);
+    });
+  }
+
+  (data.warnings || []).forEach((w: string) => console.log(`\n  ${COLORS.yellow}⚠️  ${w}${COLORS.reset}`));
+
+  if (data.revealed) {
+    console.log(`\n${COLORS.yellow}🔓 Password revealed. This access was recorded in the server audit log.${COLORS.reset}`);
+  }
+
+  console.log('─'.repeat(80));
+}
@@ -0,0 +1,65 @@
+// Report renderer for diagnose_resource verdicts
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const VERDICT_STYLES: Record<string, { icon: string; color: string }> = {
+  'Confirmed': { icon: '🎯', color: COLORS.red },
+  'Inconclusive': { icon: '🤔', color: COLORS.yellow },
+  'Healthy': { icon: '✅', color: COLORS.green },
+  'NotFound': { icon: '🔎', color: COLORS.yellow }
+};
+
+// Helper function for displaying a diagnosis report (Cause / Evidence / Suggestion)
+export function renderDiagnosisReport(data: any): void {
+  console.log(`\n🩺 Diagnosis: ${data.resource}/${data.name} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  // Trace of executed workflow steps
+  (data.steps || []).forEach((s: any) => {
+    console.log(`  ${COLORS.dim}Step ${s.step}${COLORS.reset} ${s.action.padEnd(45)} ${COLORS.gray}→${COLORS.reset} ${s.outcome}`);
+  });
+
+  if (data.candidates && data.candidates.length > 0) {
+    console.log(`  ${COLORS.dim}Candidates:${COLORS.reset} ${data.candidates.join(', ')}`);
+    console.log(`  ${COLORS.dim}Checked:${COLORS.reset}    ${(data.checkedPods || []).join(', ') || '-'}`);
+  }
+
+  if (data.success === false) {
+    console.log(`\n❌ Diagnosis Failed: ${data.error?.message || 'Unknown error'}`);
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const verdict = data.verdict;
+  if (!verdict) {
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const style = VERDICT_STYLES[verdict.status] || { icon: '📄', color: COLORS.gray };
+  console.log(`\n${style.icon} ${COLORS.bold}${style.color}${verdict.type} (${verdict.status})${COLORS.reset}`);
+
+  console.log(`\n  ${COLORS.bold}${COLORS.cyan}Cause${COLORS.reset}`);
+  console.log(`    ${verdict.cause}`);
+
+  if (verdict.evidence && verdict.evidence.length > 0) {
+    console.log(`\n  ${COLORS.bold}${COLORS.cyan}Evidence${COLORS.reset}`);
+    verdict.evidence.forEach((e: any) => {
+      console.log(`    • ${COLORS.dim}${e.path}:${COLORS.reset} ${e.value}`);
+    });
+  }
+
+  if (verdict.suggestions && verdict.suggestions.length > 0) {
+    console.log(`\n  ${COLORS.bold}${COLORS.cyan}Suggestion${COLORS.reset}`);
+    verdict.suggestions.forEach((s: string) => console.log(`    • ${s}`));
+  }
+
+  if (data.needsApproval) {
+    console.log(`\n${COLORS.yellow}⏸️  Re-run with a higher --pods value to inspect more candidates.${COLORS.reset}`);
+  }
+
+  console.log('─'.repeat(80));
+}
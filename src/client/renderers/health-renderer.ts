@@ -0,0 +1,77 @@
+// Renderer for the namespace_health dashboard
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const GRADE_STYLES: Record<string, { icon: string; color: string }> = {
+  'Healthy': { icon: '🟢', color: COLORS.green },
+  'Degraded': { icon: '🟡', color: COLORS.yellow },
+  'Critical': { icon: '🔴', color: COLORS.red }
+};
+
+// Findings shown on the dashboard; the rest are counted
+const MAX_FINDINGS = 12;
+const MAX_MESSAGE_WIDTH = 70;
+
+function truncate(value: string, width: number): string {
+  return value.length > width ? `${value.substring(0, width - 1)}…` : value;
+}
+
+// "3/12" in red/yellow when something is wrong, green otherwise
+function ratio(bad: number, total: number, badColor: string = COLORS.red): string {
+  const color = bad > 0 ? badColor : COLORS.green;
+  return `${color}${bad}${COLORS.reset}/${total}`;
+}
+
+// Helper function for displaying the one-screen namespace health dashboard
+export function renderNamespaceHealth(data: any): void {
+  console.log(`\n🩺 Health of namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Health Report Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const style = GRADE_STYLES[data.grade] || { icon: '•', color: '' };
+  console.log(`  ${style.icon} ${style.color}${COLORS.bold}${data.grade}${COLORS.reset}  score ${COLORS.bold}${data.score}${COLORS.reset}/100`);
+
+  const s = data.summary || {};
+  const billing = s.billing || {};
+  const balance = billing.balance !== undefined
+    ? `${billing.balance < 0 ? COLORS.red : COLORS.green}¥${Number(billing.balance).toFixed(2)}${COLORS.reset}`
+    : '-';
+  const debt = billing.impact && billing.impact !== 'None' ? `${COLORS.red}${billing.debtStatus}${COLORS.reset}` : `${COLORS.green}${billing.debtStatus || 'no debt'}${COLORS.reset}`;
+  console.log('');
+  console.log(`  Pods ${ratio(s.pods?.unhealthy || 0, s.pods?.total || 0)} unhealthy   Devboxes ${ratio(s.devboxes?.unhealthy || 0, s.devboxes?.total || 0)} stuck   Clusters ${ratio(s.clusters?.notRunning || 0, s.clusters?.total || 0)} not running`);
+  console.log(`  Certs ${ratio(s.certificates?.expiring || 0, s.certificates?.total || 0, COLORS.yellow)} expiring   Quota items near limit ${(s.quotas?.overThreshold || 0) > 0 ? COLORS.yellow : COLORS.green}${s.quotas?.overThreshold || 0}${COLORS.reset}   Warning events ${(s.events?.warnings || 0) > 0 ? COLORS.yellow : COLORS.green}${s.events?.warnings || 0}${COLORS.reset} ${COLORS.dim}(last ${s.events?.windowMinutes}m)${COLORS.reset}`);
+  console.log(`  Billing: ${debt}   Balance: ${balance}`);
+
+  const findings = data.findings || [];
+  if (findings.length === 0) {
+    console.log(`\n✅ ${COLORS.green}Nothing needs attention.${COLORS.reset}`);
+  } else {
+    console.log(`\n${COLORS.bold}Needs attention${COLORS.reset} (${findings.length})`);
+    findings.slice(0, MAX_FINDINGS).forEach((finding: any) => {
+      const icon = finding.severity === 'critical' ? '🔴' : '🟡';
+      console.log(`  ${icon} ${finding.resource.padEnd(32)} ${truncate(finding.message, MAX_MESSAGE_WIDTH)}`);
+      if (finding.drillDown) {
+        console.log(`     ${COLORS.cyan}→ ${finding.drillDown}${COLORS.reset}`);
+      }
+    });
+    if (findings.length > MAX_FINDINGS) {
+      console.log(`  ${COLORS.dim}… ${findings.length - MAX_FINDINGS} more (use --raw for the full list)${COLORS.reset}`);
+    }
+  }
+
+  if (data.unavailable && data.unavailable.length > 0) {
+    console.log(`\n  ⚠️  ${COLORS.yellow}Not included (list failed): ${data.unavailable.join(', ')}${COLORS.reset}`);
+  }
+  console.log('─'.repeat(80));
+}
@@ -0,0 +1,66 @@
+// Renderer for devbox_history results (also used by the devbox inspect view)
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const COMMIT_STATUS_COLORS: Record<string, string> = {
+  'Success': COLORS.green,
+  'Pending': COLORS.yellow,
+  'Failed': COLORS.red,
+  'Unknown': COLORS.gray
+};
+
+// Format a commit time as "2024-05-01 12:30"
+function formatCommitTime(time?: string): string {
+  if (!time) return '-';
+  const date = new Date(time);
+  return isNaN(date.getTime()) ? time : date.toISOString().replace('T', ' ').substring(0, 16);
+}
+
+// Print the commit table: newest first, running image marked with ▶, failed/pending flagged
+export function renderCommitLines(commits: any[], indent: string = '  '): void {
+  console.log(`${indent}${COLORS.dim}${'  TIME'.padEnd(19)} ${'STATUS'.padEnd(9)} ${'IMAGE'}${COLORS.reset}`);
+  commits.forEach((c: any) => {
+    const marker = c.current ? `${COLORS.cyan}▶${COLORS.reset}` : ' ';
+    const color = COMMIT_STATUS_COLORS[c.status] || COLORS.gray;
+    const flag = c.flagged ? ' ⚠️' : '';
+    const running = c.current ? ` ${COLORS.cyan}(running)${COLORS.reset}` : '';
+    console.log(`${indent}${marker} ${formatCommitTime(c.time).padEnd(17)} ${color}${c.status.padEnd(9)}${COLORS.reset} ${c.image}${running}${flag}`);
+  });
+}
+
+// Helper function for displaying the devbox commit/image history
+export function renderDevboxHistory(data: any): void {
+  console.log(`\n🕘 Commit history: devbox ${data.name} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ History Lookup Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  console.log(`  ${COLORS.dim}Phase${COLORS.reset}        ${data.phase || 'Unknown'}`);
+  console.log(`  ${COLORS.dim}Spec image${COLORS.reset}   ${data.specImage || '-'}`);
+  console.log(`  ${COLORS.dim}Running${COLORS.reset}      ${data.runningImage || `${COLORS.dim}no running pod${COLORS.reset}`}`);
+  if (data.lastSuccessful) {
+    console.log(`  ${COLORS.dim}Last good${COLORS.reset}    ${data.lastSuccessful}`);
+  }
+
+  if (data.commits && data.commits.length > 0) {
+    console.log(`\n  ${COLORS.bold}${COLORS.cyan}Commits${COLORS.reset} ${COLORS.dim}(${data.commits.length} of ${data.total}, ${data.flagged} failed/pending)${COLORS.reset}`);
+    renderCommitLines(data.commits, '    ');
+  }
+
+  if (data.message) {
+    console.log(`\n  ${COLORS.yellow}⚠️  ${data.message}${COLORS.reset}`);
+  }
+  (data.warnings || []).forEach((w: string) => console.log(`\n  ${COLORS.yellow}⚠️  ${w}${COLORS.reset}`));
+
+  console.log('─'.repeat(80));
+}
@@ -1,5 +1,7 @@
 // Hybrid row layout renderers for displaying Kubernetes resources
 
+import { formatYuan } from './billing-renderer';
+
 // Helper function for displaying Ingress resources in hybrid row format
 export function displayIngressAsHybridRows(ingresses: any[], namespace: string, total: number): void {
   console.log(`\n🌐 Found ${total || ingresses.length} ingresses in namespace: ${namespace}`);
@@ -74,9 +76,12 @@ export function displayAccountsAsNestedHybrid(accounts: any[], namespace: string
   accounts.forEach((account: any, index: number) => {
     const nameStr = `[${index}] ${account.name}`;
     const status = account.status || {};
-    const metaStr = `(Type: ${status.type || 'Unknown'} | Balance: ${status.balance || 'N/A'})`;
+    // Amounts are stored in cents; available = (balance - deductionBalance) / 100
+    const available = ((status.balance || 0) - (status.deductionBalance || 0)) / 100;
+    const metaStr = `(Type: ${status.type || 'Unknown'} | Available: ${status.balance !== undefined ? formatYuan(available) : 'N/A'})`;
     console.log(`${nameStr.padEnd(35)} ${metaStr}`);
 
+    console.log(`    ├─ Balance: ${formatYuan((status.balance || 0) / 100)} | Spent: ${formatYuan((status.deductionBalance || 0) / 100)} | Bonus: ${formatYuan((status.activityBonus || 0) / 100)}`);
     console.log(`    ├─ Created: ${status.creationTime || '-'}`);
 
     // Display charge list if available
@@ -105,7 +110,7 @@ export function displayDebtsAsNestedHybrid(debts: any[], namespace: string, tota
   debts.forEach((debt: any, index: number) => {
     const nameStr = `[${index}] ${debt.name}`;
     const status = debt.status || {};
-    const metaStr = `(Type: ${status.type || 'Unknown'} | Total: ${status.totalDebt || 0})`;
+    const metaStr = `(Status: ${status.status || status.type || 'Unknown'} | Total: ${status.totalDebt || 0})`;
     console.log(`${nameStr.padEnd(35)} ${metaStr}`);
 
     // Display debt status records if available
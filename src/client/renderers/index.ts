@@ -3,4 +3,19 @@
 export * from './hybrid-renderer';
 export * from './timeline-renderer';
 export * from './table-renderer';
-export * from './inspect-renderer';
\ No newline at end of file
+export * from './inspect-renderer';
+export * from './diagnosis-renderer';
+export * from './billing-renderer';
+export * from './connection-renderer';
+export * from './ssh-renderer';
+export * from './history-renderer';
+export * from './tree-renderer';
+export * from './suspect-renderer';
+export * from './log-renderer';
+export * from './watch-renderer';
+export * from './snapshot-renderer';
+export * from './action-renderer';
+export * from './audit-renderer';
+export * from './redaction-renderer';
+export * from './health-renderer';
+export * from './quota-renderer';
@@ -1,4 +1,5 @@
 import { InspectViewModel, DetailedContainer } from '../viewmodels/inspect-viewmodel';
+import { renderCommitLines } from './history-renderer';
 
 const COLORS = {
   green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', blue: '\x1b[34m', gray: '\x1b[90m',
@@ -165,6 +166,31 @@ function highlightLogLine(line: string): string {
   return `${color}${line}${COLORS.reset}`;
 }
 
+// Helper: Print wrapped, highlighted log lines (or a placeholder when empty)
+function renderLogLines(content: string, maxWidth: number): void {
+  if (!content) {
+    console.log(`    ${COLORS.dim}No logs available${COLORS.reset}`);
+    return;
+  }
+  content.split('\n').forEach(line => {
+    // Strip ANSI escape codes for wrapping
+    const cleanLine = line.replace(/\x1b\[[0-9;]*m/g, '');
+    // Apply highlighting to each wrapped line
+    wrapText(cleanLine, maxWidth).forEach(wrappedLine => console.log(`    ${highlightLogLine(wrappedLine)}`));
+  });
+}
+
+// Helper: "exit 137 (OOMKilled), signal 9, finished 2026-01-01T00:00:00Z, 5 restarts"
+function describeTermination(entry: NonNullable<InspectViewModel['previousLogs']>[number]): string {
+  const parts: string[] = [];
+  if (entry.exitCode !== undefined) parts.push(`exit ${entry.exitCode}${entry.reason ? ` (${entry.reason})` : ''}`);
+  else if (entry.reason) parts.push(entry.reason);
+  if (entry.signal) parts.push(`signal ${entry.signal}`);
+  if (entry.finishedAt) parts.push(`finished ${entry.finishedAt}`);
+  parts.push(`${entry.restarts} restart${entry.restarts === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
 export function renderInspectView(viewModel: InspectViewModel): void {
   console.log('\n');
 
@@ -254,6 +280,48 @@ export function renderInspectView(viewModel: InspectViewModel): void {
     }
   }
 
+  // --- 5b. TOPOLOGY (KubeBlocks clusters) ---
+  if (viewModel.topology) {
+    renderSectionTitle('Topology');
+    if (viewModel.topology.members.length > 0) {
+      console.log(`  ${COLORS.dim}${'POD'.padEnd(40)} ${'ROLE'.padEnd(12)} ${'STATUS'.padEnd(12)} ${'READY'.padEnd(7)} ${'RESTARTS'}${COLORS.reset}`);
+      viewModel.topology.members.forEach(m => {
+        const isPrimary = m.role === 'primary' || m.role === 'leader';
+        const roleColor = isPrimary ? COLORS.green : COLORS.reset;
+        const readyColor = m.isReady ? COLORS.green : COLORS.red;
+        const restartColor = m.restarts > 0 ? COLORS.yellow : COLORS.reset;
+        console.log(`  ${m.name.padEnd(40)} ${roleColor}${m.role.padEnd(12)}${COLORS.reset} ${m.status.padEnd(12)} ${readyColor}${m.ready.padEnd(7)}${COLORS.reset} ${restartColor}${m.restarts}${COLORS.reset}`);
+      });
+    }
+    if (viewModel.topology.roleCheck !== 'OK') {
+      const checkColor = viewModel.topology.roleCheck === 'NoRoles' ? COLORS.dim : COLORS.red;
+      console.log(`  ${checkColor}⚠️  ${viewModel.topology.roleCheck}: ${viewModel.topology.message || '-'}${COLORS.reset}`);
+    }
+  }
+
+  // --- 5c. STATE (Devbox desired vs actual) ---
+  if (viewModel.devboxState) {
+    renderSectionTitle('State');
+    const state = viewModel.devboxState;
+    const healthColor = state.health === 'Healthy' ? COLORS.green : state.health === 'Transitional' ? COLORS.yellow : COLORS.red;
+    console.log(`  ${COLORS.dim}${'DESIRED'.padEnd(12)} ${'ACTUAL'.padEnd(12)} ${'HEALTH'}${COLORS.reset}`);
+    console.log(`  ${state.desired.padEnd(12)} ${state.actual.padEnd(12)} ${healthColor}${state.health}${COLORS.reset}`);
+    const since = state.since ? ` (${state.sinceSource === 'phase-transition' ? 'in phase since' : 'last status update'} ${state.since})` : '';
+    console.log(`    └─ ${COLORS.dim}${state.reason}${since}${COLORS.reset}`);
+  }
+
+  // --- 5d. COMMIT HISTORY (Devbox images) ---
+  if (viewModel.history) {
+    renderSectionTitle('Commit History');
+    console.log(`  ${COLORS.bold}Running:${COLORS.reset} ${viewModel.history.runningImage || viewModel.history.specImage || '-'}`);
+    if (viewModel.history.commits.length > 0) {
+      renderCommitLines(viewModel.history.commits);
+    }
+    if (viewModel.history.message) {
+      console.log(`  ${COLORS.yellow}⚠️  ${viewModel.history.message}${COLORS.reset}`);
+    }
+  }
+
   // --- 6. EVENTS ---
   if (viewModel.events.length > 0) {
     renderSectionTitle('Events');
@@ -283,24 +351,27 @@ export function renderInspectView(viewModel: InspectViewModel): void {
       console.log(`\n  ${COLORS.cyan}📦 ${containerName}${COLORS.reset}`);
       console.log(`  ${COLORS.gray}─`.repeat(containerName.length + 5) + COLORS.reset);
 
-      if (content) {
-        const logLines = content.split('\n');
-        logLines.forEach(line => {
-          // Strip ANSI escape codes for wrapping
-          const cleanLine = line.replace(/\x1b\[[0-9;]*m/g, '');
-          const wrapped = wrapText(cleanLine, contentWidth - 4);
-
-          wrapped.forEach(wrappedLine => {
-            // Apply highlighting to each wrapped line
-            const highlightedLine = highlightLogLine(wrappedLine);
-            console.log(`    ${highlightedLine}`);
-          });
-        });
+      renderLogLines(content, contentWidth - 4);
+    });
+    console.log(''); // Add spacing after logs section
+  }
+
+  // --- 7b. PREVIOUS LOGS (Last terminated instance of restarted containers) ---
+  if (viewModel.previousLogs && viewModel.previousLogs.length > 0) {
+    renderSectionTitle('Previous Container Logs (Last Terminated Instance)');
+
+    viewModel.previousLogs.forEach(entry => {
+      const reasonColor = entry.exitCode === 0 ? COLORS.green : COLORS.red;
+      console.log(`\n  ${COLORS.cyan}📦 ${entry.container}${COLORS.reset} ${reasonColor}${describeTermination(entry)}${COLORS.reset}`);
+      console.log(`  ${COLORS.gray}─`.repeat(entry.container.length + 5) + COLORS.reset);
+
+      if (entry.error) {
+        console.log(`    ${COLORS.yellow}⚠️  ${entry.error}${COLORS.reset}`);
       } else {
-        console.log(`    ${COLORS.dim}No logs available${COLORS.reset}`);
+        renderLogLines(entry.logs || '', contentWidth - 4);
       }
     });
-    console.log(''); // Add spacing after logs section
+    console.log('');
   }
 
   // Warnings
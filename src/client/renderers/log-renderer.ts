@@ -0,0 +1,112 @@
+// Renderer for analyze_pod_logs results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const SEVERITY_STYLES: Record<string, { icon: string; color: string }> = {
+  'critical': { icon: '🔴', color: COLORS.red },
+  'error': { icon: '🟠', color: COLORS.yellow },
+  'warning': { icon: '🟡', color: COLORS.gray }
+};
+
+const MAX_EXCERPT_LINES = 6;
+
+// "app:12 @ 2026-01-01T00:00:01Z"
+function formatOccurrence(occurrence: any): string {
+  if (!occurrence) return '-';
+  return `${occurrence.source}:${occurrence.line}${occurrence.time ? ` @ ${occurrence.time}` : ''}`;
+}
+
+// Helper function for displaying log findings, most severe first
+export function renderLogAnalysis(data: any): void {
+  console.log(`\n📜 Log analysis for pod: ${data.pod} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Log Analysis Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const sources = (data.sources || [])
+    .map((s: any) => `${s.container}${s.previous ? ' (previous)' : ''}: ${s.error ? `${COLORS.red}unavailable${COLORS.reset}` : `${s.lines} lines`}`)
+    .join(', ');
+  console.log(`  ${COLORS.dim}Sources:${COLORS.reset} ${sources || '-'}`);
+  console.log(`  ${COLORS.dim}Scanned ${data.totals?.lines || 0} lines, ${data.totals?.matched || 0} matched${COLORS.reset}`);
+
+  if (!data.findings || data.findings.length === 0) {
+    console.log(`\n✅ ${COLORS.green}No known error patterns found in the logs.${COLORS.reset}`);
+  } else {
+    console.log('');
+    data.findings.forEach((finding: any) => {
+      const style = SEVERITY_STYLES[finding.severity] || { icon: '•', color: COLORS.gray };
+      console.log(`  ${style.icon} ${style.color}${COLORS.bold}${finding.category}${COLORS.reset} ×${finding.count} ${COLORS.dim}${finding.description}${COLORS.reset}`);
+      console.log(`     ${finding.message}`);
+      const last = finding.count > 1 ? `, last ${formatOccurrence(finding.lastSeen)}` : '';
+      console.log(`     ${COLORS.dim}first ${formatOccurrence(finding.firstSeen)}${last}${COLORS.reset}`);
+      (finding.excerpt || []).slice(1, MAX_EXCERPT_LINES + 1).forEach((line: string) => {
+        console.log(`     ${COLORS.gray}│ ${line}${COLORS.reset}`);
+      });
+    });
+  }
+
+  if (data.warnings && data.warnings.length > 0) {
+    console.log('');
+    data.warnings.forEach((warning: string) => console.log(`  ⚠️  ${COLORS.yellow}${warning}${COLORS.reset}`));
+  }
+
+  console.log('─'.repeat(80));
+}
+
+// Distinct prefix colors so interleaved containers stay readable
+const CONTAINER_COLORS = [COLORS.cyan, '\x1b[35m', COLORS.green, '\x1b[34m', COLORS.yellow];
+const containerColors = new Map<string, string>();
+
+function containerColor(container: string): string {
+  if (!containerColors.has(container)) {
+    containerColors.set(container, CONTAINER_COLORS[containerColors.size % CONTAINER_COLORS.length]);
+  }
+  return containerColors.get(container)!;
+}
+
+// Helper function for displaying the header of a log follow session
+export function renderLogFollowStart(pod: string, namespace: string, grep?: string): void {
+  console.log(`\n📡 Following logs of pod: ${pod} in namespace: ${namespace}${grep ? ` ${COLORS.dim}(grep: ${grep})${COLORS.reset}` : ''}`);
+  console.log(`  ${COLORS.dim}Press Ctrl+C to stop and return to the prompt${COLORS.reset}`);
+  console.log('─'.repeat(80));
+}
+
+// Helper function for displaying one streamed batch, each line prefixed with its container
+export function renderLogStreamLines(lines: Array<{ container: string; line: string }>): void {
+  lines.forEach(({ container, line }) => {
+    console.log(`${containerColor(container)}[${container}]${COLORS.reset} ${line}`);
+  });
+}
+
+// Helper function for displaying how a log follow session ended
+export function renderLogFollowEnd(data: any): void {
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`❌ Log Follow Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    return;
+  }
+
+  const reasons: Record<string, string> = {
+    'cancelled': 'stopped',
+    'duration': 'time limit reached',
+    'ended': 'all containers stopped'
+  };
+  // A cancelled follow never receives the server's totals, only the locally counted lines
+  const shown = data.scanned !== undefined ? `${data.streamed ?? 0} of ${data.scanned} lines shown` : `${data.streamed ?? 0} lines shown`;
+  console.log(`⏹  ${reasons[data.stoppedBy] || 'stopped'} ${COLORS.dim}(${shown})${COLORS.reset}`);
+  (data.warnings || []).forEach((warning: string) => console.log(`  ⚠️  ${COLORS.yellow}${warning}${COLORS.reset}`));
+}
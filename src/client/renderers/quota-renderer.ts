@@ -0,0 +1,71 @@
+// Renderer for quota pressure alerts and resize-fit predictions (list_quota_by_ns)
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+function describeSize(size: any): string {
+  if (!size) return '-';
+  return [
+    size.cpu && `cpu ${size.cpu}`,
+    size.memory && `memory ${size.memory}`,
+    size.storage && `storage ${size.storage}`,
+    `${size.replicas} replica${size.replicas === 1 ? '' : 's'}`
+  ].filter(Boolean).join(', ');
+}
+
+// Helper function for displaying quota resources above the warning/critical thresholds
+export function renderQuotaAlerts(alerts: any[], thresholds?: { warning: number; critical: number }): void {
+  if (!alerts || alerts.length === 0) return;
+
+  const limits = thresholds ? ` ${COLORS.dim}(warning ≥ ${thresholds.warning}%, critical ≥ ${thresholds.critical}%)${COLORS.reset}` : '';
+  console.log(`\n${COLORS.bold}Quota pressure${COLORS.reset}${limits}`);
+  alerts.forEach(alert => {
+    const critical = alert.level === 'critical';
+    const color = critical ? COLORS.red : COLORS.yellow;
+    console.log(`  ${critical ? '🔴' : '🟡'} ${alert.resource.padEnd(22)} ${color}${String(alert.percent).padStart(5)}%${COLORS.reset}  ${alert.used}/${alert.hard}  ${COLORS.dim}headroom ${alert.remaining ?? '-'} (${alert.quota})${COLORS.reset}`);
+  });
+}
+
+// Helper function for displaying whether a devbox or database resize fits the quotas
+export function renderResizeFit(fit: any): void {
+  if (!fit) return;
+
+  const component = fit.component ? `/${fit.component}` : '';
+  console.log(`\n📐 Resize ${fit.kind} ${COLORS.bold}${fit.name}${component}${COLORS.reset}`);
+  console.log('─'.repeat(80));
+
+  if (fit.error) {
+    console.log(`\n❌ Resize Prediction Failed: ${fit.error.message || 'Unknown error'}`);
+    if (fit.error.hint) {
+      console.log(`💡 Hint: ${fit.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  console.log(`  Current: ${describeSize(fit.current)}`);
+  console.log(`  Target:  ${describeSize(fit.target)}`);
+
+  if (fit.checks.length > 0) {
+    console.table(fit.checks.map((check: any) => ({
+      Quota: check.quota,
+      Resource: check.resource,
+      Used: check.used,
+      Change: check.delta,
+      After: check.projected,
+      Limit: check.hard,
+      Usage: check.percent !== undefined ? `${check.percent}%` : '-',
+      Fits: check.fits ? '✅' : '❌'
+    })));
+  } else {
+    console.log(`  ${COLORS.dim}No quota limits the resources this resize changes${COLORS.reset}`);
+  }
+
+  (fit.warnings || []).forEach((warning: string) => console.log(`  ⚠️  ${COLORS.yellow}${warning}${COLORS.reset}`));
+  console.log(fit.fits
+    ? `✅ ${COLORS.green}Fits within the namespace quota${COLORS.reset}`
+    : `❌ ${COLORS.red}Does not fit: ${fit.checks.filter((c: any) => !c.fits).map((c: any) => c.resource).join(', ')} would exceed the quota${COLORS.reset}`);
+  console.log('─'.repeat(80));
+}
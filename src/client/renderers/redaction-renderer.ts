@@ -0,0 +1,16 @@
+// Renderer for redaction notices (server-side credential redaction and --reveal)
+
+const COLORS = {
+  yellow: '\x1b[33m', reset: '\x1b[0m', dim: '\x1b[2m'
+};
+
+// Helper function for displaying how many values the server redacted
+export function renderRedactionNotice(data: any): void {
+  if (!data || typeof data !== 'object' || !data.redacted) return;
+  console.log(`${COLORS.dim}🔒 ${data.redacted} sensitive value${data.redacted === 1 ? '' : 's'} redacted. Add --reveal to show them (audit-logged).${COLORS.reset}`);
+}
+
+// Helper function for warning that a query runs without redaction
+export function renderRevealWarning(): void {
+  console.log(`${COLORS.yellow}🔓 --reveal: credentials are shown in clear text for this query. This access is recorded in the server audit log.${COLORS.reset}`);
+}
@@ -0,0 +1,70 @@
+// Renderer for snapshot listings and snapshot diffs
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const CHANGE_STYLES: Record<string, { title: string; marker: string; color: string }> = {
+  'added': { title: 'Added', marker: '+', color: COLORS.green },
+  'removed': { title: 'Removed', marker: '-', color: COLORS.red },
+  'phase': { title: 'Phase Changes', marker: '~', color: COLORS.yellow },
+  'restarts': { title: 'Restarts', marker: '↻', color: COLORS.yellow },
+  'quota': { title: 'Quota Usage', marker: '~', color: COLORS.cyan },
+  'balance': { title: 'Balance', marker: '¥', color: COLORS.cyan }
+};
+
+function formatChange(change: any): string {
+  if (change.kind === 'added') return `${change.name}${change.after ? ` ${COLORS.dim}(${change.after})${COLORS.reset}` : ''}`;
+  if (change.kind === 'removed') return `${change.name}${change.before ? ` ${COLORS.dim}(was ${change.before})${COLORS.reset}` : ''}`;
+  const delta = change.delta !== undefined ? ` ${COLORS.dim}(${change.delta > 0 ? '+' : ''}${change.delta})${COLORS.reset}` : '';
+  return `${change.name}: ${change.before} → ${change.after}${delta}`;
+}
+
+// Helper function for displaying a saved snapshot
+export function renderSnapshotSaved(snapshot: any, file: string): void {
+  const captured = Object.keys(snapshot.results || {}).length;
+  const failed = Object.keys(snapshot.errors || {});
+  console.log(`\n📸 Snapshot ${COLORS.bold}${snapshot.id}${COLORS.reset} of ${snapshot.namespace}: ${captured} resource types captured`);
+  console.log(`  ${COLORS.dim}${file}${COLORS.reset}`);
+  failed.forEach(resource => console.log(`  ⚠️  ${COLORS.yellow}${resource}: ${snapshot.errors[resource]}${COLORS.reset}`));
+}
+
+// Helper function for displaying the snapshots saved for a namespace
+export function renderSnapshotList(namespace: string, entries: any[]): void {
+  console.log(`\n📚 Snapshots of namespace: ${namespace}`);
+  console.log('─'.repeat(80));
+  if (entries.length === 0) {
+    console.log(`  ${COLORS.dim}No snapshots saved yet. Run "snapshot ${namespace}" to take one.${COLORS.reset}`);
+  }
+  entries.forEach((entry: any, idx: number) => {
+    const tag = idx === entries.length - 1 ? ' (latest)' : idx === entries.length - 2 ? ' (previous)' : '';
+    console.log(`  ${entry.id}  ${COLORS.dim}${entry.takenAt || 'unreadable'}${tag}${COLORS.reset}`);
+  });
+  console.log('─'.repeat(80));
+}
+
+// Helper function for displaying what changed between two snapshots
+export function renderSnapshotDiff(diff: any): void {
+  console.log(`\n🔀 Changes in namespace: ${diff.namespace}`);
+  console.log(`  ${COLORS.dim}from ${diff.from.id} (${diff.from.takenAt}) to ${diff.to.id} (${diff.to.takenAt})${COLORS.reset}`);
+  console.log('─'.repeat(80));
+
+  if (diff.changes.length === 0) {
+    console.log(`\n✅ ${COLORS.green}No changes.${COLORS.reset}`);
+  }
+
+  Object.entries(CHANGE_STYLES).forEach(([kind, style]) => {
+    const changes = diff.changes.filter((change: any) => change.kind === kind);
+    if (changes.length === 0) return;
+    console.log(`\n${COLORS.bold}${style.title}${COLORS.reset} (${changes.length})`);
+    changes.forEach((change: any) => {
+      console.log(`  ${style.color}${style.marker}${COLORS.reset} ${COLORS.dim}${change.resource.padEnd(14)}${COLORS.reset} ${formatChange(change)}`);
+    });
+  });
+
+  if (diff.skipped.length > 0) {
+    console.log(`\n⚠️  ${COLORS.yellow}Not compared (missing or failed on one side): ${diff.skipped.join(', ')}${COLORS.reset}`);
+  }
+  console.log('─'.repeat(80));
+}
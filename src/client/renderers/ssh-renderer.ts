@@ -0,0 +1,46 @@
+// Renderer for check_devbox_ssh results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const STAGE_STYLES: Record<string, { icon: string; color: string }> = {
+  'OK': { icon: '✅', color: COLORS.green },
+  'Failed': { icon: '❌', color: COLORS.red },
+  'Skipped': { icon: '⏭️', color: COLORS.gray }
+};
+
+// Helper function for displaying the stage-by-stage SSH check
+export function renderSshCheck(data: any): void {
+  console.log(`\n🔐 SSH check: devbox ${data.name} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ SSH Check Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  console.log(`  ${COLORS.dim}Target${COLORS.reset}  ${data.user}@${data.host}:${data.port}  ${COLORS.dim}(phase: ${data.phase || 'Unknown'})${COLORS.reset}`);
+  console.log('');
+
+  (data.stages || []).forEach((s: any) => {
+    const style = STAGE_STYLES[s.status] || { icon: '•', color: COLORS.gray };
+    const duration = s.status === 'Skipped' ? '' : ` ${COLORS.dim}(${s.durationMs}ms)${COLORS.reset}`;
+    console.log(`  ${style.icon} ${COLORS.bold}${s.stage.padEnd(7)}${COLORS.reset} ${style.color}${s.status.padEnd(8)}${COLORS.reset} ${s.detail}${duration}`);
+  });
+
+  (data.warnings || []).forEach((w: string) => console.log(`\n  ${COLORS.yellow}⚠️  ${w}${COLORS.reset}`));
+
+  if (data.verdict) {
+    const failed = (data.stages || []).some((s: any) => s.status === 'Failed');
+    const color = failed ? COLORS.red : COLORS.green;
+    console.log(`\n${failed ? '🚨' : '✅'} ${COLORS.bold}${color}${failed ? 'Failing' : 'OK'}${COLORS.reset}: ${data.verdict}`);
+  }
+
+  console.log('─'.repeat(80));
+}
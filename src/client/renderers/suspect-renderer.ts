@@ -0,0 +1,59 @@
+// Renderer for rank_suspect_pods results
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const BUCKET_STYLES: Record<string, { icon: string; color: string }> = {
+  'Crash': { icon: '💥', color: COLORS.red },
+  'Pending': { icon: '⏳', color: COLORS.yellow },
+  'Restarts': { icon: '🔁', color: COLORS.yellow },
+  'NotReady': { icon: '⚠️', color: COLORS.yellow },
+  'Healthy': { icon: '✅', color: COLORS.green }
+};
+
+// Helper function for displaying the suspect pod ranking, most likely culprit first
+export function renderSuspectPods(data: any): void {
+  console.log(`\n🕵️  Suspect pods in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false) {
+    console.log(`\n❌ Ranking Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  const buckets = data.buckets || {};
+  const summary = Object.keys(BUCKET_STYLES)
+    .filter(bucket => buckets[bucket] > 0)
+    .map(bucket => `${BUCKET_STYLES[bucket].icon} ${bucket}: ${buckets[bucket]}`)
+    .join('   ');
+  console.log(`  ${COLORS.dim}Scanned ${data.scanned || 0} pods${COLORS.reset}   ${summary}`);
+
+  if (!data.suspects || data.suspects.length === 0) {
+    console.log(`\n✅ ${COLORS.green}No suspect pods: everything is running and ready.${COLORS.reset}`);
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  console.log('');
+  data.suspects.forEach((pod: any) => {
+    const style = BUCKET_STYLES[pod.bucket] || { icon: '•', color: COLORS.gray };
+    console.log(`  ${COLORS.bold}#${pod.rank}${COLORS.reset} ${style.icon} ${pod.name} ${style.color}${pod.bucket}${COLORS.reset} ${COLORS.dim}(score ${pod.score}, ready ${pod.ready || '-'}, restarts ${pod.restarts ?? 0}, age ${pod.age || '-'})${COLORS.reset}`);
+    if (pod.owner) {
+      console.log(`     ${COLORS.dim}owner ${pod.owner}${pod.node ? `, node ${pod.node}` : ''}${COLORS.reset}`);
+    }
+    (pod.reasons || []).forEach((reason: string) => console.log(`     └─ ${reason}`));
+  });
+
+  const top = data.suspects[0];
+  if (top && top.bucket !== 'Healthy') {
+    console.log(`\n💡 Start with ${COLORS.bold}${top.name}${COLORS.reset}: describe pod ${top.name} ${data.namespace}`);
+  }
+
+  console.log('─'.repeat(80));
+}
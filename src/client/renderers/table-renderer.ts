@@ -4,27 +4,64 @@
 export function displayClustersAsTable(clusters: any[], namespace: string, total: number): void {
   console.log(`🗄️  Found ${total || clusters.length} clusters (databases) in namespace: ${namespace}`);
 
-  const tableData = clusters.map((c: any) => ({
-    Name: c.name,
-    Type: c.type,
-    Status: c.status,
-    Version: c.version
-  }));
+  const tableData = clusters.map((c: any) => {
+    const members = c.topology?.members || [];
+    return {
+      Name: c.name,
+      Type: c.type,
+      Status: c.status,
+      Version: c.version,
+      Ready: c.topology ? `${members.filter((m: any) => m.isReady).length}/${members.length}` : '-',
+      Primary: c.topology?.primaries?.join(', ') || '-',
+      Roles: c.topology ? (c.topology.roleCheck === 'OK' ? 'OK' : `⚠️ ${c.topology.roleCheck}`) : '-'
+    };
+  });
 
   console.table(tableData);
+
+  // Member pods per cluster: role, readiness and restarts
+  clusters.filter((c: any) => c.topology && c.topology.members.length > 0).forEach((c: any) => {
+    console.log(`  ${c.name}`);
+    c.topology.members.forEach((m: any, idx: number) => {
+      const prefix = idx === c.topology.members.length - 1 ? '└─' : '├─';
+      const flag = m.isReady ? '' : ' ⚠️';
+      console.log(`    ${prefix} ${m.name.padEnd(40)} ${(m.role || '-').padEnd(10)} ${m.status.padEnd(12)} ready ${m.ready.padEnd(5)} restarts ${m.restarts}${flag}`);
+    });
+    if (c.topology.message && c.topology.roleCheck !== 'OK') {
+      console.log(`    ⚠️  ${c.topology.message}`);
+    }
+  });
 }
 
-// Devbox table rendering function
-export function displayDevboxesAsTable(devboxes: any[], namespace: string, total: number): void {
+const DEVBOX_HEALTH_ICONS: Record<string, string> = {
+  'Healthy': '✅',
+  'Transitional': '⏳',
+  'Stuck': '⚠️',
+  'FakeStopped': '🚨'
+};
+
+// Devbox table rendering function (desired vs actual state, broken ones first)
+export function displayDevboxesAsTable(devboxes: any[], namespace: string, total: number, summary?: Record<string, number>): void {
   console.log(`📦 Found ${total || devboxes.length} devboxes in namespace: ${namespace}`);
+  if (summary) {
+    const parts = Object.entries(summary).filter(([, count]) => count > 0).map(([health, count]) => `${DEVBOX_HEALTH_ICONS[health] || ''} ${health}: ${count}`);
+    if (parts.length > 0) console.log(`   ${parts.join('   ')}`);
+  }
 
   const tableData = devboxes.map((d: any) => ({
     Name: d.name,
-    Status: d.status,
-    Network: JSON.stringify(d.network || {})
+    Desired: d.state?.desired || '-',
+    Actual: d.state?.actual || d.status,
+    Health: d.state ? `${DEVBOX_HEALTH_ICONS[d.state.health] || ''} ${d.state.health}` : '-',
+    'SSH Port': d.network?.nodePort || '-'
   }));
 
   console.table(tableData);
+
+  // Why each non-healthy devbox needs a look
+  devboxes.filter((d: any) => d.state && d.state.health !== 'Healthy').forEach((d: any) => {
+    console.log(`  ${DEVBOX_HEALTH_ICONS[d.state.health] || '•'} ${d.name}: ${d.state.reason}`);
+  });
 }
 
 // Pods table rendering function
@@ -33,7 +70,11 @@ export function displayPodsAsTable(pods: any[], namespace: string, total: number
 
   const tableData = pods.map((p: any) => ({
     Name: p.name,
-    Status: p.status,
+    Ready: p.ready || '-',
+    Status: p.reason && p.reason !== p.status ? `${p.status} (${p.reason})` : p.status,
+    Restarts: p.restarts ?? 0,
+    Age: p.age || '-',
+    Owner: p.owner || '-',
     IP: p.ip,
     Node: p.node
   }));
@@ -49,6 +90,19 @@ export function displayQuotasAsTransposedTable(quotas: any[], namespace: string,
   quotas.forEach((q: any) => {
     console.log(`\n📌 Quota: ${q.name}`);
 
+    // Structured usage from list_quota_by_ns; older servers only send the details string
+    if (Array.isArray(q.usage)) {
+      const levelIcons: Record<string, string> = { ok: '', warning: '🟡 ', critical: '🔴 ' };
+      console.table(q.usage.map((u: any) => ({
+        Resource: u.resource,
+        Used: u.used,
+        Limit: u.hard,
+        Usage: u.percent !== undefined ? `${levelIcons[u.level] || ''}${u.percent}%` : '-',
+        Headroom: u.remaining ?? '-'
+      })));
+      return;
+    }
+
     // Parse details string: "cpu: 100m/1, memory: 1Gi/2Gi"
     const resources = q.details.split(', ').map((item: string) => {
       const [key, value] = item.split(': ');
@@ -0,0 +1,58 @@
+// Renderer for resource_tree results (ASCII ownership tree)
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m'
+};
+
+const BADGES: Record<string, string> = {
+  'OK': `${COLORS.green}[OK]${COLORS.reset}`,
+  'Warning': `${COLORS.yellow}[WARN]${COLORS.reset}`,
+  'Error': `${COLORS.red}[ERR]${COLORS.reset}`,
+  'Unknown': `${COLORS.gray}[??]${COLORS.reset}`
+};
+
+const MATCH_RULES: Record<string, string> = {
+  'label': 'label rules',
+  'ownerReference': 'ownerReferences (no matching labels)',
+  'name-prefix': 'name prefix (no labels or owners matched)'
+};
+
+// One line per node: badge, kind/name, status, detail and warning event count
+function formatNode(node: any): string {
+  const badge = BADGES[node.badge] || BADGES['Unknown'];
+  const detail = node.detail ? ` ${COLORS.dim}${node.detail}${COLORS.reset}` : '';
+  const events = node.warningEvents ? ` ${COLORS.yellow}⚠ ${node.warningEvents} warning events${COLORS.reset}` : '';
+  return `${badge} ${COLORS.bold}${node.kind}${COLORS.reset}/${node.name} ${node.status}${detail}${events}`;
+}
+
+function renderChildren(children: any[], prefix: string): void {
+  children.forEach((child: any, idx: number) => {
+    const isLast = idx === children.length - 1;
+    console.log(`${prefix}${isLast ? '└─ ' : '├─ '}${formatNode(child)}`);
+    renderChildren(child.children || [], `${prefix}${isLast ? '   ' : '│  '}`);
+  });
+}
+
+// Helper function for displaying the ownership tree of a devbox or cluster
+export function renderResourceTree(data: any): void {
+  console.log(`\n🌳 Resource tree: ${data.resource} ${data.name} in namespace: ${data.namespace}`);
+  console.log('─'.repeat(80));
+
+  if (data.success === false || !data.tree) {
+    console.log(`\n❌ Resource Tree Failed: ${data.error?.message || 'Unknown error'}`);
+    if (data.error?.hint) {
+      console.log(`💡 Hint: ${data.error.hint}`);
+    }
+    console.log('─'.repeat(80));
+    return;
+  }
+
+  console.log(formatNode(data.tree));
+  renderChildren(data.tree.children || [], '');
+
+  const counts = Object.entries(data.counts || {}).map(([kind, count]) => `${count} ${kind}`).join(', ');
+  console.log(`\n  ${COLORS.dim}${counts}${data.matchedBy ? ` · pods matched by ${MATCH_RULES[data.matchedBy] || data.matchedBy}` : ' · no pods matched'}${COLORS.reset}`);
+
+  console.log('─'.repeat(80));
+}
@@ -0,0 +1,76 @@
+// Renderer for watch mode frames (live-updating list tables)
+import { WatchFrame, WatchRow } from '../viewmodels/watch-viewmodel';
+
+const COLORS = {
+  green: '\x1b[32m', red: '\x1b[31m', yellow: '\x1b[33m', gray: '\x1b[90m',
+  reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m', cyan: '\x1b[36m', strike: '\x1b[9m'
+};
+
+const CHANGE_MARKERS: Record<string, string> = {
+  'added': `${COLORS.green}+${COLORS.reset}`,
+  'changed': `${COLORS.yellow}~${COLORS.reset}`,
+  'removed': `${COLORS.red}-${COLORS.reset}`,
+  'same': ' '
+};
+
+const CHANGE_COLORS: Record<string, string> = {
+  'added': COLORS.green,
+  'changed': COLORS.yellow,
+  'removed': `${COLORS.red}${COLORS.strike}`,
+  'same': ''
+};
+
+const MAX_CELL_WIDTH = 50;
+
+function truncate(value: string): string {
+  return value.length > MAX_CELL_WIDTH ? `${value.substring(0, MAX_CELL_WIDTH - 1)}…` : value;
+}
+
+function formatRow(row: WatchRow, widths: number[]): string {
+  const cells = row.cells.map((cell, idx) => truncate(cell).padEnd(widths[idx])).join('  ');
+  const color = CHANGE_COLORS[row.change];
+  const transition = row.previousStatus ? ` ${COLORS.dim}(was ${row.previousStatus})${COLORS.reset}` : '';
+  return ` ${CHANGE_MARKERS[row.change]} ${color}${cells}${color ? COLORS.reset : ''}${transition}`;
+}
+
+// Helper function for clearing the screen before the next frame (TTY only)
+export function clearWatchScreen(): void {
+  if (process.stdout.isTTY) {
+    process.stdout.write('\x1b[2J\x1b[H');
+  }
+}
+
+// Helper function for displaying the watch banner above the frames
+export function renderWatchHeader(target: string, intervalSeconds: number, poll: number): void {
+  const time = new Date().toLocaleTimeString();
+  console.log(`👀 Every ${intervalSeconds}s: ${COLORS.bold}${target}${COLORS.reset}   ${COLORS.dim}poll #${poll} at ${time} · Ctrl+C to stop${COLORS.reset}`);
+}
+
+// Helper function for displaying one resource table with changed rows highlighted
+export function renderWatchFrame(frame: WatchFrame): void {
+  console.log('─'.repeat(80));
+
+  if (frame.error) {
+    console.log(`❌ ${frame.title}: ${frame.error}`);
+    return;
+  }
+
+  const { added, changed, removed } = frame.counts;
+  const changes = [
+    added > 0 ? `${COLORS.green}+${added} added${COLORS.reset}` : '',
+    changed > 0 ? `${COLORS.yellow}~${changed} changed${COLORS.reset}` : '',
+    removed > 0 ? `${COLORS.red}-${removed} removed${COLORS.reset}` : ''
+  ].filter(Boolean).join('  ');
+  const live = frame.rows.length - removed;
+  console.log(`${COLORS.bold}${frame.title}${COLORS.reset} (${live})${changes ? `   ${changes}` : ''}`);
+
+  if (frame.rows.length === 0) {
+    console.log(`  ${COLORS.dim}No resources found${COLORS.reset}`);
+    return;
+  }
+
+  const widths = frame.headers.map((header, idx) =>
+    Math.max(header.length, ...frame.rows.map(row => truncate(row.cells[idx] || '').length)));
+  console.log(`   ${COLORS.dim}${frame.headers.map((header, idx) => header.padEnd(widths[idx])).join('  ')}${COLORS.reset}`);
+  frame.rows.forEach(row => console.log(formatRow(row, widths)));
+}
@@ -0,0 +1,159 @@
+// Compare two snapshots (or a snapshot and live state) of one namespace
+import { Snapshot } from './snapshot-store';
+
+export type SnapshotChangeKind = 'added' | 'removed' | 'phase' | 'restarts' | 'quota' | 'balance';
+
+export interface SnapshotChange {
+  resource: string;
+  name: string;
+  kind: SnapshotChangeKind;
+  before?: string;
+  after?: string;
+  delta?: number;    // restarts: count difference; balance: yuan difference
+}
+
+export interface SnapshotDiff {
+  namespace: string;
+  from: { id: string; takenAt: string };
+  to: { id: string; takenAt: string };
+  changes: SnapshotChange[];
+  counts: Record<SnapshotChangeKind, number>;
+  skipped: string[];   // resources missing or failed on one side
+}
+
+interface ResourceFields {
+  listKey: string;
+  phase?: (item: any) => string | undefined;
+  restarts?: (item: any) => number;
+  quota?: (item: any) => Record<string, string>;
+  available?: (item: any) => number | undefined;
+}
+
+// How to read each captured resource
+const RESOURCE_FIELDS: Record<string, ResourceFields> = {
+  pods: {
+    listKey: 'pods',
+    phase: (p) => p.reason && p.reason !== p.status ? `${p.status} (${p.reason})` : p.status,
+    restarts: (p) => p.restarts || 0
+  },
+  devbox: { listKey: 'devboxes', phase: (d) => d.state?.actual || d.status },
+  cluster: { listKey: 'clusters', phase: (c) => c.status },
+  quota: { listKey: 'quotas', quota: (q) => quotaUsage(q) },
+  ingress: { listKey: 'ingresses' },
+  cronjob: { listKey: 'cronjobs', phase: (c) => c.suspend ? 'Suspended' : 'Scheduled' },
+  // Amounts are stored in cents; available = (balance - deductionBalance) / 100
+  account: {
+    listKey: 'accounts',
+    available: (a) => a.status?.balance !== undefined ? ((a.status.balance || 0) - (a.status.deductionBalance || 0)) / 100 : undefined
+  },
+  debt: { listKey: 'debts', phase: (d) => d.status?.status },
+  objectstorage: { listKey: 'objectstoragebuckets' },
+  certificate: { listKey: 'certificates', phase: (c) => c.ready }
+};
+
+/**
+ * Quota usage per resource: { cpu: "1/4", memory: "2Gi/8Gi" }. Snapshots saved
+ * before list_quota_by_ns returned structured usage only have the details string.
+ */
+function quotaUsage(quota: any): Record<string, string> {
+  const usage: Record<string, string> = {};
+  if (Array.isArray(quota.usage)) {
+    quota.usage.forEach((u: any) => { usage[u.resource] = `${u.used}/${u.hard}`; });
+    return usage;
+  }
+  (quota.details || '').split(', ').forEach((part: string) => {
+    const match = part.match(/^([^:]+):\s*(.+)$/);
+    if (match) usage[match[1].trim()] = match[2].trim();
+  });
+  return usage;
+}
+
+function formatYuan(value: number): string {
+  return `¥${value.toFixed(2)}`;
+}
+
+function itemsByName(data: any, listKey: string): Map<string, any> {
+  return new Map((data?.[listKey] || []).map((item: any) => [item.name, item]));
+}
+
+/**
+ * Added/removed resources, phase changes, restart deltas, quota usage and balance changes
+ */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const changes: SnapshotChange[] = [];
+  const skipped: string[] = [];
+
+  Object.entries(RESOURCE_FIELDS).forEach(([resource, fields]) => {
+    const before = from.results[resource];
+    const after = to.results[resource];
+    // Comparing against a failed or missing capture would report everything as added/removed
+    if (!before || !after || before.success === false || after.success === false) {
+      if (before || after) skipped.push(resource);
+      return;
+    }
+
+    const beforeItems = itemsByName(before, fields.listKey);
+    const afterItems = itemsByName(after, fields.listKey);
+
+    afterItems.forEach((item, name) => {
+      const old = beforeItems.get(name);
+      if (!old) {
+        changes.push({ resource, name, kind: 'added', after: fields.phase?.(item) });
+        return;
+      }
+
+      const oldPhase = fields.phase?.(old);
+      const newPhase = fields.phase?.(item);
+      if (oldPhase !== newPhase) {
+        changes.push({ resource, name, kind: 'phase', before: oldPhase || '-', after: newPhase || '-' });
+      }
+
+      if (fields.restarts) {
+        const delta = fields.restarts(item) - fields.restarts(old);
+        if (delta !== 0) {
+          changes.push({ resource, name, kind: 'restarts', before: String(fields.restarts(old)), after: String(fields.restarts(item)), delta });
+        }
+      }
+
+      if (fields.quota) {
+        const oldUsage = fields.quota(old);
+        const newUsage = fields.quota(item);
+        new Set([...Object.keys(oldUsage), ...Object.keys(newUsage)]).forEach(key => {
+          if (oldUsage[key] !== newUsage[key]) {
+            changes.push({ resource, name: `${name} ${key}`, kind: 'quota', before: oldUsage[key] || '-', after: newUsage[key] || '-' });
+          }
+        });
+      }
+
+      if (fields.available) {
+        const oldAvailable = fields.available(old);
+        const newAvailable = fields.available(item);
+        if (oldAvailable !== undefined && newAvailable !== undefined && oldAvailable !== newAvailable) {
+          changes.push({
+            resource, name, kind: 'balance',
+            before: formatYuan(oldAvailable), after: formatYuan(newAvailable),
+            delta: Math.round((newAvailable - oldAvailable) * 100) / 100
+          });
+        }
+      }
+    });
+
+    beforeItems.forEach((item, name) => {
+      if (!afterItems.has(name)) {
+        changes.push({ resource, name, kind: 'removed', before: fields.phase?.(item) });
+      }
+    });
+  });
+
+  const counts: Record<SnapshotChangeKind, number> = { added: 0, removed: 0, phase: 0, restarts: 0, quota: 0, balance: 0 };
+  changes.forEach(change => counts[change.kind]++);
+
+  return {
+    namespace: to.namespace,
+    from: { id: from.id, takenAt: from.takenAt },
+    to: { id: to.id, takenAt: to.takenAt },
+    changes,
+    counts,
+    skipped
+  };
+}
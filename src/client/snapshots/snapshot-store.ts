@@ -0,0 +1,89 @@
+// On-disk snapshots of every namespace list-tool result, one JSON file per capture:
+// <SNAPSHOT_DIR>/<namespace>/<id>.json
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SNAPSHOT_DIR = process.env.SEALOS_SNAPSHOT_DIR || path.join(process.cwd(), 'snapshots');
+
+// Namespace list resources captured in a snapshot (cluster-scoped and report tools are left out)
+export const SNAPSHOT_RESOURCES = [
+  'pods', 'devbox', 'cluster', 'quota', 'ingress', 'cronjob', 'account', 'debt', 'objectstorage', 'certificate'
+];
+
+export interface Snapshot {
+  id: string;                          // "20261019-101500", or "live" for an unsaved capture
+  namespace: string;
+  zone?: string;
+  takenAt: string;                     // ISO timestamp
+  results: Record<string, any>;        // resource -> parsed list-tool response
+  errors?: Record<string, string>;     // resource -> error message when the tool failed
+}
+
+export interface SnapshotEntry {
+  id: string;
+  takenAt: string;
+  file: string;
+}
+
+function namespaceDir(namespace: string): string {
+  return path.join(SNAPSHOT_DIR, namespace);
+}
+
+/**
+ * Snapshot id from its timestamp: sortable and safe as a file name
+ */
+export function snapshotId(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/**
+ * Write a snapshot and return the file it was saved to
+ */
+export function saveSnapshot(snapshot: Snapshot): string {
+  const dir = namespaceDir(snapshot.namespace);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${snapshot.id}.json`);
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2));
+  return file;
+}
+
+/**
+ * Saved snapshots of a namespace, oldest first
+ */
+export function listSnapshots(namespace: string): SnapshotEntry[] {
+  const dir = namespaceDir(namespace);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const fullPath = path.join(dir, file);
+      let takenAt = '';
+      try {
+        takenAt = JSON.parse(fs.readFileSync(fullPath, 'utf8')).takenAt || '';
+      } catch {
+        // Unreadable file: still listed so the user can spot and remove it
+      }
+      return { id: file.replace(/\.json$/, ''), takenAt, file: fullPath };
+    });
+}
+
+/**
+ * Load a snapshot by id, or by "latest" / "previous"
+ */
+export function loadSnapshot(namespace: string, ref: string): Snapshot {
+  const entries = listSnapshots(namespace);
+  let entry: SnapshotEntry | undefined;
+  if (ref === 'latest') entry = entries[entries.length - 1];
+  else if (ref === 'previous') entry = entries[entries.length - 2];
+  else entry = entries.find(e => e.id === ref);
+
+  if (!entry) {
+    const available = entries.length > 0 ? `Available: ${entries.map(e => e.id).join(', ')}` : 'No snapshots saved yet';
+    throw new Error(`Snapshot "${ref}" not found for ${namespace}. ${available}`);
+  }
+
+  return JSON.parse(fs.readFileSync(entry.file, 'utf8')) as Snapshot;
+}
@@ -1,3 +1,4 @@
 // Export all viewmodels and transformers
 
-export * from './inspect-viewmodel';
\ No newline at end of file
+export * from './inspect-viewmodel';
+export * from './watch-viewmodel';
\ No newline at end of file
@@ -56,7 +56,36 @@ export interface InspectViewModel {
     message: string;
   }>;
   config: Array<{ key: string; value: string }>; // For non-pod resources
+  topology?: {
+    members: Array<{ name: string; role: string; status: string; ready: string; isReady: boolean; restarts: number }>;
+    roleCheck: string;
+    message?: string;
+  }; // KubeBlocks member pods (clusters only)
+  devboxState?: {
+    desired: string;
+    actual: string;
+    health: string;
+    reason: string;
+    since?: string;
+    sinceSource?: string;   // phase-transition | status-update
+  }; // Desired vs actual state (devboxes only)
+  history?: {
+    commits: Array<{ image: string; time?: string; status: string; current: boolean; flagged: boolean }>;
+    specImage?: string;
+    runningImage?: string;
+    message?: string;
+  }; // Commit/image history (devboxes only)
   logs?: string;
+  previousLogs?: Array<{
+    container: string;
+    restarts: number;
+    exitCode?: number;
+    reason?: string;
+    signal?: number;
+    finishedAt?: string;
+    logs?: string;
+    error?: string;
+  }>; // Last terminated instance of restarted containers (pods only)
   error?: { message: string; code?: number; reason?: string };
   warnings?: string[];
 }
@@ -170,7 +199,7 @@ function extractContainerDetails(c: any, statusList: any[] = []): DetailedContai
 }
 
 // Transformer for Pods
-function transformPod(manifest: any, events: any[], logs?: string): InspectViewModel {
+function transformPod(manifest: any, events: any[], logs?: string, previousLogs?: any[]): InspectViewModel {
   const { metadata = {}, spec = {}, status = {} } = manifest;
 
   const podStatus = status.phase || 'Unknown';
@@ -251,12 +280,13 @@ function transformPod(manifest: any, events: any[], logs?: string): InspectViewM
     nodeInfo: { selectors, tolerations },
     events: transformedEvents,
     config: [],
-    logs: processedLogs
+    logs: processedLogs,
+    previousLogs: previousLogs && previousLogs.length > 0 ? previousLogs : undefined
   };
 }
 
 // Transformer for Sealos Devbox
-function transformDevbox(manifest: any, events: any[]): InspectViewModel {
+function transformDevbox(manifest: any, events: any[], devboxState?: any, devboxHistory?: any): InspectViewModel {
   const { metadata = {}, spec = {}, status = {} } = manifest;
   const { name = '', namespace = '', creationTimestamp } = metadata;
 
@@ -301,12 +331,26 @@ function transformDevbox(manifest: any, events: any[]): InspectViewModel {
     volumes: [],
     nodeInfo: { selectors: [], tolerations: [] },
     config,
-    events: transformedEvents
+    events: transformedEvents,
+    devboxState: devboxState ? {
+      desired: devboxState.desired || spec.state || 'Unknown',
+      actual: devboxState.actual || devboxStatus,
+      health: devboxState.health || 'Unknown',
+      reason: devboxState.reason || '-',
+      since: devboxState.since,
+      sinceSource: devboxState.sinceSource
+    } : undefined,
+    history: devboxHistory ? {
+      commits: (devboxHistory.commits || []).slice(0, 10),
+      specImage: devboxHistory.specImage,
+      runningImage: devboxHistory.runningImage,
+      message: devboxHistory.message
+    } : undefined
   };
 }
 
 // Transformer for KubeBlocks Cluster
-function transformCluster(manifest: any, events: any[]): InspectViewModel {
+function transformCluster(manifest: any, events: any[], topology?: any): InspectViewModel {
   const { metadata = {}, spec = {}, status = {} } = manifest;
   const { name = '', namespace = '', creationTimestamp } = metadata;
 
@@ -355,7 +399,19 @@ function transformCluster(manifest: any, events: any[]): InspectViewModel {
     volumes: [],
     nodeInfo: { selectors: [], tolerations: [] },
     config,
-    events: transformedEvents
+    events: transformedEvents,
+    topology: topology ? {
+      members: (topology.members || []).map((m: any) => ({
+        name: m.name,
+        role: m.role || '-',
+        status: m.status || 'Unknown',
+        ready: m.ready || '-',
+        isReady: !!m.isReady,
+        restarts: m.restarts || 0
+      })),
+      roleCheck: topology.roleCheck || 'OK',
+      message: topology.message
+    } : undefined
   };
 }
 
@@ -444,15 +500,15 @@ export function transformToViewModel(data: any): InspectViewModel | null {
         warnings: data.warnings
       };
     }
-    const { manifest, events = [], logs } = data;
+    const { manifest, events = [], logs, previousLogs, topology, devboxState, devboxHistory } = data;
     if (!manifest) return null;
 
     const kind = manifest.kind || '';
     const lowerKind = kind.toLowerCase();
 
-    if (lowerKind === 'pod') return transformPod(manifest, events, logs);
-    if (lowerKind === 'devbox') return transformDevbox(manifest, events);
-    if (lowerKind === 'cluster') return transformCluster(manifest, events);
+    if (lowerKind === 'pod') return transformPod(manifest, events, logs, previousLogs);
+    if (lowerKind === 'devbox') return transformDevbox(manifest, events, devboxState, devboxHistory);
+    if (lowerKind === 'cluster') return transformCluster(manifest, events, topology);
     return transformGeneral(manifest, events);
   } catch (error) {
     console.error('Error transforming inspect data:', error);
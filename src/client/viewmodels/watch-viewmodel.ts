@@ -0,0 +1,194 @@
+// ViewModel for watch mode: turns successive list responses into frames whose rows
+// are marked as added, changed (status moved) or removed since the previous poll
+
+export type WatchChange = 'added' | 'changed' | 'removed' | 'same';
+
+export interface WatchRow {
+  key: string;
+  cells: string[];
+  status: string;
+  change: WatchChange;
+  previousStatus?: string; // Set while a changed row is highlighted
+}
+
+export interface WatchFrame {
+  title: string;
+  headers: string[];
+  rows: WatchRow[];
+  counts: Record<WatchChange, number>;
+  error?: string;
+}
+
+// Per-resource memory carried between polls
+export interface WatchState {
+  poll: number;
+  rows: Map<string, { status: string; cells: string[]; change: WatchChange; changedAt: number; previousStatus?: string }>;
+}
+
+// A change stays highlighted for this many polls so it is not missed
+const HIGHLIGHT_POLLS = 3;
+
+interface WatchColumns {
+  title: string;
+  headers: string[];
+  row: (item: any) => { key: string; status: string; cells: string[] };
+}
+
+// Response array key -> identity, watched status and table cells
+const WATCH_COLUMNS: Record<string, WatchColumns> = {
+  pods: {
+    title: 'Pods',
+    headers: ['NAME', 'READY', 'STATUS', 'RESTARTS', 'AGE'],
+    row: (p) => {
+      const status = p.reason && p.reason !== p.status ? `${p.status} (${p.reason})` : p.status;
+      return { key: p.name, status, cells: [p.name, p.ready || '-', status, String(p.restarts ?? 0), p.age || '-'] };
+    }
+  },
+  suspects: {
+    title: 'Suspect Pods',
+    headers: ['RANK', 'NAME', 'BUCKET', 'RESTARTS', 'AGE'],
+    row: (p) => ({ key: p.name, status: p.bucket, cells: [`#${p.rank}`, p.name, p.bucket, String(p.restarts ?? 0), p.age || '-'] })
+  },
+  devboxes: {
+    title: 'Devboxes',
+    headers: ['NAME', 'DESIRED', 'ACTUAL', 'HEALTH'],
+    row: (d) => {
+      const actual = d.state?.actual || d.status || 'Unknown';
+      return { key: d.name, status: `${actual}/${d.state?.health || '-'}`, cells: [d.name, d.state?.desired || '-', actual, d.state?.health || '-'] };
+    }
+  },
+  clusters: {
+    title: 'Clusters',
+    headers: ['NAME', 'TYPE', 'STATUS', 'VERSION'],
+    row: (c) => ({ key: c.name, status: c.status, cells: [c.name, c.type || '-', c.status || '-', c.version || '-'] })
+  },
+  nodes: {
+    title: 'Nodes',
+    headers: ['NAME', 'STATUS', 'ROLES', 'AGE'],
+    row: (n) => ({ key: n.name, status: n.status, cells: [n.name, n.status || '-', n.roles || '-', n.age || '-'] })
+  },
+  cronjobs: {
+    title: 'CronJobs',
+    headers: ['NAME', 'SCHEDULE', 'STATE', 'LAST SCHEDULE'],
+    row: (c) => {
+      const state = c.suspend ? 'Suspended' : c.active > 0 ? `Active (${c.active})` : 'Idle';
+      return { key: c.name, status: state, cells: [c.name, c.schedule || '-', state, c.lastSchedule || '-'] };
+    }
+  },
+  events: {
+    title: 'Events',
+    headers: ['TYPE', 'REASON', 'OBJECT', 'COUNT', 'MESSAGE'],
+    row: (e) => ({
+      key: `${e.object}|${e.reason}`,
+      status: `${e.type}×${e.count}`,
+      cells: [e.type, e.reason, e.object, String(e.count), String(e.message || '').substring(0, 60)]
+    })
+  },
+  ingresses: {
+    title: 'Ingresses',
+    headers: ['NAME', 'HOSTS', 'BACKEND', 'ADDRESS'],
+    row: (i) => ({ key: i.name, status: i.address || '-', cells: [i.name, i.hosts || '-', `${i.backendService}:${i.backendPort}`, i.address || '-'] })
+  },
+  certificates: {
+    title: 'Certificates',
+    headers: ['NAME', 'READY', 'ISSUER', 'NOT AFTER'],
+    row: (c) => ({ key: c.name, status: c.ready, cells: [c.name, c.ready || '-', c.issuer || '-', c.notAfter || '-'] })
+  },
+  objectstoragebuckets: {
+    title: 'Object Storage Buckets',
+    headers: ['NAME', 'POLICY', 'SIZE'],
+    row: (b) => ({ key: b.name, status: `${b.policy}/${b.size}`, cells: [b.name, b.policy || '-', b.size || '-'] })
+  },
+  accounts: {
+    title: 'Accounts',
+    headers: ['NAME', 'BALANCE', 'DEDUCTED'],
+    row: (a) => {
+      const balance = a.status?.balance !== undefined ? String(a.status.balance) : '-';
+      const deducted = a.status?.deductionBalance !== undefined ? String(a.status.deductionBalance) : '-';
+      return { key: a.name, status: `${balance}/${deducted}`, cells: [a.name, balance, deducted] };
+    }
+  },
+  debts: {
+    title: 'Debts',
+    headers: ['NAME', 'STATUS', 'AGE'],
+    row: (d) => ({ key: d.name, status: d.status?.status || 'Unknown', cells: [d.name, d.status?.status || '-', d.age || '-'] })
+  },
+  quotas: {
+    title: 'Quotas',
+    headers: ['NAME', 'USED / HARD'],
+    row: (q) => ({ key: q.name, status: q.details, cells: [q.name, q.details || '-'] })
+  }
+};
+
+/**
+ * Find the list array in a tool response and its column definition
+ */
+function findListKey(data: any): string | undefined {
+  return Object.keys(WATCH_COLUMNS).find(key => Array.isArray(data?.[key]));
+}
+
+export function createWatchState(): WatchState {
+  return { poll: 0, rows: new Map() };
+}
+
+/**
+ * Build the next frame from a fresh list response, updating the state in place.
+ * The first poll is the baseline, so nothing is marked as added.
+ */
+export function buildWatchFrame(resource: string, data: any, state: WatchState): WatchFrame {
+  const counts: Record<WatchChange, number> = { added: 0, changed: 0, removed: 0, same: 0 };
+
+  if (!data || data.success === false) {
+    return { title: resource, headers: [], rows: [], counts, error: data?.error?.message || 'Unknown error' };
+  }
+
+  const listKey = findListKey(data);
+  if (!listKey) {
+    return { title: resource, headers: [], rows: [], counts, error: `watch is not supported for ${resource}` };
+  }
+
+  const columns = WATCH_COLUMNS[listKey];
+  const isBaseline = state.poll === 0;
+  state.poll++;
+
+  const seen = new Set<string>();
+  const rows: WatchRow[] = data[listKey].map((item: any) => {
+    const { key, status, cells } = columns.row(item);
+    seen.add(key);
+    const previous = state.rows.get(key);
+
+    let change: WatchChange = 'same';
+    let changedAt = previous?.changedAt ?? 0;
+    let previousStatus = previous?.previousStatus;
+    if (!previous || previous.change === 'removed') {
+      change = isBaseline ? 'same' : 'added';
+      changedAt = state.poll;
+      previousStatus = undefined;
+    } else if (previous.status !== status) {
+      change = 'changed';
+      changedAt = state.poll;
+      previousStatus = previous.status;
+    } else if (state.poll - previous.changedAt < HIGHLIGHT_POLLS) {
+      change = previous.change;   // keep the highlight for a few polls
+    }
+
+    state.rows.set(key, { status, cells, change, changedAt, previousStatus });
+    return { key, cells, status, change, ...(change === 'changed' && { previousStatus }) };
+  });
+
+  // Rows that vanished are shown (struck) until their highlight expires
+  state.rows.forEach((entry, key) => {
+    if (seen.has(key)) return;
+    if (entry.change !== 'removed') {
+      state.rows.set(key, { ...entry, change: 'removed', changedAt: state.poll });
+      rows.push({ key, cells: entry.cells, status: entry.status, change: 'removed' });
+    } else if (state.poll - entry.changedAt < HIGHLIGHT_POLLS) {
+      rows.push({ key, cells: entry.cells, status: entry.status, change: 'removed' });
+    } else {
+      state.rows.delete(key);
+    }
+  });
+
+  rows.forEach(row => counts[row.change]++);
+  return { title: columns.title, headers: columns.headers, rows, counts };
+}
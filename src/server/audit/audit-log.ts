@@ -0,0 +1,132 @@
+// Append-only audit log of tool calls: one JSON object per line in
+// <AUDIT_LOG_PATH>, written by the server after every call
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { redactSecrets } from '../../shared/redaction';
+
+export const AUDIT_LOG_PATH = process.env.SEALOS_AUDIT_LOG || path.join(process.cwd(), 'audit', 'audit.jsonl');
+
+// Who runs the server: explicit actor, else the OS user
+const ACTOR = process.env.SEALOS_AUDIT_ACTOR || safeUsername();
+
+export type AuditStatus = 'success' | 'failure' | 'invalid' | 'cancelled';
+
+// Write tools: which half of the dry-run/confirm handshake this call was
+export interface AuditConfirmation {
+  step: 'dry-run' | 'confirm';
+  tokenId?: string;      // hash prefix of the confirmation token, pairs a dry run with its confirm
+}
+
+export interface AuditEntry {
+  time: string;          // ISO timestamp of the call start
+  actor: string;
+  tool: string;
+  args: Record<string, unknown>;   // validated arguments (raw ones when validation failed)
+  namespace?: string;
+  zone?: string;
+  context?: string;      // kube context the zone resolved to
+  durationMs: number;
+  status: AuditStatus;
+  errorCode?: string;
+  confirmation?: AuditConfirmation;
+  revealed?: boolean;    // the caller bypassed redaction (--reveal)
+  redacted?: number;     // values redacted from the response
+}
+
+export interface AuditQuery {
+  since?: number;        // epoch ms, inclusive
+  until?: number;        // epoch ms, inclusive
+  namespace?: string;
+  tool?: string;
+  limit: number;
+}
+
+function safeUsername(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Short, non-reversible id for a confirmation token
+ */
+export function tokenId(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').substring(0, 12);
+}
+
+/**
+ * Arguments as recorded: confirmation tokens are replaced by their id, credentials redacted
+ */
+export function auditArgs(args: unknown): Record<string, unknown> {
+  if (!args || typeof args !== 'object') return {};
+  const recorded: Record<string, unknown> = { ...(args as Record<string, unknown>) };
+  if (typeof recorded.confirmationToken === 'string') {
+    recorded.confirmationToken = tokenId(recorded.confirmationToken);
+  }
+  return redactSecrets(recorded).value;
+}
+
+/**
+ * Append one entry. Audit failures are logged but never fail the tool call.
+ */
+export function appendAuditEntry(entry: Omit<AuditEntry, 'actor'>): void {
+  try {
+    fs.mkdirSync(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+    fs.appendFileSync(AUDIT_LOG_PATH, JSON.stringify({ ...entry, actor: ACTOR }) + '\n');
+  } catch (error) {
+    console.error(`[Server] Failed to write audit log ${AUDIT_LOG_PATH}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * "2026-10-01", "2026-10-01T08:00:00Z" or relative "30m", "2h", "7d" -> epoch ms
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): number | undefined {
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/i);
+  if (relative) {
+    const unitMs: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+    return now - parseInt(relative[1], 10) * unitMs[relative[2].toLowerCase()];
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Matching entries, newest first. Unreadable lines are counted and skipped.
+ */
+export function queryAuditLog(query: AuditQuery): { entries: AuditEntry[]; matched: number; total: number; skipped: number } {
+  if (!fs.existsSync(AUDIT_LOG_PATH)) {
+    return { entries: [], matched: 0, total: 0, skipped: 0 };
+  }
+
+  const lines = fs.readFileSync(AUDIT_LOG_PATH, 'utf8').split('\n').filter(line => line.trim());
+  const matches: AuditEntry[] = [];
+  let skipped = 0;
+
+  lines.forEach(line => {
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      skipped++;
+      return;
+    }
+    const time = Date.parse(entry.time);
+    if (query.since !== undefined && !(time >= query.since)) return;
+    if (query.until !== undefined && !(time <= query.until)) return;
+    if (query.namespace && entry.namespace !== query.namespace) return;
+    if (query.tool && entry.tool !== query.tool) return;
+    matches.push(entry);
+  });
+
+  return {
+    entries: matches.reverse().slice(0, query.limit),
+    matched: matches.length,
+    total: lines.length,
+    skipped,
+  };
+}
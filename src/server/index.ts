@@ -4,46 +4,28 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import {
-  LIST_PODS_BY_NS_TOOL,
-  LIST_DEVBOX_BY_NS_TOOL,
-  LIST_CLUSTER_BY_NS_TOOL,
-  LIST_QUOTA_BY_NS_TOOL,
-  LIST_INGRESS_BY_NS_TOOL,
-  LIST_NODES_TOOL,
-  LIST_CRONJOBS_BY_NS_TOOL,
-  LIST_EVENTS_BY_NS_TOOL,
-  LIST_ACCOUNT_BY_NS_TOOL,
-  LIST_DEBT_BY_NS_TOOL,
-  LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL,
-  LIST_CERTIFICATE_BY_NS_TOOL,
-  INSPECT_RESOURCE_TOOL
-} from './tools/types';
-import { listPodsByNamespace } from './tools/list-pods-by-ns';
-import { listDevboxByNamespace } from './tools/list-devbox-by-ns';
-import { listClusterByNamespace } from './tools/list-cluster-by-ns';
-import { listQuotaByNamespace } from './tools/list-quota-by-ns';
-import { listIngressByNamespace } from './tools/list-ingress-by-ns';
-import { listNodes } from './tools/list-nodes';
-import { listCronjobsByNamespace } from './tools/list-cronjobs-by-ns';
-import { listEventsByNamespace } from './tools/list-events-by-ns';
-import { listAccountByNamespace } from './tools/list-account-by-ns';
-import { listDebtByNamespace } from './tools/list-debt-by-ns';
-import { listObjectStorageBucketByNamespace } from './tools/list-objectstoragebucket-by-ns';
-import { listCertificateByNamespace } from './tools/list-certificate-by-ns';
-import { inspectResource } from './tools/inspect-resource';
-import { kubernetesClient } from './kubernetes/client';
+import { TOOLS, TOOLS_BY_NAME } from './tools';
+import { executeTool, toMcpTool, toToolResult, ToolContext } from './tools/registry';
+import { zoneRegistry, DEFAULT_ZONE } from './kubernetes/zone-registry';
+import { createKubernetesError, extractKubernetesError } from './kubernetes/errors';
+import { appendAuditEntry, AUDIT_LOG_PATH, auditArgs } from './audit/audit-log';
 
 async function main() {
-  // Initialize Kubernetes client
-  console.error('[Server] Initializing Kubernetes client...');
-  const isConnected = await kubernetesClient.testConnection();
+  // Initialize Kubernetes clients for every configured zone
+  console.error(`[Server] Initializing Kubernetes clients for zones: ${zoneRegistry.getZones().join(', ')} (default: ${DEFAULT_ZONE})`);
+  for (const zone of zoneRegistry.getZones()) {
+    try {
+      const zoneClient = zoneRegistry.getClient(zone);
+      const isConnected = await zoneClient.testConnection();
 
-  if (!isConnected) {
-    console.error('[Server] Warning: Failed to connect to Kubernetes cluster');
-  } else {
-    const context = kubernetesClient.getCurrentContext();
-    console.error(`[Server] Connected to cluster: ${context.cluster}`);
+      if (!isConnected) {
+        console.error(`[Server] Warning: Failed to connect to Kubernetes cluster for zone ${zone}`);
+      } else {
+        console.error(`[Server] Zone ${zone} connected to cluster: ${zoneClient.getClusterServer()} (context: ${zoneClient.getCurrentContext()})`);
+      }
+    } catch (error) {
+      console.error(`[Server] Warning: Failed to load kubeconfig for zone ${zone}:`, error instanceof Error ? error.message : error);
+    }
   }
 
   // Create MCP server
@@ -59,198 +41,54 @@ async function main() {
     }
   );
 
-  // Register tools
+  // Register tools (JSON Schemas are derived from the zod input schemas)
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        LIST_PODS_BY_NS_TOOL,
-        LIST_DEVBOX_BY_NS_TOOL,
-        LIST_CLUSTER_BY_NS_TOOL,
-        LIST_QUOTA_BY_NS_TOOL,
-        LIST_INGRESS_BY_NS_TOOL,
-        LIST_NODES_TOOL,
-        LIST_CRONJOBS_BY_NS_TOOL,
-        LIST_EVENTS_BY_NS_TOOL,
-        LIST_ACCOUNT_BY_NS_TOOL,
-        LIST_DEBT_BY_NS_TOOL,
-        LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL,
-        LIST_CERTIFICATE_BY_NS_TOOL,
-        INSPECT_RESOURCE_TOOL,
-      ],
+      tools: TOOLS.map(toMcpTool),
     };
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
-    try {
-      switch (name) {
-        case 'list_pods_by_ns':
-          const result = await listPodsByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-
-        case 'list_devbox_by_ns':
-          const devboxResult = await listDevboxByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(devboxResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_cluster_by_ns':
-          const clusterResult = await listClusterByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(clusterResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_quota_by_ns':
-          const quotaResult = await listQuotaByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(quotaResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_ingress_by_ns':
-          const ingressResult = await listIngressByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(ingressResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_nodes':
-          const nodesResult = await listNodes(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(nodesResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_cronjobs_by_ns':
-          const cronjobsResult = await listCronjobsByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(cronjobsResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_events_by_ns':
-          const eventsResult = await listEventsByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(eventsResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_account_by_ns':
-          const accountResult = await listAccountByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(accountResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_debt_by_ns':
-          const debtResult = await listDebtByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(debtResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_objectstoragebucket_by_ns':
-          const objectstoragebucketResult = await listObjectStorageBucketByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(objectstoragebucketResult, null, 2),
-              },
-            ],
-          };
-
-        case 'list_certificate_by_ns':
-          const certificateResult = await listCertificateByNamespace(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(certificateResult, null, 2),
-              },
-            ],
-          };
+    const tool = TOOLS_BY_NAME.get(name);
+    if (!tool) {
+      appendAuditEntry({ time: new Date().toISOString(), tool: name, args: auditArgs(args), durationMs: 0, status: 'invalid', errorCode: 'InvalidArguments' });
+      return toToolResult({
+        success: false,
+        error: createKubernetesError('InvalidArguments', `Unknown tool: ${name}`, { code: 400, reason: 'UnknownTool' }),
+      }, true);
+    }
 
-        case 'inspect_resource':
-          const inspectResult = await inspectResource(args as any);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(inspectResult, null, 2),
-              },
-            ],
-          };
+    // Streaming tools report through progress notifications when the caller asked for them
+    const progressToken = request.params._meta?.progressToken;
+    let progressCount = 0;
+    const context: ToolContext = {
+      signal: extra.signal,
+      reveal: request.params._meta?.reveal === true,
+      ...(progressToken !== undefined && {
+        progress: (message: string) => extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: ++progressCount, message },
+        }),
+      }),
+    };
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
+    try {
+      return await executeTool(tool, args, context);
     } catch (error) {
       console.error(`[Server] Error executing tool ${name}:`, error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: error instanceof Error ? error.message : 'Unknown error',
-            }),
-          },
-        ],
-        isError: true,
-      };
+      return toToolResult({
+        success: false,
+        error: extractKubernetesError(error),
+      }, true);
     }
   });
 
   // Start the server
   const transport = new StdioServerTransport();
-  console.error('[Server] Starting MCP server...');
+  console.error(`[Server] Starting MCP server (audit log: ${AUDIT_LOG_PATH})...`);
   await server.connect(transport);
   console.error('[Server] MCP server started and listening');
 }
@@ -0,0 +1,117 @@
+// Billing semantics from sealos-CRD.md (Account / Debt in account.sealos.io/v1)
+
+import { DebtInfo } from './types';
+
+// What a Debt status means for the namespace's running resources
+export type DebtImpact = 'None' | 'Notice' | 'SuspendSoon' | 'Suspended' | 'DeletionSoon' | 'Deleted';
+
+export interface DebtStatusInfo {
+  impact: DebtImpact;
+  meaning: string;
+}
+
+// The namespace's Debt CR status explained with DebtStatusType semantics
+export interface DebtSummary {
+  name: string;
+  status: string;
+  impact: DebtImpact;
+  meaning: string;
+  lastUpdate?: string;
+  records: number;
+}
+
+// Sealos marks billing blocks with debt-limit / debt-limit0 (event reasons, quota names)
+export const DEBT_LIMIT_PATTERN = /debt-limit0?/i;
+
+/**
+ * DebtStatusType enum values, including the deprecated size-based levels
+ */
+export const DEBT_STATUS_INFO: Record<string, DebtStatusInfo> = {
+  // Legacy debt levels (deprecated)
+  Normal: { impact: 'None', meaning: 'No debt.' },
+  Small: { impact: 'Notice', meaning: 'Small outstanding debt (legacy level).' },
+  Medium: { impact: 'Notice', meaning: 'Medium outstanding debt (legacy level).' },
+  Large: { impact: 'SuspendSoon', meaning: 'Large outstanding debt (legacy level); resources may be suspended.' },
+
+  // Time-based periods
+  NormalPeriod: { impact: 'None', meaning: 'Normal period, no debt.' },
+  WarningPeriod: { impact: 'SuspendSoon', meaning: 'Warning period: the account is in debt and resources will be suspended if it is not recharged.' },
+  ApproachingDeletionPeriod: { impact: 'DeletionSoon', meaning: 'Approaching deletion: resources are suspended and will be deleted.' },
+  ImminentDeletionPeriod: { impact: 'DeletionSoon', meaning: 'Imminent deletion: resources will be deleted shortly.' },
+  FinalDeletionPeriod: { impact: 'DeletionSoon', meaning: 'Final deletion period: resources are being deleted.' },
+
+  // Current debt states
+  PreWarningPeriod: { impact: 'Notice', meaning: 'Pre-warning: the balance is about to run out.' },
+  SuspendPeriod: { impact: 'Suspended', meaning: 'Suspend period: resources are suspended because of debt (debt-limit).' },
+  RemovedPeriod: { impact: 'Deleted', meaning: 'Removed period: resources have been deleted because of debt.' },
+
+  // Balance states
+  LowBalancePeriod: { impact: 'Notice', meaning: 'Low balance: recharge soon to avoid interruption.' },
+  CriticalBalancePeriod: { impact: 'SuspendSoon', meaning: 'Critical balance: resources will be suspended once the balance is exhausted.' },
+  DebtPeriod: { impact: 'SuspendSoon', meaning: 'Debt period: the balance is negative and resources are about to be suspended.' },
+  DebtDeletionPeriod: { impact: 'DeletionSoon', meaning: 'Debt deletion period: resources are scheduled for deletion.' },
+};
+
+// Ordered from harmless to destructive
+const IMPACT_SEVERITY: DebtImpact[] = ['None', 'Notice', 'SuspendSoon', 'Suspended', 'DeletionSoon', 'Deleted'];
+
+/**
+ * Explain a DebtStatusType value; unknown values are reported as-is
+ */
+export function describeDebtStatus(status?: string): DebtStatusInfo {
+  if (!status) {
+    return { impact: 'None', meaning: 'No debt status reported.' };
+  }
+  return DEBT_STATUS_INFO[status] || { impact: 'Notice', meaning: `Unrecognized debt status: ${status}.` };
+}
+
+/**
+ * Compare two impacts by severity (positive when a is worse)
+ */
+export function compareDebtImpact(a: DebtImpact, b: DebtImpact): number {
+  return IMPACT_SEVERITY.indexOf(a) - IMPACT_SEVERITY.indexOf(b);
+}
+
+/**
+ * True when resources are already blocked or removed
+ */
+export function isBlockingImpact(impact: DebtImpact): boolean {
+  return compareDebtImpact(impact, 'Suspended') >= 0;
+}
+
+/**
+ * Account amounts are int64 cents; convert to yuan with two decimals
+ */
+export function centsToYuan(cents?: number | string): number {
+  const value = Number(cents || 0);
+  return Number.isFinite(value) ? Math.round(value) / 100 : 0;
+}
+
+/**
+ * lastUpdateTimestamp is an int64 epoch; accept both seconds and milliseconds
+ */
+function formatTimestamp(timestamp?: number): string | undefined {
+  if (!timestamp) return undefined;
+  const millis = timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  return new Date(millis).toISOString();
+}
+
+/**
+ * Pick the most severe Debt CR when a namespace has several
+ */
+export function summarizeDebts(debts: DebtInfo[]): DebtSummary | undefined {
+  const summaries = debts.map(debt => {
+    const status = debt.status?.status || 'Unknown';
+    const info = describeDebtStatus(debt.status?.status);
+    return {
+      name: debt.name,
+      status,
+      impact: info.impact,
+      meaning: info.meaning,
+      lastUpdate: formatTimestamp(debt.status?.lastUpdateTimestamp),
+      records: debt.status?.debtStatusRecords?.length || 0,
+    };
+  });
+
+  return summaries.sort((a, b) => compareDebtImpact(b.impact, a.impact))[0];
+}
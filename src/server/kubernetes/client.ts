@@ -1,5 +1,4 @@
 import * as k8s from '@kubernetes/client-node';
-import * as path from 'path';
 
 export class KubernetesClient {
   private kc: k8s.KubeConfig;
@@ -7,8 +6,10 @@ export class KubernetesClient {
   private customObjectsApi: k8s.CustomObjectsApi;
   private networkingV1Api: k8s.NetworkingV1Api;
   private batchV1Api: k8s.BatchV1Api;
+  private appsV1Api: k8s.AppsV1Api;
+  private logClient: k8s.Log;
 
-  constructor(kubeconfigPath?: string) {
+  constructor(kubeconfigPath?: string, context?: string) {
     this.kc = new k8s.KubeConfig();
 
     // Load from specific path or default locations
@@ -19,10 +20,17 @@ export class KubernetesClient {
       this.kc.loadFromDefault();
     }
 
+    // Switch to a specific context when several zones share one kubeconfig
+    if (context) {
+      this.kc.setCurrentContext(context);
+    }
+
     this.k8sApi = this.kc.makeApiClient(k8s.CoreV1Api);
     this.customObjectsApi = this.kc.makeApiClient(k8s.CustomObjectsApi);
     this.networkingV1Api = this.kc.makeApiClient(k8s.NetworkingV1Api);
     this.batchV1Api = this.kc.makeApiClient(k8s.BatchV1Api);
+    this.appsV1Api = this.kc.makeApiClient(k8s.AppsV1Api);
+    this.logClient = new k8s.Log(this.kc);
   }
 
   /**
@@ -53,6 +61,20 @@ export class KubernetesClient {
     return this.batchV1Api;
   }
 
+  /**
+   * Get the Apps V1 API client for StatefulSet and Deployment resources
+   */
+  getAppsV1Api(): k8s.AppsV1Api {
+    return this.appsV1Api;
+  }
+
+  /**
+   * Get the streaming log client (follow mode)
+   */
+  getLogClient(): k8s.Log {
+    return this.logClient;
+  }
+
   /**
    * Test connection to the cluster
    */
@@ -82,9 +104,22 @@ export class KubernetesClient {
   getCurrentContext(): any {
     return this.kc.getCurrentContext();
   }
-}
 
-// Export a singleton instance with the project's kubeconfig
-export const kubernetesClient = new KubernetesClient(
-  path.join(process.cwd(), 'kubeconfig', 'Mykubeconfig')
-);
\ No newline at end of file
+  /**
+   * Get the API server URL of the current context
+   */
+  getClusterServer(): string {
+    return this.kc.getCurrentCluster()?.server || 'unknown';
+  }
+
+  /**
+   * Hostname of the API server; NodePorts are reachable on the same public address
+   */
+  getClusterHost(): string {
+    try {
+      return new URL(this.getClusterServer()).hostname;
+    } catch {
+      return 'unknown';
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import * as k8s from '@kubernetes/client-node';
+import { KubernetesClient } from './client';
+import { withRetry } from './errors';
+import { DevboxCommit, DevboxHealth, DevboxHistory, DevboxPhaseSince, DevboxState } from './types';
+
+// Labels on devbox pods (see dev_agent_workflow.md, Step 2)
+const DEVBOX_PART_OF_LABEL = 'app.kubernetes.io/part-of';
+export const DEVBOX_NAME_LABEL = 'app.kubernetes.io/name';
+
+/**
+ * The labels that tie a pod to its devbox. Both the API label selector (inspect,
+ * ssh, history) and in-memory matching (tree, diagnose) derive from this.
+ */
+function devboxPodLabels(name: string): Record<string, string> {
+  return { [DEVBOX_PART_OF_LABEL]: 'devbox', [DEVBOX_NAME_LABEL]: name };
+}
+
+export function devboxPodSelector(name: string): string {
+  return Object.entries(devboxPodLabels(name)).map(([key, value]) => `${key}=${value}`).join(',');
+}
+
+export function isDevboxPod(labels: Record<string, string> | undefined, name: string): boolean {
+  return Object.entries(devboxPodLabels(name)).every(([key, value]) => labels?.[key] === value);
+}
+
+// Devbox state tables (see dev_agent_workflow.md, scenario A)
+export const DEVBOX_TERMINAL_STATES = new Set(['Stopped', 'Shutdown']);
+export const DEVBOX_TRANSITIONAL_PHASES = new Set(['Pending', 'Stopping', 'Shutting', 'Error', 'Unknown']);
+
+// Phases that never settle on their own
+const DEVBOX_FAILED_PHASES = new Set(['Error', 'Unknown']);
+
+// A transitional phase older than this is reported as stuck
+export const DEVBOX_STUCK_AFTER_MS = 15 * 60 * 1000;
+
+// Broken first: fake stops, then stuck, then transitional, then healthy
+const HEALTH_SEVERITY: Record<DevboxHealth, number> = {
+  FakeStopped: 0,
+  Stuck: 1,
+  Transitional: 2,
+  Healthy: 3,
+};
+
+/**
+ * When the status subresource was last written, from managedFields. Any status
+ * write (network, commit history) moves it, so it is not the phase start;
+ * undefined once the manifest has been cleaned.
+ */
+export function lastStatusUpdate(manifest: any): string | undefined {
+  const times: string[] = (manifest?.metadata?.managedFields || [])
+    .filter((f: any) => f.subresource === 'status' && f.time)
+    .map((f: any) => new Date(f.time).toISOString());
+  return times.sort().pop();
+}
+
+/**
+ * Start of the current phase: the latest status.conditions lastTransitionTime when
+ * the devbox reports conditions, else the last status write (a lower bound only).
+ */
+export function phaseSince(manifest: any): DevboxPhaseSince | undefined {
+  const transitions: string[] = (manifest?.status?.conditions || [])
+    .filter((c: any) => c?.lastTransitionTime)
+    .map((c: any) => new Date(c.lastTransitionTime).toISOString());
+  const transition = transitions.sort().pop();
+  if (transition) return { since: transition, sinceSource: 'phase-transition' };
+
+  const updated = lastStatusUpdate(manifest);
+  return updated ? { since: updated, sinceSource: 'status-update' } : undefined;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h${minutes % 60}m` : `${Math.floor(hours / 24)}d${hours % 24}h`;
+}
+
+/**
+ * Classify a devbox by desired state (spec.state) vs actual phase (status.phase):
+ * Healthy, Transitional, Stuck or FakeStopped.
+ */
+export function classifyDevboxState(manifest: any, phase?: DevboxPhaseSince, now: number = Date.now()): DevboxState {
+  const desired: string = manifest?.spec?.state || 'Unknown';
+  const actual: string = manifest?.status?.phase || 'Unknown';
+  const state = { desired, actual, ...phase };
+  const elapsedMs = phase ? now - new Date(phase.since).getTime() : undefined;
+
+  if (desired === 'Running' && DEVBOX_TERMINAL_STATES.has(actual)) {
+    return { ...state, health: 'FakeStopped', reason: `spec.state is Running but status.phase is ${actual}; the pod likely exited` };
+  }
+  if (DEVBOX_FAILED_PHASES.has(actual)) {
+    return { ...state, health: 'Stuck', reason: `status.phase is ${actual}` };
+  }
+  if (desired === actual || (DEVBOX_TERMINAL_STATES.has(desired) && DEVBOX_TERMINAL_STATES.has(actual))) {
+    return { ...state, health: 'Healthy', reason: desired === 'Running' ? 'Running as requested' : 'Stopped as requested' };
+  }
+
+  const transition = DEVBOX_TRANSITIONAL_PHASES.has(actual)
+    ? `status.phase is ${actual}`
+    : `status.phase ${actual} does not match spec.state ${desired}`;
+  // The last status write is a lower bound of the time in phase: past the limit it is stuck
+  // for sure, but unrelated status writes can keep a stuck devbox below it
+  if (elapsedMs !== undefined && elapsedMs > DEVBOX_STUCK_AFTER_MS) {
+    const duration = phase?.sinceSource === 'phase-transition'
+      ? `for ${formatDuration(elapsedMs)}`
+      : `with no status update for ${formatDuration(elapsedMs)}`;
+    return { ...state, health: 'Stuck', reason: `${transition} ${duration}` };
+  }
+  return { ...state, health: 'Transitional', reason: `${transition} (moving towards ${desired})` };
+}
+
+/**
+ * Sort order for devbox lists: broken ones first, then by name
+ */
+export function compareDevboxHealth(a: { name: string; state: DevboxState }, b: { name: string; state: DevboxState }): number {
+  return HEALTH_SEVERITY[a.state.health] - HEALTH_SEVERITY[b.state.health] || a.name.localeCompare(b.name);
+}
+
+// Commits that did not (yet) produce a usable image
+const FLAGGED_COMMIT_STATUSES = new Set(['Failed', 'Pending', 'Unknown']);
+
+/**
+ * List the pods of one devbox by its part-of/name labels
+ */
+export async function listDevboxPods(kubernetesClient: KubernetesClient, namespace: string, name: string): Promise<k8s.V1Pod[]> {
+  const k8sApi = kubernetesClient.getApiClient();
+  const podList = await withRetry(() => k8sApi.listNamespacedPod(
+    namespace,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    devboxPodSelector(name)
+  ));
+  return podList.body.items;
+}
+
+/**
+ * Registries may be implied (docker.io/library/...), so compare loosely
+ */
+function sameImage(a?: string, b?: string): boolean {
+  if (!a || !b) return false;
+  return a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+}
+
+/**
+ * Image of the newest running devbox pod, if any
+ */
+function runningImageOf(pods: k8s.V1Pod[]): string | undefined {
+  const running = pods
+    .filter(pod => pod.status?.phase === 'Running' && !pod.metadata?.deletionTimestamp)
+    .sort((a, b) => new Date(b.metadata?.creationTimestamp || 0).getTime() - new Date(a.metadata?.creationTimestamp || 0).getTime());
+  const pod = running[0];
+  return pod?.status?.containerStatuses?.[0]?.image || pod?.spec?.containers?.[0]?.image;
+}
+
+/**
+ * Build the commit/image history of a devbox from .status.commitHistory, newest
+ * first, marking failed or pending commits and the image running now.
+ */
+export function buildDevboxHistory(manifest: any, pods: k8s.V1Pod[] = []): DevboxHistory {
+  const specImage: string | undefined = manifest?.spec?.image;
+  const runningImage = runningImageOf(pods);
+  const currentImage = runningImage || specImage;
+
+  const commits: DevboxCommit[] = (manifest?.status?.commitHistory || [])
+    .filter((entry: any) => entry)
+    .map((entry: any) => {
+      const status = entry.status || 'Unknown';
+      return {
+        image: entry.image || '-',
+        time: entry.time,
+        pod: entry.pod,
+        node: entry.node,
+        status,
+        predicatedStatus: entry.predicatedStatus,
+        current: false,
+        flagged: FLAGGED_COMMIT_STATUSES.has(status),
+      };
+    })
+    .sort((a: DevboxCommit, b: DevboxCommit) => new Date(b.time || 0).getTime() - new Date(a.time || 0).getTime());
+
+  const current = commits.find(c => sameImage(c.image, currentImage));
+  if (current) current.current = true;
+  const lastSuccessful = commits.find(c => c.status === 'Success')?.image;
+
+  const history: DevboxHistory = {
+    commits,
+    ...(specImage && { specImage }),
+    ...(runningImage && { runningImage }),
+    ...(lastSuccessful && { lastSuccessful }),
+  };
+
+  if (commits.length === 0) {
+    history.message = 'No commits recorded in status.commitHistory';
+  } else if (commits[0].flagged) {
+    history.message = `Latest commit is ${commits[0].status}: ${commits[0].image}`;
+  } else if (runningImage && specImage && !sameImage(runningImage, specImage)) {
+    history.message = 'Running image differs from spec.image (rollout pending or stuck)';
+  }
+
+  return history;
+}
@@ -0,0 +1,199 @@
+import { KubernetesError, KubernetesErrorCode } from './types';
+
+// Remediation hint per stable error code
+const ERROR_HINTS: Record<KubernetesErrorCode, string> = {
+  NotFound: 'Check the resource name, namespace and zone.',
+  CrdNotInstalled: 'This resource type is not installed in the target cluster. Check the zone, or whether the Sealos component is deployed there.',
+  Forbidden: 'The kubeconfig user lacks RBAC permission for this operation. Use a kubeconfig bound to this namespace.',
+  Unauthorized: 'The kubeconfig credentials are invalid or expired. Download a fresh kubeconfig for this zone.',
+  Timeout: 'The API server did not answer in time. Retry later, or check cluster load and network latency.',
+  ConnectionRefused: 'The API server is unreachable. Check the server address in the kubeconfig and your network/VPN.',
+  RateLimited: 'The API server is throttling requests. Wait a moment and retry.',
+  ServerError: 'The API server returned an internal error. Retry later.',
+  InvalidArguments: 'Fix the listed arguments and retry.',
+  UnknownZone: 'Use one of the configured zones.',
+  WriteNotAllowed: 'Write actions are disabled for this namespace. Add it to writableNamespaces of the zone in kubeconfig/zones.json.',
+  ConfirmationRequired: 'Run the action without confirm first to get a dry-run preview and a confirmation token, then confirm within 5 minutes.',
+  Unknown: 'Check the server log for the full error.',
+};
+
+// Codes worth retrying: the same request may succeed a moment later
+const TRANSIENT_CODES = new Set<KubernetesErrorCode>(['Timeout', 'ConnectionRefused', 'RateLimited', 'ServerError']);
+
+const TIMEOUT_ERRNOS = new Set(['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNABORTED']);
+const CONNECTION_ERRNOS = new Set(['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Thrown by the zone registry for zones that are not configured
+ */
+export class UnknownZoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownZoneError';
+  }
+}
+
+/**
+ * Parse the Status body of a Kubernetes HttpError
+ */
+function parseStatusBody(error: any): { code?: number; reason?: string; message?: string; details?: any } {
+  const statusCode = error.statusCode || error.response?.statusCode;
+
+  try {
+    const body = typeof error.body === 'string' ? JSON.parse(error.body) : error.body;
+    if (body && typeof body === 'object') {
+      return {
+        code: body.code || statusCode,
+        reason: body.reason,
+        message: body.message || JSON.stringify(body),
+        details: body.details,
+      };
+    }
+  } catch (parseError) {
+    // Plain-text body, fall through
+  }
+
+  return {
+    code: statusCode,
+    message: typeof error.body === 'string' && error.body ? error.body : error.message,
+  };
+}
+
+/**
+ * Map an HTTP status (and the API reason/message) to a stable error code
+ */
+function classifyStatus(code: number | undefined, reason?: string, message?: string): KubernetesErrorCode {
+  switch (code) {
+    case 401:
+      return 'Unauthorized';
+    case 403:
+      return 'Forbidden';
+    case 404:
+      // A missing CRD has no name in details; the API server answers with a generic 404
+      return /could not find the requested resource/i.test(message || '') ? 'CrdNotInstalled' : 'NotFound';
+    case 408:
+    case 504:
+      return 'Timeout';
+    case 429:
+      return 'RateLimited';
+    case 500:
+    case 502:
+    case 503:
+      return reason === 'Timeout' ? 'Timeout' : 'ServerError';
+    default:
+      return reason === 'Timeout' ? 'Timeout' : 'Unknown';
+  }
+}
+
+/**
+ * Map a network-level error (no HTTP response) to a stable error code
+ */
+function classifyNetworkError(error: any): KubernetesErrorCode {
+  const errno: string | undefined = error?.code || error?.cause?.code;
+  const message: string = error?.message || '';
+
+  if ((errno && TIMEOUT_ERRNOS.has(errno)) || /timed? ?out/i.test(message)) {
+    return 'Timeout';
+  }
+  if ((errno && CONNECTION_ERRNOS.has(errno)) || /ECONNREFUSED|ECONNRESET|socket hang up/i.test(message)) {
+    return 'ConnectionRefused';
+  }
+  return 'Unknown';
+}
+
+/**
+ * Build a KubernetesError from a stable code, filling in the hint
+ */
+export function createKubernetesError(errorCode: KubernetesErrorCode, message: string, extra: Partial<KubernetesError> = {}): KubernetesError {
+  return {
+    ...extra,
+    message,
+    errorCode,
+    hint: extra.hint ?? ERROR_HINTS[errorCode],
+    retryable: TRANSIENT_CODES.has(errorCode),
+  };
+}
+
+/**
+ * True for a ready-made KubernetesError (from createKubernetesError), as opposed
+ * to a raw client or network error that still needs extractKubernetesError
+ */
+export function isKubernetesError(error: unknown): error is KubernetesError {
+  return typeof error === 'object' && error !== null && typeof (error as KubernetesError).errorCode === 'string'
+    && typeof (error as KubernetesError).message === 'string';
+}
+
+/**
+ * Classify any error thrown by the Kubernetes client (or the zone registry)
+ * into the shared KubernetesError shape used by every tool response.
+ */
+export function extractKubernetesError(error: any): KubernetesError {
+  if (error instanceof UnknownZoneError) {
+    return createKubernetesError('UnknownZone', error.message, { code: 400, reason: 'UnknownZone' });
+  }
+
+  // Kubernetes HttpError: the API server answered with a Status object
+  if (error && error.response && error.body !== undefined) {
+    const status = parseStatusBody(error);
+    const errorCode = classifyStatus(status.code, status.reason, status.message);
+    return createKubernetesError(errorCode, status.message || 'Unknown Kubernetes error', {
+      code: status.code,
+      reason: status.reason,
+      details: status.details,
+    });
+  }
+
+  const errorCode = classifyNetworkError(error);
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+  return createKubernetesError(errorCode, message, errorCode === 'Unknown' ? {} : { reason: errorCode });
+}
+
+/**
+ * Compact form for server logs (no stack traces or response objects)
+ */
+export function summarizeKubernetesError(k8sError: KubernetesError) {
+  return {
+    errorCode: k8sError.errorCode,
+    code: k8sError.code,
+    reason: k8sError.reason,
+    message: k8sError.message,
+  };
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  label?: string;
+}
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 300;
+const DEFAULT_MAX_DELAY_MS = 2000;
+
+/**
+ * Run a Kubernetes API call, retrying transient failures (timeouts, refused
+ * connections, 429 and 5xx) with exponential backoff and jitter. Permanent
+ * failures such as NotFound or Forbidden are rethrown immediately.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const attempts = options.attempts ?? DEFAULT_RETRY_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const k8sError = extractKubernetesError(error);
+      if (!k8sError.retryable || attempt >= attempts) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+      console.error(`[Server] ${options.label || 'Kubernetes call'} failed with ${k8sError.errorCode} (attempt ${attempt}/${attempts}), retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,120 @@
+// Guarded write actions: namespace allowlist per zone, server-side dry run first,
+// then a one-time confirmation token that must be passed back to apply the change
+import * as crypto from 'crypto';
+import { WriteActionResponse } from './types';
+import { DEFAULT_ZONE, zoneRegistry } from './zone-registry';
+import { createKubernetesError, extractKubernetesError, isKubernetesError, summarizeKubernetesError, withRetry } from './errors';
+
+// A dry-run preview can be confirmed for this long
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// token -> action key and expiry; tokens are single use
+const pendingConfirmations = new Map<string, { key: string; expiresAt: number }>();
+
+export interface GuardedAction {
+  tool: string;
+  action: string;                       // e.g. "restart pod"
+  zone?: string;
+  namespace: string;
+  target: string;                       // Kind/name
+  params?: Record<string, unknown>;     // everything else the token is bound to, e.g. the desired state
+  // Read the current object and describe the change; throw to abort
+  preview: () => Promise<{ lines: string[]; warnings?: string[] }>;
+  // Issue the API call through applyWrite (dryRun: server-side dry run); returns what was done
+  apply: (dryRun: boolean) => Promise<string[]>;
+}
+
+/**
+ * Issue the write call of an action. Dry runs are retried like reads; a confirmed
+ * write runs exactly once, since a retry after a lost response would repeat it
+ * (a second OpsRequest) or fail on its own effect (NotFound for a deleted pod).
+ */
+export function applyWrite<T>(dryRun: boolean, operation: () => Promise<T>): Promise<T> {
+  return dryRun ? withRetry(operation) : operation();
+}
+
+/**
+ * Identity of an action: a token only confirms exactly what was previewed
+ */
+function actionKey(action: GuardedAction, zone: string): string {
+  return JSON.stringify([action.tool, zone, action.namespace, action.target, action.params || {}]);
+}
+
+function issueConfirmation(key: string, now: number = Date.now()): { token: string; expiresAt: number } {
+  // Drop expired tokens so abandoned previews do not pile up
+  pendingConfirmations.forEach((entry, token) => {
+    if (entry.expiresAt <= now) pendingConfirmations.delete(token);
+  });
+
+  const token = crypto.randomBytes(12).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(token, { key, expiresAt });
+  return { token, expiresAt };
+}
+
+function consumeConfirmation(token: string | undefined, key: string, now: number = Date.now()): boolean {
+  const entry = token ? pendingConfirmations.get(token) : undefined;
+  if (!entry || entry.key !== key) return false;
+  pendingConfirmations.delete(token!);
+  return entry.expiresAt > now;
+}
+
+/**
+ * Run a write action behind the allowlist and the dry-run/confirm handshake.
+ *
+ * Without confirm: preview + server-side dry run, returns a confirmationToken.
+ * With confirm and a matching, unexpired token: applies the change for real.
+ */
+export async function runGuardedAction(action: GuardedAction, confirm: boolean, confirmationToken?: string): Promise<WriteActionResponse> {
+  const zone = (action.zone || DEFAULT_ZONE).toLowerCase();
+  const response: WriteActionResponse = {
+    action: action.action,
+    zone,
+    namespace: action.namespace,
+    target: action.target,
+    dryRun: !confirm,
+    preview: [],
+    success: true,
+  };
+
+  if (!zoneRegistry.isNamespaceWritable(zone, action.namespace)) {
+    const error = createKubernetesError('WriteNotAllowed', `Write actions are not allowed in namespace ${action.namespace} (zone ${zone})`, { code: 403 });
+    console.error(`[Server] Refused ${action.action} ${action.target}:`, summarizeKubernetesError(error));
+    return { ...response, error, success: false };
+  }
+
+  const key = actionKey(action, zone);
+  if (confirm && !consumeConfirmation(confirmationToken, key)) {
+    const error = createKubernetesError('ConfirmationRequired',
+      confirmationToken ? 'Confirmation token is invalid, expired or was issued for a different action' : 'confirm=true requires the confirmationToken of a dry run', { code: 400 });
+    return { ...response, error, success: false };
+  }
+
+  try {
+    const preview = await action.preview();
+    response.preview = preview.lines;
+    if (preview.warnings && preview.warnings.length > 0) {
+      response.warnings = preview.warnings;
+    }
+
+    const result = await action.apply(!confirm);
+    if (confirm) {
+      response.result = result;
+    } else {
+      // The API server accepted the dry run: the real call should succeed too
+      const { token, expiresAt } = issueConfirmation(key);
+      response.confirmationToken = token;
+      response.expiresAt = new Date(expiresAt).toISOString();
+    }
+
+    return response;
+  } catch (error) {
+    // Extract meaningful error information (previews may throw a ready-made KubernetesError)
+    const k8sError = isKubernetesError(error) ? error : extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error running ${action.action} ${action.target} in namespace ${action.namespace}${confirm ? '' : ' (dry run)'}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, error: k8sError, success: false };
+  }
+}
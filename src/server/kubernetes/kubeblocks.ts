@@ -0,0 +1,121 @@
+import * as k8s from '@kubernetes/client-node';
+import { KubernetesClient } from './client';
+import { withRetry } from './errors';
+import { ClusterMember, ClusterTopology } from './types';
+
+// KubeBlocks labels (see sealos-CRD.md)
+export const INSTANCE_LABEL = 'app.kubernetes.io/instance';
+export const COMPONENT_LABEL = 'apps.kubeblocks.io/component-name';
+export const ROLE_LABEL = 'kubeblocks.io/role';
+const MANAGED_BY_SELECTOR = 'app.kubernetes.io/managed-by=kubeblocks';
+
+// primary for PostgreSQL/MongoDB/Redis, leader for MySQL
+const PRIMARY_ROLES = new Set(['primary', 'leader']);
+
+// Engines that always elect a primary/leader; others may carry no role labels at all
+const REPLICATED_ENGINES = /postgres|mysql|redis|mongo/i;
+
+/**
+ * Summarize a member pod: role, readiness and restarts
+ */
+function toMember(pod: k8s.V1Pod): ClusterMember {
+  const containerStatuses = pod.status?.containerStatuses || [];
+  const readyCount = containerStatuses.filter(c => c.ready).length;
+  const totalCount = pod.spec?.containers?.length || containerStatuses.length;
+  const labels = pod.metadata?.labels || {};
+
+  return {
+    name: pod.metadata?.name || 'unknown',
+    component: labels[COMPONENT_LABEL],
+    role: labels[ROLE_LABEL],
+    status: pod.metadata?.deletionTimestamp ? 'Terminating' : (pod.status?.phase || 'Unknown'),
+    ready: `${readyCount}/${totalCount}`,
+    isReady: totalCount > 0 && readyCount === totalCount,
+    restarts: containerStatuses.reduce((sum, c) => sum + (c.restartCount || 0), 0),
+  };
+}
+
+/**
+ * Build the role topology of one cluster and flag missing or duplicate primaries.
+ * Both checks run per component (apps.kubeblocks.io/component-name): each component
+ * that reports roles needs exactly one primary, whatever the other components hold.
+ */
+export function buildClusterTopology(pods: k8s.V1Pod[], clusterDefinitionRef: string = ''): ClusterTopology {
+  const members = pods.map(toMember).sort((a, b) => a.name.localeCompare(b.name));
+  const primaries = members.filter(m => m.role && PRIMARY_ROLES.has(m.role)).map(m => m.name);
+
+  if (members.length === 0) {
+    return { members, primaries, roleCheck: 'NoPods', message: 'No member pods found' };
+  }
+
+  const byComponent = new Map<string, ClusterMember[]>();
+  members.forEach(m => {
+    const component = m.component || '-';
+    byComponent.set(component, [...(byComponent.get(component) || []), m]);
+  });
+  const componentPrimaries = (group: ClusterMember[]) => group.filter(m => m.role && PRIMARY_ROLES.has(m.role)).map(m => m.name);
+  const label = (component: string) => byComponent.size > 1 ? ` in component ${component}` : '';
+
+  const duplicated = Array.from(byComponent.entries()).filter(([, group]) => componentPrimaries(group).length > 1);
+  if (duplicated.length > 0) {
+    return {
+      members,
+      primaries,
+      roleCheck: 'MultiplePrimaries',
+      message: duplicated.map(([component, group]) => `More than one primary${label(component)}: ${componentPrimaries(group).join(', ')}`).join('; ') + ' (possible split-brain)',
+    };
+  }
+
+  // Components that report roles but have no primary; without any role labels only
+  // engines that always elect one are flagged
+  const hasRoles = members.some(m => m.role);
+  const missing = Array.from(byComponent.entries()).filter(([, group]) => componentPrimaries(group).length === 0
+    && (group.some(m => m.role) || (!hasRoles && REPLICATED_ENGINES.test(clusterDefinitionRef))));
+  if (missing.length > 0) {
+    return {
+      members,
+      primaries,
+      roleCheck: 'NoPrimary',
+      message: byComponent.size > 1
+        ? `No pod holds the primary/leader role in component(s): ${missing.map(([component]) => component).join(', ')}`
+        : 'No pod holds the primary/leader role',
+    };
+  }
+
+  if (!hasRoles) {
+    return { members, primaries, roleCheck: 'NoRoles', message: 'Engine does not report kubeblocks.io/role labels' };
+  }
+
+  return { members, primaries, roleCheck: 'OK' };
+}
+
+/**
+ * List KubeBlocks member pods in a namespace, grouped by cluster (instance label).
+ * Pass a cluster name to fetch only that cluster's pods.
+ */
+export async function listClusterPods(
+  kubernetesClient: KubernetesClient,
+  namespace: string,
+  clusterName?: string
+): Promise<Map<string, k8s.V1Pod[]>> {
+  const labelSelector = clusterName ? `${INSTANCE_LABEL}=${clusterName}` : MANAGED_BY_SELECTOR;
+  const k8sApi = kubernetesClient.getApiClient();
+  const podList = await withRetry(() => k8sApi.listNamespacedPod(
+    namespace,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    labelSelector
+  ));
+
+  const byCluster = new Map<string, k8s.V1Pod[]>();
+  podList.body.items.forEach(pod => {
+    const instance = pod.metadata?.labels?.[INSTANCE_LABEL];
+    if (!instance) return;
+    const pods = byCluster.get(instance) || [];
+    pods.push(pod);
+    byCluster.set(instance, pods);
+  });
+  return byCluster;
+}
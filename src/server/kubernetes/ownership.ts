@@ -0,0 +1,290 @@
+import * as k8s from '@kubernetes/client-node';
+import { KubernetesClient } from './client';
+import { withRetry } from './errors';
+import { classifyDevboxState, isDevboxPod } from './devbox';
+import { CRASH_REASONS } from './pods';
+import { ResourceBadge, ResourceTreeNode } from './types';
+
+export type ParentResource = 'devbox' | 'cluster';
+export type MatchRule = 'label' | 'ownerReference' | 'name-prefix';
+
+// Parent CRDs (same group/version as inspect_resource)
+const PARENT_CRDS: Record<ParentResource, { group: string; version: string; plural: string }> = {
+  devbox: { group: 'devbox.sealos.io', version: 'v1alpha2', plural: 'devboxes' },
+  cluster: { group: 'apps.kubeblocks.io', version: 'v1alpha1', plural: 'clusters' },
+};
+
+const CLUSTER_FAILED_PHASES = new Set(['Failed', 'Abnormal']);
+
+/**
+ * Source-level label rules (dev_agent_workflow.md, Step 2):
+ * devbox = the devbox pod labels (see isDevboxPod),
+ * cluster = component-name present + instance=<name>
+ */
+export function matchesParentLabels(labels: Record<string, string> | undefined, resource: ParentResource, name: string): boolean {
+  const l = labels || {};
+  if (resource === 'devbox') {
+    return isDevboxPod(l, name);
+  }
+  return l['apps.kubeblocks.io/component-name'] !== undefined &&
+    l['app.kubernetes.io/instance'] === name;
+}
+
+/**
+ * Services and PVCs may carry only the instance/name label, without the component marker
+ */
+function matchesLooseLabels(labels: Record<string, string> | undefined, resource: ParentResource, name: string): boolean {
+  const l = labels || {};
+  return resource === 'devbox' ? l['app.kubernetes.io/name'] === name : l['app.kubernetes.io/instance'] === name;
+}
+
+function isOwnedBy(metadata: k8s.V1ObjectMeta | undefined, uids: Set<string>): boolean {
+  return (metadata?.ownerReferences || []).some(ref => uids.has(ref.uid));
+}
+
+/**
+ * Generated children are named "<parent>-...": "api" must not pick up "apiserver"'s
+ * objects by a bare prefix, so only the exact name or "<name>-" counts
+ */
+function isNamedAfter(childName: string, parentName: string): boolean {
+  return childName === parentName || childName.startsWith(`${parentName}-`);
+}
+
+/**
+ * Pick related objects: labels first, then ownerReferences, then a name prefix
+ */
+function selectRelated<T extends { metadata?: k8s.V1ObjectMeta }>(
+  items: T[],
+  resource: ParentResource,
+  name: string,
+  ownerUids: Set<string>,
+  loose: boolean = false
+): { items: T[]; rule?: MatchRule } {
+  const byLabel = items.filter(item => matchesParentLabels(item.metadata?.labels, resource, name) ||
+    (loose && matchesLooseLabels(item.metadata?.labels, resource, name)));
+  if (byLabel.length > 0) return { items: byLabel, rule: 'label' };
+
+  const byOwner = items.filter(item => isOwnedBy(item.metadata, ownerUids));
+  if (byOwner.length > 0) return { items: byOwner, rule: 'ownerReference' };
+
+  const byPrefix = items.filter(item => isNamedAfter(item.metadata?.name || '', name));
+  return byPrefix.length > 0 ? { items: byPrefix, rule: 'name-prefix' } : { items: [] };
+}
+
+function node(kind: string, name: string, status: string, badge: ResourceBadge, detail?: string): ResourceTreeNode {
+  return { kind, name, status, badge, ...(detail && { detail }), children: [] };
+}
+
+function parentNode(resource: ParentResource, manifest: any): ResourceTreeNode {
+  const name = manifest.metadata?.name || 'unknown';
+  if (resource === 'devbox') {
+    const state = classifyDevboxState(manifest);
+    const badge: ResourceBadge = state.health === 'Healthy' ? 'OK' : state.health === 'Transitional' ? 'Warning' : 'Error';
+    return node('Devbox', name, state.actual, badge, `desired ${state.desired}: ${state.reason}`);
+  }
+  const phase = manifest.status?.phase || 'Unknown';
+  const badge: ResourceBadge = phase === 'Running' ? 'OK' : CLUSTER_FAILED_PHASES.has(phase) ? 'Error' : phase === 'Unknown' ? 'Unknown' : 'Warning';
+  return node('Cluster', name, phase, badge, manifest.spec?.clusterDefinitionRef);
+}
+
+function workloadNode(kind: string, name: string, desired: number, ready: number): ResourceTreeNode {
+  const badge: ResourceBadge = desired === 0 ? 'Warning' : ready >= desired ? 'OK' : 'Warning';
+  return node(kind, name, `${ready}/${desired} ready`, badge, desired === 0 ? 'scaled to 0' : undefined);
+}
+
+function podNode(pod: k8s.V1Pod): ResourceTreeNode {
+  const statuses = pod.status?.containerStatuses || [];
+  const readyCount = statuses.filter(c => c.ready).length;
+  const total = pod.spec?.containers?.length || statuses.length;
+  const restarts = statuses.reduce((sum, c) => sum + (c.restartCount || 0), 0);
+  const reason = statuses
+    .map(c => c.state?.waiting?.reason || c.state?.terminated?.reason || c.lastState?.terminated?.reason)
+    .find(r => r && CRASH_REASONS.has(r));
+  const phase = pod.metadata?.deletionTimestamp ? 'Terminating' : (pod.status?.phase || 'Unknown');
+
+  let badge: ResourceBadge = 'OK';
+  if (phase === 'Failed' || reason) badge = 'Error';
+  else if (phase === 'Unknown') badge = 'Unknown';
+  else if (phase !== 'Succeeded' && (phase !== 'Running' || readyCount < total)) badge = 'Warning';
+
+  const detail = `ready ${readyCount}/${total}, restarts ${restarts}`;
+  return node('Pod', pod.metadata?.name || 'unknown', reason || phase, badge, detail);
+}
+
+function pvcNode(pvc: k8s.V1PersistentVolumeClaim): ResourceTreeNode {
+  const phase = pvc.status?.phase || 'Unknown';
+  const badge: ResourceBadge = phase === 'Bound' ? 'OK' : phase === 'Lost' ? 'Error' : 'Warning';
+  return node('PVC', pvc.metadata?.name || 'unknown', phase, badge, pvc.spec?.resources?.requests?.storage);
+}
+
+function selectsPod(service: k8s.V1Service, pod: k8s.V1Pod): boolean {
+  const selector = service.spec?.selector;
+  if (!selector || Object.keys(selector).length === 0) return false;
+  const labels = pod.metadata?.labels || {};
+  return Object.entries(selector).every(([key, value]) => labels[key] === value);
+}
+
+function serviceNode(service: k8s.V1Service, selectedPods: number): ResourceTreeNode {
+  const ports = (service.spec?.ports || []).map(p => (p.nodePort ? `${p.port}:${p.nodePort}` : `${p.port}`)).join(',');
+  const badge: ResourceBadge = service.spec?.selector && selectedPods === 0 ? 'Warning' : 'OK';
+  const detail = [`ports ${ports || '-'}`, badge === 'Warning' ? 'selects no pods' : undefined].filter(Boolean).join(', ');
+  return node('Service', service.metadata?.name || 'unknown', service.spec?.type || 'ClusterIP', badge, detail);
+}
+
+function ingressBackends(ingress: k8s.V1Ingress): string[] {
+  const names = (ingress.spec?.rules || []).flatMap(rule =>
+    (rule.http?.paths || []).map(path => path.backend?.service?.name).filter((n): n is string => !!n));
+  if (ingress.spec?.defaultBackend?.service?.name) names.push(ingress.spec.defaultBackend.service.name);
+  return names;
+}
+
+function ingressNode(ingress: k8s.V1Ingress): ResourceTreeNode {
+  const hosts = (ingress.spec?.rules || []).map(r => r.host).filter(Boolean).join(', ');
+  const address = ingress.status?.loadBalancer?.ingress?.[0];
+  const badge: ResourceBadge = address ? 'OK' : 'Warning';
+  return node('Ingress', ingress.metadata?.name || 'unknown', address ? 'Ready' : 'NoAddress', badge, hosts || undefined);
+}
+
+/**
+ * Count Warning events per "Kind/name" and raise node badges accordingly
+ */
+function applyEvents(root: ResourceTreeNode, events: k8s.CoreV1Event[]): void {
+  const warnings = new Map<string, number>();
+  events.filter(e => e.type === 'Warning').forEach(e => {
+    const key = `${e.involvedObject?.kind}/${e.involvedObject?.name}`;
+    warnings.set(key, (warnings.get(key) || 0) + (e.count || 1));
+  });
+
+  const kindAliases: Record<string, string> = { PVC: 'PersistentVolumeClaim' };
+  const visit = (n: ResourceTreeNode) => {
+    const count = warnings.get(`${kindAliases[n.kind] || n.kind}/${n.name}`);
+    if (count) {
+      n.warningEvents = count;
+      if (n.badge === 'OK') n.badge = 'Warning';
+    }
+    n.children.forEach(visit);
+  };
+  visit(root);
+}
+
+export interface ResourceTree {
+  root: ResourceTreeNode;
+  matchedBy?: MatchRule;
+  counts: Record<string, number>;
+}
+
+/**
+ * Build the ownership graph of a devbox or cluster:
+ * parent -> StatefulSet/Deployment -> Pod -> PVC, and parent -> Service -> Ingress.
+ * Pods are tied to the parent by label rules, then ownerReferences, then name prefix.
+ */
+export async function buildResourceTree(
+  kubernetesClient: KubernetesClient,
+  resource: ParentResource,
+  name: string,
+  namespace: string
+): Promise<ResourceTree> {
+  const crd = PARENT_CRDS[resource];
+  const coreApi = kubernetesClient.getApiClient();
+  const appsApi = kubernetesClient.getAppsV1Api();
+
+  const parent = await withRetry(() => kubernetesClient.getCustomObjectsApi().getNamespacedCustomObject(
+    crd.group, crd.version, namespace, crd.plural, name
+  ));
+  const manifest = parent.body as any;
+
+  const [statefulSets, deployments, replicaSets, pods, pvcs, services, ingresses, events] = await Promise.all([
+    withRetry(() => appsApi.listNamespacedStatefulSet(namespace)).then(r => r.body.items),
+    withRetry(() => appsApi.listNamespacedDeployment(namespace)).then(r => r.body.items),
+    withRetry(() => appsApi.listNamespacedReplicaSet(namespace)).then(r => r.body.items),
+    withRetry(() => coreApi.listNamespacedPod(namespace)).then(r => r.body.items),
+    withRetry(() => coreApi.listNamespacedPersistentVolumeClaim(namespace)).then(r => r.body.items),
+    withRetry(() => coreApi.listNamespacedService(namespace)).then(r => r.body.items),
+    withRetry(() => kubernetesClient.getNetworkingV1Api().listNamespacedIngress(namespace)).then(r => r.body.items),
+    withRetry(() => coreApi.listNamespacedEvent(namespace)).then(r => r.body.items),
+  ]);
+
+  const root = parentNode(resource, manifest);
+  const parentUids = new Set<string>([manifest.metadata?.uid].filter(Boolean));
+
+  // 1. Workloads: KubeBlocks runs StatefulSets, Deployments are matched the same way
+  const relatedSts = selectRelated(statefulSets, resource, name, parentUids, true).items;
+  const relatedDeploy = selectRelated(deployments, resource, name, parentUids, true).items;
+  const workloadUids = new Set<string>(parentUids);
+  const workloadNodes = new Map<string, ResourceTreeNode>();
+
+  relatedSts.forEach(sts => {
+    const n = workloadNode('StatefulSet', sts.metadata?.name || 'unknown', sts.spec?.replicas ?? 0, sts.status?.readyReplicas || 0);
+    root.children.push(n);
+    if (sts.metadata?.uid) {
+      workloadUids.add(sts.metadata.uid);
+      workloadNodes.set(sts.metadata.uid, n);
+    }
+  });
+  relatedDeploy.forEach(deploy => {
+    const n = workloadNode('Deployment', deploy.metadata?.name || 'unknown', deploy.spec?.replicas ?? 0, deploy.status?.availableReplicas || 0);
+    root.children.push(n);
+    // Pods of a Deployment are owned by its ReplicaSets
+    replicaSets.filter(rs => isOwnedBy(rs.metadata, new Set([deploy.metadata?.uid || '']))).forEach(rs => {
+      if (rs.metadata?.uid) {
+        workloadUids.add(rs.metadata.uid);
+        workloadNodes.set(rs.metadata.uid, n);
+      }
+    });
+  });
+
+  // 2. Pods, under the workload that owns them
+  const podMatch = selectRelated(pods, resource, name, workloadUids);
+  const relatedPods = podMatch.items;
+  const attachedPvcs = new Set<string>();
+
+  relatedPods
+    .sort((a, b) => (a.metadata?.name || '').localeCompare(b.metadata?.name || ''))
+    .forEach(pod => {
+      const n = podNode(pod);
+      const ownerUid = (pod.metadata?.ownerReferences || []).map(ref => ref.uid).find(uid => workloadNodes.has(uid));
+      (ownerUid ? workloadNodes.get(ownerUid)! : root).children.push(n);
+
+      // 3. PVCs mounted by the pod
+      (pod.spec?.volumes || []).forEach(volume => {
+        const claimName = volume.persistentVolumeClaim?.claimName;
+        const pvc = claimName && pvcs.find(p => p.metadata?.name === claimName);
+        if (pvc) {
+          n.children.push(pvcNode(pvc));
+          attachedPvcs.add(claimName);
+        }
+      });
+    });
+
+  // Labelled PVCs that no pod mounts (e.g. the devbox is stopped)
+  selectRelated(pvcs, resource, name, workloadUids, true).items
+    .filter(pvc => !attachedPvcs.has(pvc.metadata?.name || ''))
+    .forEach(pvc => root.children.push(pvcNode(pvc)));
+
+  // 4. Services selecting the pods (or labelled for the parent), with the Ingresses routing to them
+  const relatedServices = services.filter(svc =>
+    relatedPods.some(pod => selectsPod(svc, pod)) ||
+    matchesParentLabels(svc.metadata?.labels, resource, name) ||
+    matchesLooseLabels(svc.metadata?.labels, resource, name) ||
+    isOwnedBy(svc.metadata, parentUids));
+
+  relatedServices.forEach(svc => {
+    const n = serviceNode(svc, relatedPods.filter(pod => selectsPod(svc, pod)).length);
+    ingresses
+      .filter(ing => ingressBackends(ing).includes(svc.metadata?.name || ''))
+      .forEach(ing => n.children.push(ingressNode(ing)));
+    root.children.push(n);
+  });
+
+  // 5. Warning events raise badges
+  applyEvents(root, events);
+
+  const counts: Record<string, number> = {};
+  const count = (n: ResourceTreeNode) => {
+    counts[n.kind] = (counts[n.kind] || 0) + 1;
+    n.children.forEach(count);
+  };
+  count(root);
+
+  return { root, matchedBy: podMatch.rule, counts };
+}
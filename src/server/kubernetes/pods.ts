@@ -0,0 +1,147 @@
+import * as k8s from '@kubernetes/client-node';
+import { ContainerStateInfo, PodInfo, SuspectBucket, SuspectPod } from './types';
+
+// Container reasons that mean the pod is crashing or cannot start
+export const CRASH_REASONS = new Set([
+  'CrashLoopBackOff', 'ImagePullBackOff', 'ErrImagePull', 'InvalidImageName',
+  'CreateContainerConfigError', 'CreateContainerError', 'RunContainerError', 'OOMKilled', 'Error',
+]);
+
+// Workflow priority (dev_agent_workflow.md, Step 2): Crash > Pending > Restarts > Youngest
+const BUCKET_SCORES: Record<SuspectBucket, number> = {
+  Crash: 1000,
+  Pending: 500,
+  Restarts: 200,
+  NotReady: 100,
+  Healthy: 0,
+};
+const MAX_RESTART_SCORE = 99;
+
+/**
+ * Format an age like kubectl: 45s, 12m, 3h, 5d
+ */
+export function formatAge(timestamp?: string | Date): string | undefined {
+  if (!timestamp) return undefined;
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+function toContainerState(status: k8s.V1ContainerStatus, init: boolean): ContainerStateInfo {
+  const { waiting, terminated, running } = status.state || {};
+  const last = status.lastState?.terminated;
+  return {
+    name: status.name,
+    ...(init && { init }),
+    ready: !!status.ready,
+    restarts: status.restartCount || 0,
+    state: waiting ? 'Waiting' : terminated ? 'Terminated' : running ? 'Running' : 'Unknown',
+    ...((waiting?.reason || terminated?.reason) && { reason: waiting?.reason || terminated?.reason }),
+    ...((waiting?.message || terminated?.message) && { message: waiting?.message || terminated?.message }),
+    ...(terminated && { exitCode: terminated.exitCode }),
+    ...(last?.reason && { lastTerminationReason: last.reason }),
+    ...(last && { lastExitCode: last.exitCode }),
+  };
+}
+
+/**
+ * The reason that best explains a pod's state: a crash reason first, then any
+ * waiting reason, then the pod-level reason (e.g. Evicted)
+ */
+function dominantReason(pod: k8s.V1Pod, containers: ContainerStateInfo[]): string | undefined {
+  const current = containers.map(c => c.reason).filter((r): r is string => !!r && r !== 'Completed');
+  return current.find(r => CRASH_REASONS.has(r))
+    || containers.map(c => c.lastTerminationReason).find(r => r === 'OOMKilled')
+    || current[0]
+    || pod.status?.reason;
+}
+
+/**
+ * Transform a V1Pod into the enriched PodInfo shared by list and ranking tools
+ */
+export function toPodInfo(pod: k8s.V1Pod, fallbackNamespace: string = ''): PodInfo {
+  const statuses = pod.status?.containerStatuses || [];
+  const containers = [
+    ...(pod.status?.initContainerStatuses || []).map(s => toContainerState(s, true)),
+    ...statuses.map(s => toContainerState(s, false)),
+  ];
+  const readyCount = statuses.filter(c => c.ready).length;
+  const totalCount = pod.spec?.containers?.length || statuses.length;
+  const owner = pod.metadata?.ownerReferences?.find(ref => ref.controller) || pod.metadata?.ownerReferences?.[0];
+  const reason = dominantReason(pod, containers);
+
+  return {
+    name: pod.metadata?.name || 'unknown',
+    namespace: pod.metadata?.namespace || fallbackNamespace,
+    status: pod.metadata?.deletionTimestamp ? 'Terminating' : (pod.status?.phase || 'Unknown'),
+    ...(reason && { reason }),
+    ready: `${readyCount}/${totalCount}`,
+    isReady: totalCount > 0 && readyCount === totalCount,
+    age: formatAge(pod.metadata?.creationTimestamp),
+    ip: pod.status?.podIP,
+    node: pod.spec?.nodeName,
+    restarts: containers.reduce((sum, c) => sum + c.restarts, 0),
+    ...(owner && { owner: `${owner.kind}/${owner.name}` }),
+    containers,
+    createdAt: pod.metadata?.creationTimestamp
+      ? new Date(pod.metadata.creationTimestamp).toISOString()
+      : undefined,
+    labels: pod.metadata?.labels || {},
+  };
+}
+
+/**
+ * Place a pod in its priority bucket and explain why
+ */
+function classifyPod(pod: PodInfo): { bucket: SuspectBucket; reasons: string[] } {
+  const reasons: string[] = [];
+  const containers = pod.containers || [];
+  const crashing = containers.filter(c => (c.reason && CRASH_REASONS.has(c.reason)) || c.lastTerminationReason === 'OOMKilled');
+
+  if (pod.status === 'Failed' || pod.status === 'Unknown' || crashing.length > 0) {
+    crashing.forEach(c => {
+      const current = c.reason && CRASH_REASONS.has(c.reason) ? `${c.reason}${c.exitCode !== undefined ? ` (exit ${c.exitCode})` : ''}` : undefined;
+      const last = c.lastTerminationReason ? `last terminated ${c.lastTerminationReason}${c.lastExitCode !== undefined ? ` (exit ${c.lastExitCode})` : ''}` : undefined;
+      reasons.push(`${c.name}: ${[current, last].filter(Boolean).join(', ')}`);
+    });
+    if (crashing.length === 0) reasons.push(`phase ${pod.status}${pod.reason ? ` (${pod.reason})` : ''}`);
+    return { bucket: 'Crash', reasons };
+  }
+  if (pod.status === 'Pending') {
+    reasons.push(pod.reason ? `Pending: ${pod.reason}` : 'Pending');
+    return { bucket: 'Pending', reasons };
+  }
+  if ((pod.restarts || 0) > 0) {
+    const lastReason = containers.map(c => c.lastTerminationReason).find(Boolean);
+    reasons.push(`${pod.restarts} restarts${lastReason ? `, last terminated ${lastReason}` : ''}`);
+    return { bucket: 'Restarts', reasons };
+  }
+  if (pod.status === 'Running' && !pod.isReady) {
+    reasons.push(`not ready (${pod.ready})`);
+    return { bucket: 'NotReady', reasons };
+  }
+  return { bucket: 'Healthy', reasons };
+}
+
+/**
+ * Score and sort pods by suspicion: bucket, then restarts, then youngest first
+ */
+export function rankSuspectPods(pods: PodInfo[]): SuspectPod[] {
+  const scored = pods.map(pod => {
+    const { bucket, reasons } = classifyPod(pod);
+    const score = BUCKET_SCORES[bucket] + (bucket === 'Healthy' ? 0 : Math.min(pod.restarts || 0, MAX_RESTART_SCORE));
+    return { ...pod, rank: 0, score, bucket, reasons };
+  });
+
+  scored.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    const timeA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+    const timeB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+    return timeB - timeA;
+  });
+  scored.forEach((pod, idx) => { pod.rank = idx + 1; });
+
+  return scored;
+}
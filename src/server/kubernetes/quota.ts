@@ -0,0 +1,132 @@
+// Kubernetes resource quantities and ResourceQuota usage
+
+// Quantity suffixes: binary (Ki, Mi, ...) and decimal (m, k, M, ...)
+const QUANTITY_SUFFIXES: Record<string, number> = {
+  Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50, Ei: 2 ** 60,
+  n: 1e-9, u: 1e-6, m: 1e-3, '': 1, k: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15, E: 1e18,
+};
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+// Usage percentages at which a quota resource is flagged
+export interface QuotaThresholds {
+  warning: number;
+  critical: number;
+}
+
+export const DEFAULT_QUOTA_THRESHOLDS: QuotaThresholds = { warning: 80, critical: 95 };
+
+export interface QuotaUsage {
+  resource: string;     // e.g. "limits.cpu", "requests.storage", "pods"
+  used: string;
+  hard: string;
+  usedValue?: number;   // parsed quantities (cores, bytes, counts)
+  hardValue?: number;
+  percent?: number;     // used / hard * 100, when both parse and hard > 0
+  remaining?: string;   // hard - used in the unit of the resource; negative when over quota
+  level?: QuotaLevel;   // set when percent is known
+}
+
+// One quota resource a resize would change
+export interface ResizeCheck {
+  quota: string;
+  resource: string;
+  used: string;
+  hard: string;
+  delta: string;        // signed change, e.g. "+2", "-512Mi"
+  projected: string;    // used + delta
+  percent?: number;     // projected / hard * 100
+  fits: boolean;
+}
+
+/**
+ * "500m" -> 0.5, "2Gi" -> 2147483648, "1e3" -> 1000; undefined when unparseable
+ */
+export function parseQuantity(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') return value;
+  const match = String(value ?? '').trim().match(/^([+-]?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)([a-zA-Z]{0,2})$/);
+  if (!match || !(match[2] in QUANTITY_SUFFIXES)) return undefined;
+  return parseFloat(match[1]) * QUANTITY_SUFFIXES[match[2]];
+}
+
+function isByteResource(resource: string): boolean {
+  return /memory|storage/.test(resource);
+}
+
+function isCpuResource(resource: string): boolean {
+  return /(^|\.)cpu$/.test(resource);
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Format a parsed quantity in the unit of its resource: "1.5Gi", "500m", "3"
+ */
+export function formatQuantity(resource: string, value: number): string {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+
+  if (isByteResource(resource)) {
+    const units: Array<[string, number]> = [['Ti', 2 ** 40], ['Gi', 2 ** 30], ['Mi', 2 ** 20], ['Ki', 2 ** 10]];
+    const unit = units.find(([, size]) => abs >= size);
+    return unit ? `${sign}${round(abs / unit[1])}${unit[0]}` : `${sign}${round(abs)}`;
+  }
+  if (isCpuResource(resource) && abs > 0 && abs < 1) {
+    return `${sign}${round(abs * 1000, 0)}m`;
+  }
+  return `${sign}${round(abs, 3)}`;
+}
+
+export function quotaLevel(percent: number, thresholds: QuotaThresholds = DEFAULT_QUOTA_THRESHOLDS): QuotaLevel {
+  if (percent >= thresholds.critical) return 'critical';
+  if (percent >= thresholds.warning) return 'warning';
+  return 'ok';
+}
+
+export function quotaUsage(resource: string, used: string, hard: string, thresholds: QuotaThresholds = DEFAULT_QUOTA_THRESHOLDS): QuotaUsage {
+  const usedValue = parseQuantity(used);
+  const hardValue = parseQuantity(hard);
+  const usage: QuotaUsage = { resource, used, hard };
+  if (usedValue === undefined || hardValue === undefined) return usage;
+
+  usage.usedValue = usedValue;
+  usage.hardValue = hardValue;
+  usage.remaining = formatQuantity(resource, hardValue - usedValue);
+  if (hardValue > 0) {
+    usage.percent = round(usedValue / hardValue * 100, 1);
+    usage.level = quotaLevel(usage.percent, thresholds);
+  }
+  return usage;
+}
+
+/**
+ * Apply resource deltas (quota resource -> change in parsed units) to every quota that
+ * constrains them. Resources without a quota are not checked.
+ */
+export function predictResizeFit(quotas: Array<{ name: string; usage: QuotaUsage[] }>, deltas: Record<string, number>): { fits: boolean; checks: ResizeCheck[] } {
+  const checks: ResizeCheck[] = [];
+
+  quotas.forEach(quota => {
+    quota.usage.forEach(usage => {
+      const delta = deltas[usage.resource];
+      if (delta === undefined || delta === 0 || usage.usedValue === undefined || usage.hardValue === undefined) return;
+      const projected = usage.usedValue + delta;
+      checks.push({
+        quota: quota.name,
+        resource: usage.resource,
+        used: usage.used,
+        hard: usage.hard,
+        delta: `${delta > 0 ? '+' : ''}${formatQuantity(usage.resource, delta)}`,
+        projected: formatQuantity(usage.resource, projected),
+        ...(usage.hardValue > 0 && { percent: round(projected / usage.hardValue * 100, 1) }),
+        // Shrinking always fits, even when the quota is already exceeded
+        fits: delta < 0 || projected <= usage.hardValue,
+      });
+    });
+  });
+
+  return { fits: checks.every(check => check.fits), checks };
+}
@@ -1,17 +1,70 @@
+import { QuotaThresholds, QuotaUsage, ResizeCheck } from './quota';
+
+// Per-container state (see kubernetes/pods.ts)
+export interface ContainerStateInfo {
+  name: string;
+  init?: boolean;
+  ready: boolean;
+  restarts: number;
+  state: 'Running' | 'Waiting' | 'Terminated' | 'Unknown';
+  reason?: string;                  // waiting/terminated reason, e.g. CrashLoopBackOff
+  message?: string;
+  exitCode?: number;
+  lastTerminationReason?: string;   // lastState.terminated.reason, e.g. OOMKilled
+  lastExitCode?: number;
+}
+
 export interface PodInfo {
   name: string;
   namespace: string;
   status: string;
+  reason?: string;    // dominant container or pod reason
+  ready?: string;     // "readyContainers/totalContainers"
+  isReady?: boolean;
   age?: string;
   ip?: string;
   node?: string;
+  restarts?: number;
+  owner?: string;     // "Kind/name" of the controlling owner
+  containers?: ContainerStateInfo[];
+  createdAt?: string;
+  labels?: Record<string, string>;
 }
 
+// Suspect ranking buckets: Crash > Pending > Restarts > NotReady > Healthy
+export type SuspectBucket = 'Crash' | 'Pending' | 'Restarts' | 'NotReady' | 'Healthy';
+
+export interface SuspectPod extends PodInfo {
+  rank: number;
+  score: number;
+  bucket: SuspectBucket;
+  reasons: string[];
+}
+
+// Stable error codes shared by every tool response
+export type KubernetesErrorCode =
+  | 'NotFound'
+  | 'CrdNotInstalled'
+  | 'Forbidden'
+  | 'Unauthorized'
+  | 'Timeout'
+  | 'ConnectionRefused'
+  | 'RateLimited'
+  | 'ServerError'
+  | 'InvalidArguments'
+  | 'UnknownZone'
+  | 'WriteNotAllowed'
+  | 'ConfirmationRequired'
+  | 'Unknown';
+
 export interface KubernetesError {
   code?: number;
   reason?: string;
   message: string;
   details?: any;
+  errorCode?: KubernetesErrorCode;
+  hint?: string;
+  retryable?: boolean;
 }
 
 export interface ListPodsResponse {
@@ -25,13 +78,41 @@ export interface ListPodsResponse {
 export interface QuotaInfo {
   name: string;
   namespace: string;
-  details: string;
+  details: string;          // "cpu: 100m/1, ..." kept for older clients and saved snapshots
+  usage: QuotaUsage[];
+}
+
+// A quota resource at or above the warning threshold
+export interface QuotaAlert {
+  quota: string;
+  resource: string;
+  level: 'warning' | 'critical';
+  percent: number;
+  used: string;
+  hard: string;
+  remaining?: string;
+}
+
+// Whether a devbox or database resize stays within the namespace quotas
+export interface ResizeFit {
+  kind: 'devbox' | 'cluster';
+  name: string;
+  component?: string;
+  current: { cpu?: string; memory?: string; storage?: string; replicas: number };
+  target: { cpu?: string; memory?: string; storage?: string; replicas: number };
+  fits: boolean;
+  checks: ResizeCheck[];
+  warnings?: string[];
+  error?: KubernetesError;
 }
 
 export interface ListQuotaResponse {
   namespace: string;
   quotas: QuotaInfo[];
   total: number;
+  thresholds: QuotaThresholds;
+  alerts: QuotaAlert[];
+  resizeFit?: ResizeFit;
   error?: KubernetesError;
   success: boolean;
 }
@@ -119,7 +200,9 @@ export interface ChargeListItem {
 
 export interface AccountStatus {
   type?: string;
-  balance?: number;
+  balance?: number;          // cents
+  deductionBalance?: number; // cents
+  activityBonus?: number;    // cents, display only
   creationTime?: string;
   chargeList?: ChargeListItem[];
   [key: string]: any;
@@ -151,6 +234,8 @@ export interface DebtStatusRecord {
 
 export interface DebtStatus {
   type?: string;
+  status?: string; // DebtStatusType, see kubernetes/billing.ts
+  lastUpdateTimestamp?: number;
   totalDebt?: number;
   debtStatusRecords?: DebtStatusRecord[];
   [key: string]: any;
@@ -171,6 +256,130 @@ export interface ListDebtResponse {
   success: boolean;
 }
 
+// Devbox desired (spec.state) vs actual (status.phase), see kubernetes/devbox.ts
+export type DevboxHealth = 'Healthy' | 'Transitional' | 'Stuck' | 'FakeStopped';
+
+// Where DevboxState.since comes from: a condition transition, or only the last status write
+export type DevboxSinceSource = 'phase-transition' | 'status-update';
+
+export interface DevboxPhaseSince {
+  since: string;                  // ISO
+  sinceSource: DevboxSinceSource;
+}
+
+export interface DevboxState {
+  desired: string;
+  actual: string;
+  health: DevboxHealth;
+  reason: string;
+  since?: string;                 // see sinceSource for what this time means
+  sinceSource?: DevboxSinceSource;
+}
+
+export interface DevboxInfo {
+  name: string;
+  status: string;     // status.phase
+  state: DevboxState;
+  network: any;
+}
+
+export interface ListDevboxResponse {
+  namespace: string;
+  devboxes: DevboxInfo[];
+  total: number;
+  summary?: Record<DevboxHealth, number>;
+  error?: KubernetesError;
+  success: boolean;
+}
+
+// One entry of .status.commitHistory (CommitStatus: Success / Failed / Pending / Unknown)
+export interface DevboxCommit {
+  image: string;
+  time?: string;
+  pod?: string;
+  node?: string;
+  status: string;
+  predicatedStatus?: string;
+  current: boolean;   // the image the devbox runs now
+  flagged: boolean;   // failed or not yet confirmed
+}
+
+export interface DevboxHistory {
+  commits: DevboxCommit[];   // newest first
+  specImage?: string;
+  runningImage?: string;     // from the devbox pod, when one exists
+  lastSuccessful?: string;   // image of the newest successful commit
+  message?: string;
+}
+
+// Logs of the last terminated instance of a restarted container
+export interface PreviousContainerLogs {
+  container: string;
+  restarts: number;
+  exitCode?: number;
+  reason?: string;       // lastState.terminated.reason, e.g. OOMKilled, Error
+  signal?: number;
+  finishedAt?: string;
+  logs?: string;
+  error?: string;        // previous instance already garbage-collected, etc.
+}
+
+// Ownership graph node (see kubernetes/ownership.ts)
+export type ResourceBadge = 'OK' | 'Warning' | 'Error' | 'Unknown';
+
+export interface ResourceTreeNode {
+  kind: string;
+  name: string;
+  status: string;
+  badge: ResourceBadge;
+  detail?: string;
+  warningEvents?: number;
+  children: ResourceTreeNode[];
+}
+
+// KubeBlocks cluster member pod (see kubernetes/kubeblocks.ts)
+export interface ClusterMember {
+  name: string;
+  component?: string;
+  role?: string;      // kubeblocks.io/role: primary / secondary / leader / follower
+  status: string;
+  ready: string;      // "readyContainers/totalContainers"
+  isReady: boolean;
+  restarts: number;
+}
+
+export type ClusterRoleCheck = 'OK' | 'NoPrimary' | 'MultiplePrimaries' | 'NoRoles' | 'NoPods';
+
+export interface ClusterTopology {
+  members: ClusterMember[];
+  primaries: string[];
+  roleCheck: ClusterRoleCheck;
+  message?: string;
+}
+
+export interface ClusterInfo {
+  name: string;
+  status: string;
+  type: string;
+  version: string;
+  topology?: ClusterTopology;
+}
+
+export interface ListClusterResponse {
+  namespace: string;
+  clusters: ClusterInfo[];
+  total: number;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+export interface ZoneConfig {
+  kubeconfig?: string; // Absolute path, defaults to the standard kubeconfig locations
+  context?: string;    // Context inside the kubeconfig, defaults to current-context
+  writableNamespaces?: string[]; // Write-action allowlist: exact names, "prefix*" or "*"; empty = read-only
+}
+
 export interface KubeConfigInfo {
   cluster: string;
   user: string;
@@ -212,4 +421,20 @@ export interface ListCertificateResponse {
   total: number;
   error?: KubernetesError;
   success: boolean;
-}
\ No newline at end of file
+}
+// Result of a guarded write action (see kubernetes/guard.ts): a dry-run preview
+// with a confirmation token, or the outcome of the confirmed call
+export interface WriteActionResponse {
+  action: string;              // e.g. "restart pod"
+  zone: string;
+  namespace: string;
+  target: string;              // Kind/name
+  dryRun: boolean;
+  preview: string[];           // what will change, before -> after
+  result?: string[];           // what the confirmed call did
+  confirmationToken?: string;  // from the dry run; pass back with confirm=true
+  expiresAt?: string;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
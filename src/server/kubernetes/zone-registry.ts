@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { KubernetesClient } from './client';
+import { ZoneConfig } from './types';
+import { UnknownZoneError } from './errors';
+
+const KUBECONFIG_DIR = path.join(process.cwd(), 'kubeconfig');
+const LEGACY_KUBECONFIG = path.join(KUBECONFIG_DIR, 'Mykubeconfig');
+const ZONES_CONFIG_PATH = process.env.SEALOS_ZONES_CONFIG || path.join(KUBECONFIG_DIR, 'zones.json');
+
+// Zones known to the agent, in display order
+export const KNOWN_ZONES = ['hzh', 'bja', 'gzg'];
+export const DEFAULT_ZONE = process.env.SEALOS_DEFAULT_ZONE || 'hzh';
+
+/**
+ * Parse zones.json. Runs while the server modules load, so a broken file is
+ * reported and ignored (null) instead of crashing the server with a stack trace.
+ */
+function readZonesFile(): Record<string, ZoneConfig> | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(ZONES_CONFIG_PATH, 'utf-8'));
+  } catch (error) {
+    console.error(`[Server] Ignoring ${ZONES_CONFIG_PATH}: ${error instanceof Error ? error.message : error}; falling back to kubeconfig files`);
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    console.error(`[Server] Ignoring ${ZONES_CONFIG_PATH}: expected an object of zone -> { kubeconfig, context }; falling back to kubeconfig files`);
+    return null;
+  }
+
+  const zones: Record<string, ZoneConfig> = {};
+  Object.entries(raw).forEach(([zone, config]: [string, any]) => {
+    zones[zone.toLowerCase()] = {
+      kubeconfig: config?.kubeconfig ? path.resolve(process.cwd(), config.kubeconfig) : undefined,
+      context: config?.context,
+      writableNamespaces: Array.isArray(config?.writableNamespaces) ? config.writableNamespaces.map(String) : [],
+    };
+  });
+  return zones;
+}
+
+/**
+ * Load the zone → kubeconfig/context map.
+ *
+ * Resolution order:
+ * 1. kubeconfig/zones.json (or $SEALOS_ZONES_CONFIG), e.g.
+ *    { "hzh": { "kubeconfig": "kubeconfig/hzh", "writableNamespaces": ["ns-test*"] }, "bja": { "kubeconfig": "kubeconfig/all", "context": "bja" } }
+ * 2. One file per zone: kubeconfig/hzh, kubeconfig/bja, kubeconfig/gzg (also when zones.json is malformed)
+ * 3. kubeconfig/Mykubeconfig for the default zone (legacy single-cluster setup)
+ */
+function loadZoneConfigs(): Record<string, ZoneConfig> {
+  const configured = fs.existsSync(ZONES_CONFIG_PATH) ? readZonesFile() : null;
+  if (configured) {
+    return configured;
+  }
+
+  const zones: Record<string, ZoneConfig> = {};
+  KNOWN_ZONES.forEach(zone => {
+    const zoneFile = path.join(KUBECONFIG_DIR, zone);
+    if (fs.existsSync(zoneFile)) {
+      zones[zone] = { kubeconfig: zoneFile };
+    }
+  });
+
+  if (!zones[DEFAULT_ZONE]) {
+    zones[DEFAULT_ZONE] = { kubeconfig: LEGACY_KUBECONFIG };
+  }
+
+  return zones;
+}
+
+/**
+ * Maps zones to lazily created Kubernetes clients
+ */
+export class ZoneRegistry {
+  private configs: Record<string, ZoneConfig>;
+  private clients = new Map<string, KubernetesClient>();
+
+  constructor(configs: Record<string, ZoneConfig>) {
+    this.configs = configs;
+  }
+
+  /**
+   * List configured zone names
+   */
+  getZones(): string[] {
+    return Object.keys(this.configs);
+  }
+
+  /**
+   * Resolve a zone (default zone when omitted) to its Kubernetes client.
+   * Throws for zones that are not configured.
+   */
+  getClient(zone?: string): KubernetesClient {
+    const zoneName = (zone || DEFAULT_ZONE).toLowerCase();
+    const config = this.configs[zoneName];
+
+    if (!config) {
+      throw new UnknownZoneError(`Unknown zone: ${zone}. Configured zones: ${this.getZones().join(', ') || 'none'}`);
+    }
+
+    let client = this.clients.get(zoneName);
+    if (!client) {
+      client = new KubernetesClient(config.kubeconfig, config.context);
+      this.clients.set(zoneName, client);
+    }
+    return client;
+  }
+
+  /**
+   * Whether write actions may run in a namespace of a zone (default: read-only).
+   * Patterns are exact names, "prefix*" or "*".
+   */
+  isNamespaceWritable(zone: string | undefined, namespace: string): boolean {
+    const config = this.configs[(zone || DEFAULT_ZONE).toLowerCase()];
+    return (config?.writableNamespaces || []).some(pattern =>
+      pattern.endsWith('*') ? namespace.startsWith(pattern.slice(0, -1)) : namespace === pattern);
+  }
+}
+
+// Export a singleton registry built from the project's kubeconfig directory
+export const zoneRegistry = new ZoneRegistry(loadZoneConfigs());
+
+/**
+ * Shorthand used by the tools
+ */
+export function getKubernetesClient(zone?: string): KubernetesClient {
+  return zoneRegistry.getClient(zone);
+}
@@ -0,0 +1,157 @@
+import { LOG_PATTERNS, LogPattern, LogSeverity } from './patterns';
+
+export interface LogOccurrence {
+  source: string;   // e.g. "app" or "app (previous)"
+  line: number;     // 1-based line number within that source
+  time?: string;    // RFC3339 timestamp when logs were fetched with timestamps
+}
+
+export interface LogFinding {
+  patternId: string;
+  category: string;
+  severity: LogSeverity;
+  description: string;
+  message: string;
+  count: number;
+  firstSeen: LogOccurrence;
+  lastSeen: LogOccurrence;
+  sources: string[];
+  excerpt?: string[];
+}
+
+const SEVERITY_ORDER: Record<LogSeverity, number> = { critical: 0, error: 1, warning: 2 };
+const MAX_EXCERPT_LINES = 12;
+const MAX_MESSAGE_LENGTH = 300;
+const TIMESTAMP_PREFIX = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})) /;
+
+/**
+ * Strip the kubelet timestamp prefix (timestamps=true)
+ */
+function splitTimestamp(raw: string): { time?: string; text: string } {
+  const match = raw.match(TIMESTAMP_PREFIX);
+  return match ? { time: match[1], text: raw.substring(match[0].length) } : { text: raw };
+}
+
+/**
+ * Collapse volatile parts (timestamps, ids, numbers, addresses) so repeats of
+ * the same error deduplicate into one finding
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/0x[0-9a-f]+/gi, '<hex>')
+    .replace(/\b\d{1,3}(\.\d{1,3}){3}(:\d+)?\b/g, '<ip>')
+    .replace(/\b\d+\b/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findPattern(text: string, patterns: LogPattern[]): LogPattern | undefined {
+  return patterns.find(p => p.match.test(text));
+}
+
+/**
+ * A blank line only continues a record when the next line does (Go panics put
+ * one between the message and the goroutine dump)
+ */
+function isContinuation(lines: Array<{ text: string }>, idx: number, continuation: RegExp): boolean {
+  if (lines[idx].text.trim()) return continuation.test(lines[idx].text);
+  const next = lines[idx + 1];
+  return !!next && !!next.text.trim() && continuation.test(next.text);
+}
+
+/**
+ * Classify the lines of one log source and merge them into the findings map
+ */
+function scanSource(
+  source: string,
+  text: string,
+  patterns: LogPattern[],
+  findings: Map<string, LogFinding>
+): { lines: number; matched: number } {
+  const lines = text.split('\n').map(splitTimestamp);
+  let matched = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const { time, text: line } = lines[i];
+    if (!line.trim()) continue;
+
+    const pattern = findPattern(line, patterns);
+    if (!pattern) continue;
+    matched++;
+    const occurrence: LogOccurrence = { source, line: i + 1, ...(time && { time }) };
+
+    // Fold stack-trace continuation lines into this finding
+    const excerpt: string[] = [line];
+    let message = line;
+    if (pattern.continuation) {
+      let j = i + 1;
+      while (j < lines.length && isContinuation(lines, j, pattern.continuation)) {
+        if (excerpt.length < MAX_EXCERPT_LINES) excerpt.push(lines[j].text);
+        j++;
+      }
+      if (pattern.summaryAfterContinuation && j < lines.length && lines[j].text.trim()) {
+        message = lines[j].text;
+        if (excerpt.length < MAX_EXCERPT_LINES) excerpt.push(lines[j].text);
+        j++;
+      }
+      i = j - 1;
+    }
+
+    const trimmed = message.trim().substring(0, MAX_MESSAGE_LENGTH);
+    const key = `${pattern.id}|${normalizeMessage(trimmed)}`;
+    const existing = findings.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = occurrence;
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      findings.set(key, {
+        patternId: pattern.id,
+        category: pattern.category,
+        severity: pattern.severity,
+        description: pattern.description,
+        message: trimmed,
+        count: 1,
+        firstSeen: occurrence,
+        lastSeen: occurrence,
+        sources: [source],
+        ...(excerpt.length > 1 && { excerpt }),
+      });
+    }
+  }
+
+  return { lines: countLogLines(text), matched };
+}
+
+/**
+ * Number of non-blank lines in a log
+ */
+export function countLogLines(text: string): number {
+  return text.split('\n').filter(line => line.trim()).length;
+}
+
+/**
+ * Analyze several log sources (current and previous containers) with the pattern
+ * library. Findings are deduplicated across sources and sorted by severity, then count.
+ */
+export function analyzeLogs(
+  sources: Array<{ source: string; text: string }>,
+  patterns: LogPattern[] = LOG_PATTERNS
+): { findings: LogFinding[]; lines: number; matched: number } {
+  const findings = new Map<string, LogFinding>();
+  let lines = 0;
+  let matched = 0;
+
+  sources.forEach(({ source, text }) => {
+    const result = scanSource(source, text, patterns, findings);
+    lines += result.lines;
+    matched += result.matched;
+  });
+
+  const sorted = Array.from(findings.values()).sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.count - a.count);
+
+  return { findings: sorted, lines, matched };
+}
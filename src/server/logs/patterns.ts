@@ -0,0 +1,92 @@
+// Error-pattern library for log analysis. Patterns are tried in order; the first
+// match wins, so specific patterns come before the generic error fallback.
+
+export type LogSeverity = 'critical' | 'error' | 'warning';
+
+export interface LogPattern {
+  id: string;
+  category: string;
+  severity: LogSeverity;
+  description: string;
+  match: RegExp;
+  // Multi-line records (stack traces): lines matching this are folded into the finding
+  continuation?: RegExp;
+  // Python-style traces end with the exception line: use it as the finding message
+  summaryAfterContinuation?: boolean;
+}
+
+export const LOG_PATTERNS: LogPattern[] = [
+  {
+    id: 'go-panic',
+    category: 'GoPanic',
+    severity: 'critical',
+    description: 'Go runtime panic or fatal error',
+    match: /^(panic: |fatal error: )/,
+    continuation: /^(\s+|goroutine \d+ |\[signal |created by |[\w./*()\[\]-]+\(.*\)\s*$|exit status \d+|$)/,
+  },
+  {
+    id: 'java-exception',
+    category: 'JavaException',
+    severity: 'critical',
+    description: 'Java exception with stack trace',
+    match: /^(Exception in thread "[^"]*" )?([a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*(Exception|Error)(: |$)/,
+    continuation: /^(\s+at |\s*\.\.\. \d+ (more|common frames omitted)|Caused by: |\s+Suppressed: )/,
+  },
+  {
+    id: 'python-traceback',
+    category: 'PythonTraceback',
+    severity: 'critical',
+    description: 'Python traceback',
+    match: /^Traceback \(most recent call last\):/,
+    continuation: /^(\s+|During handling of the above exception|The above exception was the direct cause|$)/,
+    summaryAfterContinuation: true,
+  },
+  {
+    id: 'oom',
+    category: 'OutOfMemory',
+    severity: 'critical',
+    description: 'Out of memory',
+    match: /out of memory|OutOfMemoryError|OOMKilled|Cannot allocate memory|memory limit exceeded|JavaScript heap out of memory/i,
+  },
+  {
+    id: 'connection-refused',
+    category: 'ConnectionRefused',
+    severity: 'error',
+    description: 'Connection refused by a dependency',
+    match: /connection refused|ECONNREFUSED/i,
+  },
+  {
+    id: 'dns-failure',
+    category: 'DnsFailure',
+    severity: 'error',
+    description: 'DNS lookup failed',
+    match: /no such host|ENOTFOUND|EAI_AGAIN|Name or service not known|Temporary failure in name resolution|could not resolve host|UnknownHostException/i,
+  },
+  {
+    id: 'permission-denied',
+    category: 'PermissionDenied',
+    severity: 'error',
+    description: 'Permission denied',
+    match: /permission denied|EACCES|operation not permitted|EPERM\b|AccessDeniedException/i,
+  },
+  {
+    id: 'generic-error',
+    category: 'Error',
+    severity: 'warning',
+    description: 'Line mentions panic, fatal or error',
+    match: /\b(panic|fatal|error)\b/i,
+  },
+];
+
+/**
+ * Plug in an extra pattern. It is tried before the generic error fallback.
+ */
+export function registerLogPattern(pattern: LogPattern): void {
+  const existing = LOG_PATTERNS.findIndex(p => p.id === pattern.id);
+  if (existing !== -1) {
+    LOG_PATTERNS[existing] = pattern;
+    return;
+  }
+  const fallback = LOG_PATTERNS.findIndex(p => p.id === 'generic-error');
+  LOG_PATTERNS.splice(fallback === -1 ? LOG_PATTERNS.length : fallback, 0, pattern);
+}
@@ -0,0 +1,191 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import { Client } from 'ssh2';
+
+export type SshStage = 'DNS' | 'TCP' | 'Banner' | 'Auth' | 'Shell';
+
+export interface SshStageResult {
+  stage: SshStage;
+  status: 'OK' | 'Failed' | 'Skipped';
+  detail: string;
+  durationMs: number;
+}
+
+export interface SshProbeTarget {
+  host: string;
+  port: number;
+  username: string;
+  privateKey?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const SHELL_MARKER = 'sealos-ssh-check';
+
+/**
+ * Time a stage and turn its outcome into a result row
+ */
+async function runStage(stage: SshStage, action: () => Promise<string>): Promise<SshStageResult> {
+  const startedAt = Date.now();
+  try {
+    const detail = await action();
+    return { stage, status: 'OK', detail, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { stage, status: 'Failed', detail, durationMs: Date.now() - startedAt };
+  }
+}
+
+/**
+ * Open a raw TCP connection and optionally wait for the server's first line
+ */
+function connectTcp(address: string, port: number, timeoutMs: number, readBanner: boolean): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: address, port });
+    let settled = false;
+    let received = '';
+
+    const finish = (error: Error | null, value: string = '') => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error); else resolve(value);
+    };
+
+    socket.setTimeout(timeoutMs, () => {
+      finish(new Error(readBanner ? `No SSH banner within ${timeoutMs}ms` : `Connection timed out after ${timeoutMs}ms`));
+    });
+    socket.on('error', error => finish(error));
+    socket.on('connect', () => {
+      if (!readBanner) finish(null, `Connected to ${address}:${port}`);
+    });
+    socket.on('data', chunk => {
+      received += chunk.toString('utf-8');
+      const newline = received.indexOf('\n');
+      if (newline === -1) return;
+      const banner = received.substring(0, newline).trim();
+      if (banner.startsWith('SSH-')) {
+        finish(null, banner);
+      } else {
+        finish(new Error(`Unexpected banner: ${banner.substring(0, 80)}`));
+      }
+    });
+    socket.on('close', () => finish(new Error('Connection closed before the SSH banner')));
+  });
+}
+
+/**
+ * Authenticate with ssh2 and run a marker command in a session
+ */
+function authenticateAndExec(address: string, target: SshProbeTarget, timeoutMs: number): Promise<{ auth: string; shell: Promise<string> }> {
+  return new Promise((resolve, reject) => {
+    const conn = new Client();
+
+    conn.on('ready', () => {
+      const shell = new Promise<string>((shellResolve, shellReject) => {
+        const timer = setTimeout(() => shellReject(new Error(`Command did not finish within ${timeoutMs}ms`)), timeoutMs);
+        conn.exec(`echo ${SHELL_MARKER}`, (error, stream) => {
+          if (error) {
+            clearTimeout(timer);
+            shellReject(error);
+            return;
+          }
+          let output = '';
+          stream.on('data', (data: Buffer) => { output += data.toString('utf-8'); });
+          stream.on('close', (code: number) => {
+            clearTimeout(timer);
+            if (output.includes(SHELL_MARKER)) {
+              shellResolve(`Session opened, exit code ${code}`);
+            } else {
+              shellReject(new Error(`Unexpected command output (exit code ${code}): ${output.trim().substring(0, 80) || 'empty'}`));
+            }
+          });
+        });
+      }).finally(() => conn.end());
+
+      resolve({ auth: `Authenticated as ${target.username}`, shell });
+    });
+
+    conn.on('error', (error: Error & { level?: string }) => {
+      conn.end();
+      if (error.level === 'client-authentication') {
+        reject(new Error(`Authentication failed for ${target.username}: ${error.message}`));
+      } else {
+        reject(error);
+      }
+    });
+
+    conn.connect({
+      host: address,
+      port: target.port,
+      username: target.username,
+      privateKey: target.privateKey,
+      password: target.password,
+      readyTimeout: timeoutMs,
+    });
+  });
+}
+
+/**
+ * Probe an SSH endpoint stage by stage: DNS, TCP, Banner, Auth, Shell.
+ * Stages after the first failure are reported as Skipped. Auth and Shell are
+ * skipped when no credentials are given.
+ */
+export async function probeSsh(target: SshProbeTarget): Promise<SshStageResult[]> {
+  const timeoutMs = target.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const results: SshStageResult[] = [];
+  const skip = (stage: SshStage, detail: string) => results.push({ stage, status: 'Skipped', detail, durationMs: 0 });
+
+  // 1. DNS
+  let address = target.host;
+  const dnsResult = await runStage('DNS', async () => {
+    const resolved = await dns.promises.lookup(target.host);
+    address = resolved.address;
+    return `${target.host} -> ${resolved.address}`;
+  });
+  results.push(dnsResult);
+  if (dnsResult.status === 'Failed') {
+    ['TCP', 'Banner', 'Auth', 'Shell'].forEach(stage => skip(stage as SshStage, 'DNS failed'));
+    return results;
+  }
+
+  // 2. TCP
+  const tcpResult = await runStage('TCP', () => connectTcp(address, target.port, timeoutMs, false));
+  results.push(tcpResult);
+  if (tcpResult.status === 'Failed') {
+    ['Banner', 'Auth', 'Shell'].forEach(stage => skip(stage as SshStage, 'TCP failed'));
+    return results;
+  }
+
+  // 3. Banner
+  const bannerResult = await runStage('Banner', () => connectTcp(address, target.port, timeoutMs, true));
+  results.push(bannerResult);
+  if (bannerResult.status === 'Failed') {
+    ['Auth', 'Shell'].forEach(stage => skip(stage as SshStage, 'No SSH banner'));
+    return results;
+  }
+
+  // 4. Auth and 5. Shell
+  if (!target.privateKey && !target.password) {
+    skip('Auth', 'No credentials available');
+    skip('Shell', 'No credentials available');
+    return results;
+  }
+
+  let shell: Promise<string> | undefined;
+  const authResult = await runStage('Auth', async () => {
+    const session = await authenticateAndExec(address, target, timeoutMs);
+    shell = session.shell;
+    return session.auth;
+  });
+  results.push(authResult);
+  if (authResult.status === 'Failed' || !shell) {
+    skip('Shell', 'Authentication failed');
+    return results;
+  }
+
+  const pendingShell = shell;
+  results.push(await runStage('Shell', () => pendingShell));
+  return results;
+}
@@ -0,0 +1,151 @@
+import { AnalyzeBillingInput, AnalyzeBillingInputSchema } from './types';
+import { defineTool } from './registry';
+import { listAccountByNamespace } from './list-account-by-ns';
+import { listDebtByNamespace } from './list-debt-by-ns';
+import { AccountInfo, KubernetesError } from '../kubernetes/types';
+import { DebtSummary, centsToYuan, isBlockingImpact, summarizeDebts } from '../kubernetes/billing';
+
+export type BalanceLevel = 'Healthy' | 'Low' | 'Negative';
+
+// Account amounts converted to yuan
+export interface AccountBalance {
+  name: string;
+  balance: number;
+  deductionBalance: number;
+  available: number;
+  activityBonus: number;
+  level: BalanceLevel;
+}
+
+export interface BillingVerdict {
+  level: 'OK' | 'Warning' | 'Critical';
+  summary: string;
+  findings: string[];
+}
+
+export interface AnalyzeBillingResponse {
+  namespace: string;
+  threshold: number;
+  balances: AccountBalance[];
+  debt?: DebtSummary;
+  verdict?: BillingVerdict;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+/**
+ * Available balance = (balance - deductionBalance) / 100, in yuan
+ */
+function summarizeAccount(account: AccountInfo, threshold: number): AccountBalance {
+  const status = account.status || {};
+  const balance = centsToYuan(status.balance);
+  const deductionBalance = centsToYuan(status.deductionBalance);
+  const available = Math.round((balance - deductionBalance) * 100) / 100;
+
+  let level: BalanceLevel = 'Healthy';
+  if (available < 0) {
+    level = 'Negative';
+  } else if (available < threshold) {
+    level = 'Low';
+  }
+
+  return {
+    name: account.name,
+    balance,
+    deductionBalance,
+    available,
+    activityBonus: centsToYuan(status.activityBonus),
+    level,
+  };
+}
+
+/**
+ * Combine balance levels and the debt impact into one verdict
+ */
+function buildVerdict(balances: AccountBalance[], debt: DebtSummary | undefined, threshold: number): BillingVerdict {
+  const findings: string[] = [];
+
+  balances.forEach(account => {
+    if (account.level === 'Negative') {
+      findings.push(`Account ${account.name} is overdrawn: available ¥${account.available.toFixed(2)}.`);
+    } else if (account.level === 'Low') {
+      findings.push(`Account ${account.name} is below the ¥${threshold.toFixed(2)} threshold: available ¥${account.available.toFixed(2)}.`);
+    }
+  });
+
+  if (debt && debt.impact !== 'None') {
+    findings.push(`Debt ${debt.name} is in ${debt.status}: ${debt.meaning}`);
+  }
+
+  const hasNegative = balances.some(account => account.level === 'Negative');
+  const hasLow = balances.some(account => account.level === 'Low');
+  const debtImpact = debt?.impact || 'None';
+
+  if (isBlockingImpact(debtImpact)) {
+    const action = debtImpact === 'Suspended' ? 'suspended' : 'being deleted';
+    return { level: 'Critical', summary: `Resources in this namespace are ${action} because of debt.`, findings };
+  }
+  if (hasNegative || debtImpact === 'SuspendSoon') {
+    return { level: 'Critical', summary: 'The account is in debt; resources will be suspended unless it is recharged.', findings };
+  }
+  if (hasLow || debtImpact === 'Notice') {
+    return { level: 'Warning', summary: 'The balance is running low. Recharge to avoid interruption.', findings };
+  }
+  return { level: 'OK', summary: 'Balance is sufficient and there is no outstanding debt.', findings };
+}
+
+export async function analyzeBilling(input: AnalyzeBillingInput): Promise<AnalyzeBillingResponse> {
+  // Validate input
+  const validatedInput = AnalyzeBillingInputSchema.parse(input);
+  const { namespace, lowBalanceThreshold, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: analyze billing -n ${namespace}`);
+
+  const [accountResult, debtResult] = await Promise.all([
+    listAccountByNamespace({ namespace, zone }),
+    listDebtByNamespace({ namespace, zone }),
+  ]);
+
+  if (!accountResult.success && !debtResult.success) {
+    return {
+      namespace,
+      threshold: lowBalanceThreshold,
+      balances: [],
+      error: accountResult.error,
+      success: false,
+    };
+  }
+
+  const warnings: string[] = [];
+  if (!accountResult.success) {
+    warnings.push(`Failed to list accounts: ${accountResult.error?.message || 'Unknown error'}`);
+  } else if (accountResult.accounts.length === 0) {
+    warnings.push(`No Account resource found in namespace ${namespace}`);
+  }
+  if (!debtResult.success) {
+    warnings.push(`Failed to list debts: ${debtResult.error?.message || 'Unknown error'}`);
+  }
+
+  const balances = accountResult.accounts.map(account => summarizeAccount(account, lowBalanceThreshold));
+  const debt = summarizeDebts(debtResult.debts);
+
+  return {
+    namespace,
+    threshold: lowBalanceThreshold,
+    balances,
+    debt,
+    verdict: buildVerdict(balances, debt, lowBalanceThreshold),
+    ...(warnings.length > 0 && { warnings }),
+    success: true,
+  };
+}
+
+// Tool definition for the MCP registry
+export const ANALYZE_BILLING_TOOL = defineTool({
+  name: 'analyze_billing',
+  description: 'Analyze Account balance (in yuan) and Debt status in a namespace; flags low or negative balances and explains whether resources will be suspended or deleted',
+  schema: AnalyzeBillingInputSchema,
+  handler: analyzeBilling,
+});
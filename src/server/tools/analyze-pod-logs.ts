@@ -0,0 +1,161 @@
+import * as k8s from '@kubernetes/client-node';
+import { AnalyzePodLogsInput, AnalyzePodLogsInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesClient } from '../kubernetes/client';
+import { KubernetesError } from '../kubernetes/types';
+import { extractKubernetesError, summarizeKubernetesError, withRetry } from '../kubernetes/errors';
+import { analyzeLogs, countLogLines, LogFinding } from '../logs/analyzer';
+
+export interface LogSource {
+  container: string;
+  previous: boolean;
+  lines: number;
+  error?: string;
+}
+
+export interface AnalyzePodLogsResponse {
+  namespace: string;
+  pod: string;
+  sources: LogSource[];
+  findings: LogFinding[];
+  totals: { lines: number; matched: number };
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+/**
+ * Label used for a log source in findings, e.g. "app" or "app (previous)"
+ */
+function sourceLabel(container: string, previous: boolean): string {
+  return previous ? `${container} (previous)` : container;
+}
+
+/**
+ * Read one container log with timestamps so findings carry first/last occurrence times
+ */
+async function readContainerLog(
+  kubernetesClient: KubernetesClient,
+  pod: string,
+  namespace: string,
+  container: string,
+  previous: boolean,
+  tailLines: number,
+  sinceSeconds?: number
+): Promise<string> {
+  const k8sApi = kubernetesClient.getApiClient();
+  const response = await withRetry(() => k8sApi.readNamespacedPodLog(
+    pod,
+    namespace,
+    container,
+    undefined,    // follow
+    undefined,    // insecureSkipTLSVerifyBackend
+    undefined,    // limitBytes
+    undefined,    // pretty
+    previous,
+    sinceSeconds,
+    tailLines,
+    true          // timestamps
+  ));
+  return response.body || '';
+}
+
+/**
+ * Containers to analyze, and whether each has a previous instance worth reading
+ */
+function selectContainers(pod: k8s.V1Pod, only?: string): Array<{ name: string; hasPrevious: boolean }> {
+  const statuses = [
+    ...(pod.status?.initContainerStatuses || []),
+    ...(pod.status?.containerStatuses || []),
+  ];
+  const names = [
+    ...(pod.spec?.initContainers || []).map(c => c.name),
+    ...(pod.spec?.containers || []).map(c => c.name),
+  ];
+
+  return names
+    .filter(name => !only || name === only)
+    .map(name => {
+      const status = statuses.find(s => s.name === name);
+      return { name, hasPrevious: (status?.restartCount || 0) > 0 || !!status?.lastState?.terminated };
+    });
+}
+
+export async function analyzePodLogs(input: AnalyzePodLogsInput): Promise<AnalyzePodLogsResponse> {
+  // Validate input
+  const validatedInput = AnalyzePodLogsInputSchema.parse(input);
+  const { name, namespace, container, tailLines, sinceSeconds, includePrevious, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: analyze logs pod/${name} -n ${namespace}${container ? ` -c ${container}` : ''}`);
+
+  const response: AnalyzePodLogsResponse = {
+    namespace,
+    pod: name,
+    sources: [],
+    findings: [],
+    totals: { lines: 0, matched: 0 },
+    success: true,
+  };
+  const warnings: string[] = [];
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+    const podResult = await withRetry(() => kubernetesClient.getApiClient().readNamespacedPod(name, namespace));
+    const containers = selectContainers(podResult.body, container);
+
+    if (containers.length === 0) {
+      warnings.push(container ? `Container ${container} not found in pod ${name}` : `Pod ${name} has no containers`);
+    }
+
+    const targets = containers.flatMap(c => [
+      { container: c.name, previous: false },
+      ...(includePrevious && c.hasPrevious ? [{ container: c.name, previous: true }] : []),
+    ]);
+
+    // A missing log (container not started yet, previous instance gone) must not fail the analysis
+    const texts = await Promise.all(targets.map(async target => {
+      const source: LogSource = { ...target, lines: 0 };
+      try {
+        const text = await readContainerLog(kubernetesClient, name, namespace, target.container, target.previous, tailLines, sinceSeconds);
+        return { source, text };
+      } catch (error) {
+        source.error = extractKubernetesError(error).message;
+        return { source, text: '' };
+      }
+    }));
+
+    texts.forEach(({ source, text }) => {
+      source.lines = countLogLines(text);
+      response.sources.push(source);
+      if (source.error) warnings.push(`Failed to read ${sourceLabel(source.container, source.previous)} logs: ${source.error}`);
+    });
+
+    const result = analyzeLogs(texts
+      .filter(({ text }) => text)
+      .map(({ source, text }) => ({ source: sourceLabel(source.container, source.previous), text })));
+
+    response.findings = result.findings;
+    response.totals = { lines: result.lines, matched: result.matched };
+
+    if (warnings.length > 0) response.warnings = warnings;
+    return response;
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error analyzing logs for pod ${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, ...(warnings.length > 0 && { warnings }), error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const ANALYZE_POD_LOGS_TOOL = defineTool({
+  name: 'analyze_pod_logs',
+  description: 'Analyze the current and previous container logs of a pod with an error-pattern library (Go panics, Java stack traces, Python tracebacks, OOM, connection refused, DNS failures, permission denied) and return deduplicated findings with counts and first/last occurrence',
+  schema: AnalyzePodLogsInputSchema,
+  handler: analyzePodLogs,
+});
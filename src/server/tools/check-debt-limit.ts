@@ -0,0 +1,176 @@
+import { CheckDebtLimitInput, CheckDebtLimitInputSchema } from './types';
+import { defineTool } from './registry';
+import { DiagnosisEvidence } from './diagnose-resource';
+import { fetchResourceEvents } from './inspect-resource';
+import { listEventsByNamespace } from './list-events-by-ns';
+import { listDevboxByNamespace } from './list-devbox-by-ns';
+import { listClusterByNamespace } from './list-cluster-by-ns';
+import { listQuotaByNamespace } from './list-quota-by-ns';
+import { listDebtByNamespace } from './list-debt-by-ns';
+import { KubernetesClient } from '../kubernetes/client';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesError } from '../kubernetes/types';
+import { DEBT_LIMIT_PATTERN, DebtSummary, isBlockingImpact, summarizeDebts } from '../kubernetes/billing';
+
+// Upper bound on per-resource event lookups (one API call each)
+const MAX_SCANNED_RESOURCES = 20;
+
+export interface DebtLimitResponse {
+  namespace: string;
+  blocked: boolean;
+  status: 'Blocked' | 'AtRisk' | 'Clear';
+  summary: string;
+  debt?: DebtSummary;
+  evidence: DiagnosisEvidence[];
+  scanned: { events: number; devboxes: number; clusters: number; quotas: number };
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+/**
+ * Collect debt-limit markers from event reason/message
+ */
+function scanEvents(source: string, events: any[], evidence: DiagnosisEvidence[]): void {
+  events.forEach((event, index) => {
+    if (DEBT_LIMIT_PATTERN.test(event.reason || '') || DEBT_LIMIT_PATTERN.test(event.message || '')) {
+      const object = event.object ? ` (${event.object})` : '';
+      evidence.push({ path: `${source}[${index}]`, value: `${event.reason}: ${event.message}${object}` });
+    }
+  });
+}
+
+/**
+ * Fetch and scan the events of each devbox/cluster by involvedObject.name
+ */
+async function scanResourceEvents(
+  kubernetesClient: KubernetesClient,
+  kind: 'devbox' | 'cluster',
+  names: string[],
+  namespace: string,
+  evidence: DiagnosisEvidence[],
+  warnings: string[]
+): Promise<number> {
+  const scannedNames = names.slice(0, MAX_SCANNED_RESOURCES);
+  if (names.length > scannedNames.length) {
+    warnings.push(`Only the first ${MAX_SCANNED_RESOURCES} of ${names.length} ${kind} resources were scanned`);
+  }
+
+  const results = await Promise.all(
+    scannedNames.map(name => fetchResourceEvents(kubernetesClient, kind, name, namespace))
+  );
+
+  results.forEach((result, i) => {
+    if (result.error) {
+      warnings.push(`${kind}/${scannedNames[i]}: ${result.error}`);
+      return;
+    }
+    scanEvents(`${kind}/${scannedNames[i]}.events`, result.events || [], evidence);
+  });
+
+  return scannedNames.length;
+}
+
+export async function checkDebtLimit(input: CheckDebtLimitInput): Promise<DebtLimitResponse> {
+  // Validate input
+  const validatedInput = CheckDebtLimitInputSchema.parse(input);
+  const { namespace, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: check debt-limit -n ${namespace}`);
+
+  const response: DebtLimitResponse = {
+    namespace,
+    blocked: false,
+    status: 'Clear',
+    summary: '',
+    evidence: [],
+    scanned: { events: 0, devboxes: 0, clusters: 0, quotas: 0 },
+    success: true,
+  };
+  const warnings: string[] = [];
+
+  const [eventResult, devboxResult, clusterResult, quotaResult, debtResult] = await Promise.all([
+    listEventsByNamespace({ namespace, zone }),
+    listDevboxByNamespace({ namespace, sortBy: 'name', zone }),
+    listClusterByNamespace({ namespace, zone }),
+    listQuotaByNamespace({ namespace, warningThreshold: 80, criticalThreshold: 95, zone }),
+    listDebtByNamespace({ namespace, zone }),
+  ]);
+
+  // Neither events nor Debt are readable: no verdict is possible
+  if (!eventResult.success && !debtResult.success) {
+    return { ...response, error: eventResult.error, success: false };
+  }
+
+  // 1. Namespace events
+  if (eventResult.success) {
+    scanEvents('events', eventResult.events, response.evidence);
+    response.scanned.events = eventResult.events.length;
+  } else {
+    warnings.push(`Failed to list events: ${eventResult.error?.message || 'Unknown error'}`);
+  }
+
+  // 2. Quotas named debt-limit0 are created by Sealos when the account is in debt
+  if (quotaResult.success) {
+    quotaResult.quotas.forEach(quota => {
+      if (DEBT_LIMIT_PATTERN.test(quota.name)) {
+        response.evidence.push({ path: `resourcequota/${quota.name}`, value: quota.details });
+      }
+    });
+    response.scanned.quotas = quotaResult.quotas.length;
+  }
+
+  // 3. Events of each devbox and cluster (older than the namespace event window)
+  const kubernetesClient = getKubernetesClient(zone);
+  const [devboxesScanned, clustersScanned] = await Promise.all([
+    devboxResult.success
+      ? scanResourceEvents(kubernetesClient, 'devbox', devboxResult.devboxes.map((d: any) => d.name), namespace, response.evidence, warnings)
+      : Promise.resolve(0),
+    clusterResult.success
+      ? scanResourceEvents(kubernetesClient, 'cluster', clusterResult.clusters.map((c: any) => c.name), namespace, response.evidence, warnings)
+      : Promise.resolve(0),
+  ]);
+  response.scanned.devboxes = devboxesScanned;
+  response.scanned.clusters = clustersScanned;
+
+  // 4. Join with the Debt CR status
+  if (debtResult.success) {
+    response.debt = summarizeDebts(debtResult.debts);
+    if (response.debt && response.debt.impact !== 'None') {
+      response.evidence.push({ path: `debt/${response.debt.name}.status.status`, value: response.debt.status });
+    }
+  } else {
+    warnings.push(`Failed to list debts: ${debtResult.error?.message || 'Unknown error'}`);
+  }
+
+  const debtImpact = response.debt?.impact || 'None';
+  const hasMarkers = response.evidence.some(e => !e.path.startsWith('debt/'));
+
+  if (hasMarkers || isBlockingImpact(debtImpact)) {
+    response.blocked = true;
+    response.status = 'Blocked';
+    response.summary = debtImpact === 'None'
+      ? 'debt-limit markers found: resource creation or startup is blocked by billing.'
+      : `Namespace is blocked by billing (${response.debt!.status}): ${response.debt!.meaning}`;
+  } else if (debtImpact !== 'None') {
+    response.status = 'AtRisk';
+    response.summary = `Not blocked yet, but the account is in ${response.debt!.status}: ${response.debt!.meaning}`;
+  } else {
+    response.summary = 'No debt-limit markers and no outstanding debt.';
+  }
+
+  if (warnings.length > 0) {
+    response.warnings = warnings;
+  }
+
+  return response;
+}
+
+// Tool definition for the MCP registry
+export const CHECK_DEBT_LIMIT_TOOL = defineTool({
+  name: 'check_debt_limit',
+  description: 'Check whether a namespace is blocked by billing: scans namespace, devbox and cluster events for debt-limit markers and joins them with the Debt status',
+  schema: CheckDebtLimitInputSchema,
+  handler: checkDebtLimit,
+});
@@ -0,0 +1,164 @@
+import { CheckDevboxSshInput, CheckDevboxSshInputSchema } from './types';
+import { defineTool } from './registry';
+import { KubernetesClient } from '../kubernetes/client';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesError } from '../kubernetes/types';
+import { createKubernetesError, extractKubernetesError, summarizeKubernetesError, withRetry } from '../kubernetes/errors';
+import { probeSsh, SshStageResult } from '../ssh/probe';
+
+const DEFAULT_DEVBOX_USER = 'devbox';
+
+// The devbox controller stores the generated key pair in a Secret named after the devbox
+const PRIVATE_KEY_FIELD = 'SEALOS_DEVBOX_PRIVATE_KEY';
+
+// What the first failed stage usually means for a devbox
+const STAGE_VERDICTS: Record<string, string> = {
+  DNS: 'The SSH host does not resolve. Check the zone address or pass an explicit host.',
+  TCP: 'Nothing accepts connections on the NodePort. The devbox Service or node port is not reachable (stopped devbox, firewall, or wrong port).',
+  Banner: 'The port is open but sshd did not answer. sshd is likely not running inside the devbox pod.',
+  Auth: 'sshd is up but rejected the credentials. The key or user does not match the devbox.',
+  Shell: 'Login works but no command session could be opened. Check the user shell inside the devbox.',
+};
+
+export interface CheckDevboxSshResponse {
+  namespace: string;
+  name: string;
+  phase?: string;
+  host?: string;
+  port?: number;
+  user?: string;
+  stages: SshStageResult[];
+  reachable: boolean;
+  verdict?: string;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+/**
+ * Read the devbox private key, if the Secret is readable. The value is base64
+ * in the Secret and base64 again inside, so decode until a PEM header shows up.
+ */
+async function readPrivateKey(kubernetesClient: KubernetesClient, name: string, namespace: string): Promise<string | undefined> {
+  const secret = await withRetry(() => kubernetesClient.getApiClient().readNamespacedSecret(name, namespace));
+  const raw = secret.body.data?.[PRIVATE_KEY_FIELD];
+  if (!raw) return undefined;
+
+  const decoded = Buffer.from(raw, 'base64').toString('utf-8');
+  if (decoded.includes('PRIVATE KEY')) return decoded;
+
+  const twiceDecoded = Buffer.from(decoded, 'base64').toString('utf-8');
+  return twiceDecoded.includes('PRIVATE KEY') ? twiceDecoded : undefined;
+}
+
+/**
+ * Turn the stage results into a one-line verdict
+ */
+function buildVerdict(stages: SshStageResult[], phase: string | undefined): string {
+  const failed = stages.find(s => s.status === 'Failed');
+  if (!failed) {
+    const skipped = stages.some(s => s.status === 'Skipped');
+    return skipped
+      ? 'sshd answers on the NodePort. Login was not tested because no private key was available.'
+      : 'SSH works end to end.';
+  }
+
+  const verdict = STAGE_VERDICTS[failed.stage];
+  if (phase && phase !== 'Running' && (failed.stage === 'TCP' || failed.stage === 'Banner')) {
+    return `Devbox is ${phase}, not Running. ${verdict}`;
+  }
+  if (phase === 'Running') {
+    return `Devbox is Running but SSH fails at ${failed.stage}. ${verdict}`;
+  }
+  return verdict;
+}
+
+export async function checkDevboxSsh(input: CheckDevboxSshInput): Promise<CheckDevboxSshResponse> {
+  // Validate input
+  const validatedInput = CheckDevboxSshInputSchema.parse(input);
+  const { name, namespace, timeoutMs, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: check devbox ssh ${name} -n ${namespace}`);
+
+  const response: CheckDevboxSshResponse = {
+    namespace,
+    name,
+    stages: [],
+    reachable: false,
+    success: true,
+  };
+  const warnings: string[] = [];
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+
+    // 1. Devbox CR: phase, nodePort and user
+    const devbox = await withRetry(() => kubernetesClient.getCustomObjectsApi().getNamespacedCustomObject(
+      'devbox.sealos.io',
+      'v1alpha2',
+      namespace,
+      'devboxes',
+      name
+    ));
+    const body = devbox.body as any;
+
+    const host = validatedInput.host || kubernetesClient.getClusterHost();
+    const port = validatedInput.port || body.status?.network?.nodePort;
+    const user = validatedInput.user || body.spec?.config?.user || DEFAULT_DEVBOX_USER;
+
+    response.phase = body.status?.phase;
+    response.host = host;
+    response.port = port;
+    response.user = user;
+
+    if (!port) {
+      return {
+        ...response,
+        error: createKubernetesError('InvalidArguments', `Devbox ${name} has no SSH NodePort in status.network.nodePort`, {
+          hint: 'The devbox network is not ready yet, or it is stopped. Pass an explicit port to probe anyway.',
+        }),
+        success: false,
+      };
+    }
+
+    // 2. Private key from the devbox Secret (optional: without it Auth and Shell are skipped)
+    let privateKey: string | undefined;
+    try {
+      privateKey = await readPrivateKey(kubernetesClient, name, namespace);
+      if (!privateKey) {
+        warnings.push(`Secret ${name} has no usable ${PRIVATE_KEY_FIELD}; skipping Auth and Shell`);
+      }
+    } catch (error) {
+      const k8sError = extractKubernetesError(error);
+      warnings.push(`Cannot read Secret ${name} (${k8sError.errorCode}); skipping Auth and Shell`);
+    }
+
+    // 3. Stage-by-stage probe
+    response.stages = await probeSsh({ host, port, username: user, privateKey, timeoutMs });
+    response.reachable = response.stages.some(s => s.stage === 'Banner' && s.status === 'OK');
+    response.verdict = buildVerdict(response.stages, response.phase);
+
+    if (warnings.length > 0) {
+      response.warnings = warnings;
+    }
+
+    return response;
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error checking SSH for devbox ${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const CHECK_DEVBOX_SSH_TOOL = defineTool({
+  name: 'check_devbox_ssh',
+  description: 'Check SSH connectivity to a devbox stage by stage (DNS, TCP, banner, auth, shell) using its NodePort and spec.config.user. Tells "Running but cannot SSH in" apart from pod failures',
+  schema: CheckDevboxSshInputSchema,
+  handler: checkDevboxSsh,
+});
@@ -0,0 +1,97 @@
+import { DevboxHistoryInput, DevboxHistoryInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { DevboxCommit, KubernetesError } from '../kubernetes/types';
+import { extractKubernetesError, summarizeKubernetesError, withRetry } from '../kubernetes/errors';
+import { buildDevboxHistory, listDevboxPods } from '../kubernetes/devbox';
+import * as k8s from '@kubernetes/client-node';
+
+export interface DevboxHistoryResponse {
+  namespace: string;
+  name: string;
+  phase?: string;
+  specImage?: string;
+  runningImage?: string;
+  lastSuccessful?: string;
+  commits: DevboxCommit[];
+  total: number;
+  flagged: number;
+  message?: string;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+export async function getDevboxHistory(input: DevboxHistoryInput): Promise<DevboxHistoryResponse> {
+  // Validate input
+  const validatedInput = DevboxHistoryInputSchema.parse(input);
+  const { name, namespace, limit, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: get devbox ${name} -n ${namespace} -o jsonpath='{.status.commitHistory}'`);
+
+  const response: DevboxHistoryResponse = {
+    namespace,
+    name,
+    commits: [],
+    total: 0,
+    flagged: 0,
+    success: true,
+  };
+  const warnings: string[] = [];
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+
+    // 1. Devbox CR: spec.image and status.commitHistory
+    const devbox = await withRetry(() => kubernetesClient.getCustomObjectsApi().getNamespacedCustomObject(
+      'devbox.sealos.io',
+      'v1alpha2',
+      namespace,
+      'devboxes',
+      name
+    ));
+    const manifest = devbox.body as any;
+
+    // 2. Devbox pod: the image actually running (optional)
+    let pods: k8s.V1Pod[] = [];
+    try {
+      pods = await listDevboxPods(kubernetesClient, namespace, name);
+    } catch (error) {
+      warnings.push(`Failed to list devbox pods: ${extractKubernetesError(error).message}`);
+    }
+
+    const history = buildDevboxHistory(manifest, pods);
+
+    response.phase = manifest.status?.phase;
+    response.specImage = history.specImage;
+    response.runningImage = history.runningImage;
+    response.lastSuccessful = history.lastSuccessful;
+    response.commits = history.commits.slice(0, limit);
+    response.total = history.commits.length;
+    response.flagged = history.commits.filter(c => c.flagged).length;
+    response.message = history.message;
+
+    if (warnings.length > 0) {
+      response.warnings = warnings;
+    }
+
+    return response;
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error getting history for devbox ${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const DEVBOX_HISTORY_TOOL = defineTool({
+  name: 'devbox_history',
+  description: 'List the commit/image history of a devbox (status.commitHistory) with time and status, flag failed or pending commits and show which image is running now',
+  schema: DevboxHistoryInputSchema,
+  handler: getDevboxHistory,
+});
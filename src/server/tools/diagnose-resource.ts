@@ -0,0 +1,441 @@
+import { DiagnoseResourceInput, DiagnoseResourceInputSchema } from './types';
+import { defineTool } from './registry';
+import { inspectResource, InspectResourceResponse } from './inspect-resource';
+import { listPodsByNamespace } from './list-pods-by-ns';
+import { KubernetesError, PodInfo } from '../kubernetes/types';
+import { createKubernetesError } from '../kubernetes/errors';
+import { DEBT_LIMIT_PATTERN } from '../kubernetes/billing';
+import { DEVBOX_TERMINAL_STATES, DEVBOX_TRANSITIONAL_PHASES } from '../kubernetes/devbox';
+import { matchesParentLabels } from '../kubernetes/ownership';
+import { rankSuspectPods } from '../kubernetes/pods';
+
+// Quoted JSON-path evidence, e.g. { path: 'devbox.status.phase', value: 'Stopped' }
+export interface DiagnosisEvidence {
+  path: string;
+  value: string;
+}
+
+// One executed step of the dev_agent_workflow.md state machine
+export interface DiagnosisStep {
+  step: number;
+  action: string;
+  outcome: string;
+}
+
+export interface DiagnosisVerdict {
+  type: 'FINISH' | 'ASK';
+  status: 'Confirmed' | 'Inconclusive' | 'Healthy' | 'NotFound';
+  cause: string;
+  evidence: DiagnosisEvidence[];
+  suggestions: string[];
+}
+
+// Response type for MCP tool
+export interface DiagnoseResourceResponse {
+  resource: string;
+  name: string;
+  namespace: string;
+  phase?: string;
+  steps: DiagnosisStep[];
+  candidates: string[];
+  checkedPods: string[];
+  needsApproval: boolean;
+  verdict?: DiagnosisVerdict;
+  error?: KubernetesError;
+  success: boolean;
+}
+
+// Step 1 state tables (see dev_agent_workflow.md; devbox tables live in kubernetes/devbox.ts)
+export const CLUSTER_TRANSITIONAL_PHASES = new Set(['Starting', 'Creating', 'Updating', 'Stopping', 'Deleting']);
+
+// Step 3 smoking guns, ordered Status > Events > Logs
+const CRITICAL_CONTAINER_REASONS = new Set([
+  'OOMKilled', 'CrashLoopBackOff', 'ImagePullBackOff', 'ErrImagePull', 'InvalidImageName',
+  'CreateContainerConfigError', 'CreateContainerError', 'RunContainerError', 'Error',
+]);
+const CRITICAL_EVENT_REASONS = new Set([
+  'FailedMount', 'FailedAttachVolume', 'FailedScheduling', 'SchedulingFailed',
+  'Unhealthy', 'ProbeFailed', 'FailedCreatePodSandBox', 'Evicted',
+]);
+const LOG_ERROR_PATTERN = /\b(panic|fatal|error)\b/i;
+const MAX_LOG_EVIDENCE = 3;
+
+// Remediation hints keyed by the reason that confirmed the diagnosis
+const SUGGESTIONS: Record<string, string> = {
+  OOMKilled: 'The container exceeded its memory limit. Increase the memory limit or check the application for memory leaks.',
+  CrashLoopBackOff: 'The container keeps crashing. Check the start command and the logs of the previous container instance.',
+  Error: 'The container exited with an error. Check the start command and the application logs.',
+  ImagePullBackOff: 'Check that the image address exists and that the registry credentials are valid.',
+  ErrImagePull: 'Check that the image address exists and that the registry credentials are valid.',
+  InvalidImageName: 'Fix the image reference in the resource spec.',
+  CreateContainerConfigError: 'Check that every referenced ConfigMap and Secret exists.',
+  CreateContainerError: 'Check the container spec (command, volume mounts, security context).',
+  RunContainerError: 'Check the container spec (command, volume mounts, security context).',
+  FailedMount: 'Check the PVC status and the volume provisioner.',
+  FailedAttachVolume: 'Check the PVC status and the volume provisioner.',
+  FailedScheduling: 'Check node capacity, the namespace quota and node selectors/tolerations.',
+  SchedulingFailed: 'Check node capacity, the namespace quota and node selectors/tolerations.',
+  Unhealthy: 'Probes are failing. Check that the application listens on the probed port and path.',
+  ProbeFailed: 'Probes are failing. Check that the application listens on the probed port and path.',
+  FailedCreatePodSandBox: 'The node could not create the pod sandbox. Check the node network (CNI) status.',
+  Evicted: 'The pod was evicted. Check node pressure and the ephemeral storage usage.',
+  Logs: 'The application logged errors. Fix the reported error and restart the workload.',
+};
+
+interface PodFinding {
+  level: 'Status' | 'Events' | 'Logs';
+  reason: string;
+  evidence: DiagnosisEvidence[];
+}
+
+/**
+ * Rule 0: look for debt-limit markers in event reason/message
+ */
+function findDebtLimitEvidence(kind: string, events: any[] = []): DiagnosisEvidence | null {
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (DEBT_LIMIT_PATTERN.test(event.reason || '') || DEBT_LIMIT_PATTERN.test(event.message || '')) {
+      return { path: `${kind}.events[${i}]`, value: `${event.reason}: ${event.message}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Step 1: decide whether the parent state is terminal or needs a pod deep dive
+ */
+function evaluateParent(
+  resource: 'devbox' | 'cluster',
+  manifest: any,
+  evidence: DiagnosisEvidence[]
+): { phase: string; outcome: string; verdict?: DiagnosisVerdict } {
+  const spec = manifest?.spec || {};
+  const status = manifest?.status || {};
+
+  if (resource === 'devbox') {
+    const state = spec.state || 'Unknown';
+    const phase = status.phase || 'Unknown';
+    evidence.push({ path: 'devbox.spec.state', value: state });
+    evidence.push({ path: 'devbox.status.phase', value: phase });
+
+    if (DEVBOX_TERMINAL_STATES.has(state) && DEVBOX_TERMINAL_STATES.has(phase)) {
+      return {
+        phase,
+        outcome: 'Terminal state: devbox is stopped as requested',
+        verdict: {
+          type: 'FINISH',
+          status: 'Healthy',
+          cause: 'The devbox is fully stopped as expected.',
+          evidence,
+          suggestions: ['Start the devbox if it should be running.'],
+        },
+      };
+    }
+    if (state === 'Running' && phase === 'Stopped') {
+      return { phase, outcome: 'Fake stop: spec.state is Running but status.phase is Stopped' };
+    }
+    if (DEVBOX_TRANSITIONAL_PHASES.has(phase)) {
+      return { phase, outcome: `Transitional phase ${phase}: investigating pods` };
+    }
+    return { phase, outcome: `Desired state ${state}, phase ${phase}: investigating pods` };
+  }
+
+  const phase = status.phase || 'Unknown';
+  evidence.push({ path: 'cluster.status.phase', value: phase });
+
+  if (phase === 'Stopped') {
+    return {
+      phase,
+      outcome: 'Terminal state: cluster is stopped',
+      verdict: {
+        type: 'FINISH',
+        status: 'Healthy',
+        cause: 'The database cluster is stopped.',
+        evidence,
+        suggestions: ['Start the database if it should be running.'],
+      },
+    };
+  }
+  if (phase === 'Failed') {
+    const failed = (status.conditions || []).find((c: any) => c.status === 'False' && c.message);
+    if (failed) {
+      evidence.push({ path: `cluster.status.conditions[type=${failed.type}]`, value: `${failed.reason || '-'}: ${failed.message}` });
+      return {
+        phase,
+        outcome: `Terminal state: cluster failed (${failed.reason || failed.type})`,
+        verdict: {
+          type: 'FINISH',
+          status: 'Confirmed',
+          cause: `The database cluster failed: ${failed.message}`,
+          evidence,
+          suggestions: [SUGGESTIONS[failed.reason] || 'Check the KubeBlocks operator logs for this cluster.'],
+        },
+      };
+    }
+    return { phase, outcome: 'Cluster failed without a clear condition message: investigating pods' };
+  }
+  if (CLUSTER_TRANSITIONAL_PHASES.has(phase)) {
+    return { phase, outcome: `Transitional phase ${phase}: investigating pods` };
+  }
+  return { phase, outcome: `Phase ${phase}: investigating pods` };
+}
+
+/**
+ * Step 2: source-level label rules, falling back to a name prefix match
+ */
+function selectCandidatePods(
+  resource: 'devbox' | 'cluster',
+  name: string,
+  pods: PodInfo[]
+): { candidates: PodInfo[]; rule: string } {
+  const labelled = pods.filter(pod => matchesParentLabels(pod.labels, resource, name));
+
+  if (labelled.length > 0) {
+    return { candidates: rankSuspectPods(labelled), rule: 'label' };
+  }
+
+  // Generated pods are named "<name>-...": a bare prefix would let devbox "api" pick up
+  // "apiserver-0" from another workload. No match falls through to the "no pods" verdict.
+  const prefixed = pods.filter(pod => pod.name === name || pod.name.startsWith(`${name}-`));
+  return { candidates: rankSuspectPods(prefixed), rule: 'name-prefix' };
+}
+
+/**
+ * Step 3: Status > Events > Logs analysis of a single pod
+ */
+function analyzePod(podName: string, result: InspectResourceResponse): PodFinding | null {
+  const status = result.manifest?.status || {};
+
+  // Level 1: container status
+  const statusGroups: Array<[string, any[]]> = [
+    ['initContainerStatuses', status.initContainerStatuses || []],
+    ['containerStatuses', status.containerStatuses || []],
+  ];
+  for (const [field, statuses] of statusGroups) {
+    for (let i = 0; i < statuses.length; i++) {
+      const cs = statuses[i];
+      const candidates: Array<[string, string | undefined]> = [
+        ['state.waiting.reason', cs.state?.waiting?.reason],
+        ['state.terminated.reason', cs.state?.terminated?.reason],
+        ['lastState.terminated.reason', cs.lastState?.terminated?.reason],
+      ];
+      for (const [subPath, reason] of candidates) {
+        if (reason && CRITICAL_CONTAINER_REASONS.has(reason)) {
+          return {
+            level: 'Status',
+            reason,
+            evidence: [{ path: `pod/${podName}.status.${field}[${i}].${subPath}`, value: reason }],
+          };
+        }
+      }
+    }
+  }
+  if (status.reason === 'Evicted') {
+    return {
+      level: 'Status',
+      reason: 'Evicted',
+      evidence: [{ path: `pod/${podName}.status.reason`, value: `Evicted: ${status.message || '-'}` }],
+    };
+  }
+
+  // Level 2: warning events
+  const events = result.events || [];
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (event.type === 'Warning' && CRITICAL_EVENT_REASONS.has(event.reason)) {
+      return {
+        level: 'Events',
+        reason: event.reason,
+        evidence: [{ path: `pod/${podName}.events[${i}].reason`, value: `${event.reason}: ${event.message}` }],
+      };
+    }
+  }
+
+  // Level 3: logs
+  const errorLines = (result.logs || '')
+    .split('\n')
+    .filter(line => !line.startsWith('=== Container:') && !line.startsWith('[Log fetch failed'))
+    .filter(line => LOG_ERROR_PATTERN.test(line))
+    .slice(0, MAX_LOG_EVIDENCE);
+  if (errorLines.length > 0) {
+    return {
+      level: 'Logs',
+      reason: 'Logs',
+      evidence: errorLines.map(line => ({ path: `pod/${podName}.logs`, value: line.trim() })),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Step 4: explain why no pod could be found, based on the parent phase
+ */
+function describeMissingPods(kind: string, phase: string): string {
+  if (['Creating', 'Starting', 'Pending'].includes(phase)) {
+    return `The ${kind} is in an early ${phase} phase and its pods have not been scheduled yet. Check again later or inspect the controller logs.`;
+  }
+  if (phase === 'Running') {
+    return `The ${kind} reports Running, but no related pod was found. The controller is likely malfunctioning.`;
+  }
+  return `No pod related to the ${kind} was found while it is in phase ${phase}.`;
+}
+
+/**
+ * Main function running the dev_agent_workflow.md diagnosis state machine
+ */
+export async function diagnoseResource(input: DiagnoseResourceInput): Promise<DiagnoseResourceResponse> {
+  // Validate input
+  const validatedInput = DiagnoseResourceInputSchema.parse(input);
+  const { resource, name, namespace, lines, maxPods, zone } = validatedInput;
+
+  console.error(`[Server] Executing: diagnose ${resource} ${name} -n ${namespace}${zone ? ` (zone: ${zone})` : ''}`);
+
+  const response: DiagnoseResourceResponse = {
+    resource,
+    name,
+    namespace,
+    steps: [],
+    candidates: [],
+    checkedPods: [],
+    needsApproval: false,
+    success: true,
+  };
+  const evidence: DiagnosisEvidence[] = [];
+
+  // --- Step 1: Parent Inspection ---
+  const parent = await inspectResource({ resource, name, namespace, lines, zone });
+  if (!parent.success || !parent.manifest) {
+    response.steps.push({ step: 1, action: `inspect_resource ${resource}/${name}`, outcome: 'Failed' });
+    return {
+      ...response,
+      error: parent.error || createKubernetesError('Unknown', `Failed to inspect ${resource} ${name}`),
+      success: false,
+    };
+  }
+
+  // Rule 0: debt-limit has the highest priority
+  const debtEvidence = findDebtLimitEvidence(resource, parent.events);
+  if (debtEvidence) {
+    response.steps.push({ step: 1, action: `inspect_resource ${resource}/${name}`, outcome: 'debt-limit event found' });
+    response.verdict = {
+      type: 'FINISH',
+      status: 'Confirmed',
+      cause: 'The resource was stopped or cannot be created because the account is in debt or reached its quota limit (debt-limit).',
+      evidence: [debtEvidence],
+      suggestions: ['Top up the account balance, then start the resource again.'],
+    };
+    return response;
+  }
+
+  const parentResult = evaluateParent(resource, parent.manifest, evidence);
+  response.phase = parentResult.phase;
+  response.steps.push({ step: 1, action: `inspect_resource ${resource}/${name}`, outcome: parentResult.outcome });
+  if (parentResult.verdict) {
+    response.verdict = parentResult.verdict;
+    return response;
+  }
+
+  // --- Step 2: Pod Targeting ---
+  const podList = await listPodsByNamespace({ namespace, zone });
+  if (!podList.success) {
+    response.steps.push({ step: 2, action: `list_pods_by_ns ${namespace}`, outcome: 'Failed' });
+    return { ...response, error: podList.error, success: false };
+  }
+
+  const { candidates, rule } = selectCandidatePods(resource, name, podList.pods);
+  response.candidates = candidates.map(pod => pod.name);
+  response.steps.push({
+    step: 2,
+    action: `list_pods_by_ns ${namespace}`,
+    outcome: `${candidates.length} candidate pod(s) matched by ${rule}`,
+  });
+
+  if (candidates.length === 0) {
+    response.verdict = {
+      type: 'FINISH',
+      status: 'NotFound',
+      cause: describeMissingPods(resource, parentResult.phase),
+      evidence,
+      suggestions: [`Check the ${resource} controller and the namespace events.`],
+    };
+    return response;
+  }
+
+  // --- Step 3: Deep Dive (Top-N automatic, then ask) ---
+  for (const pod of candidates) {
+    if (response.checkedPods.length >= maxPods) {
+      response.needsApproval = true;
+      response.verdict = {
+        type: 'ASK',
+        status: 'Inconclusive',
+        cause: `${response.checkedPods.length} pod(s) checked without conclusive evidence. ${candidates.length - response.checkedPods.length} candidate(s) remain.`,
+        evidence,
+        suggestions: [`Approve inspecting the next candidate: ${pod.name}`],
+      };
+      return response;
+    }
+
+    const podResult = await inspectResource({ resource: 'pod', name: pod.name, namespace, lines, zone });
+    if (!podResult.success) {
+      response.steps.push({ step: 3, action: `inspect_resource pod/${pod.name}`, outcome: 'Failed' });
+      response.verdict = {
+        type: 'ASK',
+        status: 'Inconclusive',
+        cause: `Failed to inspect pod ${pod.name}: ${podResult.error?.message || 'Unknown error'}`,
+        evidence,
+        suggestions: ['Check access to the namespace, then retry the diagnosis.'],
+      };
+      return response;
+    }
+    response.checkedPods.push(pod.name);
+
+    const finding = analyzePod(pod.name, podResult);
+    if (!finding) {
+      response.steps.push({ step: 3, action: `inspect_resource pod/${pod.name}`, outcome: 'Inconclusive' });
+      continue;
+    }
+
+    response.steps.push({
+      step: 3,
+      action: `inspect_resource pod/${pod.name}`,
+      outcome: `${finding.level}: ${finding.reason}`,
+    });
+
+    // --- Step 4: Conclusion ---
+    const podProblem = finding.level === 'Logs' ? 'logged errors' : `failed (${finding.reason})`;
+    const cause = CLUSTER_TRANSITIONAL_PHASES.has(parentResult.phase) || DEVBOX_TRANSITIONAL_PHASES.has(parentResult.phase)
+      ? `The ${resource} is stuck in ${parentResult.phase} because pod ${pod.name} ${podProblem}.`
+      : `Pod ${pod.name} of ${resource} ${name} ${podProblem}.`;
+
+    response.verdict = {
+      type: 'FINISH',
+      status: 'Confirmed',
+      cause,
+      evidence: [...evidence, ...finding.evidence],
+      suggestions: [
+        SUGGESTIONS[finding.reason] || 'Check the pod status and events.',
+        `To recreate the pod, run in the REPL: restart pod ${pod.name} ${namespace} (dry run + confirmation), or manually: kubectl delete pod ${pod.name} -n ${namespace}`,
+      ],
+    };
+    return response;
+  }
+
+  response.steps.push({ step: 4, action: 'conclude', outcome: 'All candidates inconclusive' });
+  response.verdict = {
+    type: 'FINISH',
+    status: 'Inconclusive',
+    cause: 'All candidate pods were checked and no application-level anomaly was found. A network issue is suspected.',
+    evidence,
+    suggestions: ['Check Service, Ingress and network policies for this workload.'],
+  };
+  return response;
+}
+
+// Tool definition for the MCP registry
+export const DIAGNOSE_RESOURCE_TOOL = defineTool({
+  name: 'diagnose_resource',
+  description: 'Diagnose a Devbox or KubeBlocks cluster: inspect the parent CRD, locate its pods by label, analyze Status > Events > Logs and return a Cause/Evidence/Suggestion verdict',
+  schema: DiagnoseResourceInputSchema,
+  handler: diagnoseResource,
+});
@@ -0,0 +1,185 @@
+import { Writable } from 'stream';
+import { FollowPodLogsInput, FollowPodLogsInputSchema } from './types';
+import { defineTool, ToolContext } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesError } from '../kubernetes/types';
+import { createKubernetesError, extractKubernetesError, summarizeKubernetesError, withRetry } from '../kubernetes/errors';
+import { redactSecrets } from '../../shared/redaction';
+
+export interface LogLine {
+  container: string;
+  line: string;
+}
+
+export type FollowStopReason = 'cancelled' | 'duration' | 'ended';
+
+export interface FollowPodLogsResponse {
+  namespace: string;
+  pod: string;
+  containers: string[];
+  streamed: number;       // lines delivered after filtering
+  scanned: number;        // lines read before filtering
+  stoppedBy?: FollowStopReason;
+  lines?: LogLine[];      // only when the caller did not ask for progress notifications
+  truncated?: boolean;
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+const FLUSH_INTERVAL_MS = 250;
+const MAX_COLLECTED_LINES = 500;
+
+/**
+ * Compile the grep pattern, reporting a bad expression as InvalidArguments
+ */
+function compileFilter(grep: string | undefined, ignoreCase: boolean, invert: boolean): ((line: string) => boolean) | KubernetesError {
+  if (!grep) return () => true;
+  try {
+    const pattern = new RegExp(grep, ignoreCase ? 'i' : '');
+    return (line: string) => pattern.test(line) !== invert;
+  } catch (error) {
+    return createKubernetesError('InvalidArguments', `Invalid grep pattern: ${error instanceof Error ? error.message : grep}`, { code: 400, reason: 'InvalidArguments' });
+  }
+}
+
+/**
+ * Writable that splits a chunked log stream into complete lines
+ */
+function lineSplitter(onLine: (line: string) => void): Writable {
+  let partial = '';
+  return new Writable({
+    write(chunk, _encoding, callback) {
+      const lines = (partial + chunk.toString()).split('\n');
+      partial = lines.pop() || '';
+      lines.forEach(onLine);
+      callback();
+    },
+    final(callback) {
+      if (partial) onLine(partial);
+      callback();
+    },
+  });
+}
+
+export async function followPodLogs(input: FollowPodLogsInput, context: ToolContext = {}): Promise<FollowPodLogsResponse> {
+  // Validate input
+  const validatedInput = FollowPodLogsInputSchema.parse(input);
+  const { name, namespace, containers, tailLines, grep, ignoreCase, invert, durationSeconds, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: kubectl logs -f ${name} -n ${namespace}${grep ? ` | grep ${grep}` : ''}`);
+
+  const response: FollowPodLogsResponse = { namespace, pod: name, containers: [], streamed: 0, scanned: 0, success: true };
+  const warnings: string[] = [];
+
+  const filter = compileFilter(grep, ignoreCase, invert);
+  if (typeof filter !== 'function') {
+    return { ...response, error: filter, success: false };
+  }
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+    const podResult = await withRetry(() => kubernetesClient.getApiClient().readNamespacedPod(name, namespace));
+    const available = [
+      ...(podResult.body.spec?.containers || []).map(c => c.name),
+      ...(podResult.body.spec?.initContainers || []).map(c => c.name),
+    ];
+    const appContainers = (podResult.body.spec?.containers || []).map(c => c.name);
+
+    const unknown = (containers || []).filter(c => !available.includes(c));
+    if (unknown.length > 0) {
+      return {
+        ...response,
+        error: createKubernetesError('InvalidArguments', `Container(s) ${unknown.join(', ')} not found in pod ${name}. Available: ${available.join(', ')}`, { code: 400, reason: 'InvalidArguments' }),
+        success: false,
+      };
+    }
+    response.containers = containers && containers.length > 0 ? containers : appContainers;
+
+    // Lines are batched and flushed as progress messages, or collected when nobody listens
+    let pending: LogLine[] = [];
+    const collected: LogLine[] = [];
+    const onLine = (container: string) => (line: string) => {
+      response.scanned++;
+      if (!filter(line)) return;
+      response.streamed++;
+      if (context.progress) {
+        pending.push({ container, line });
+      } else if (collected.length < MAX_COLLECTED_LINES) {
+        collected.push({ container, line });
+      } else {
+        response.truncated = true;
+      }
+    };
+    const flush = () => {
+      if (pending.length === 0 || !context.progress) return;
+      const batch = pending;
+      pending = [];
+      // Progress messages bypass the response redaction in executeTool
+      context.progress(JSON.stringify(context.reveal ? batch : redactSecrets(batch).value)).catch(error => {
+        console.error('[Server] Failed to send log batch:', error instanceof Error ? error.message : error);
+      });
+    };
+
+    const logClient = kubernetesClient.getLogClient();
+    const requests: Array<{ abort: () => void }> = [];
+    let openStreams = response.containers.length;
+    let stopped = false;
+
+    response.stoppedBy = await new Promise<FollowStopReason>((resolve) => {
+      const finish = (reason: FollowStopReason) => {
+        stopped = true;
+        clearTimeout(timer);
+        clearInterval(flusher);
+        resolve(reason);
+      };
+      const timer = setTimeout(() => finish('duration'), durationSeconds * 1000);
+      const flusher = setInterval(flush, FLUSH_INTERVAL_MS);
+
+      if (context.signal?.aborted) return finish('cancelled');
+      if (openStreams === 0) return finish('ended');
+      context.signal?.addEventListener('abort', () => finish('cancelled'), { once: true });
+
+      response.containers.forEach(container => {
+        const stream = lineSplitter(onLine(container));
+        // A container stream ends when the container stops; stop once all have ended
+        stream.on('finish', () => {
+          if (--openStreams === 0) finish('ended');
+        });
+        logClient.log(namespace, name, container, stream, { follow: true, tailLines })
+          // A stream that connects after the stop is aborted right away
+          .then(req => stopped ? req.abort() : requests.push(req))
+          .catch(error => {
+            warnings.push(`Failed to follow ${container}: ${extractKubernetesError(error).message}`);
+            if (--openStreams === 0) finish('ended');
+          });
+      });
+    });
+
+    // Stop the HTTP streams and deliver what is still buffered
+    requests.forEach(req => req.abort());
+    flush();
+
+    if (!context.progress) response.lines = collected;
+    if (warnings.length > 0) response.warnings = warnings;
+    console.error(`[Server] Log follow for ${name} stopped (${response.stoppedBy}): ${response.streamed}/${response.scanned} lines`);
+    return response;
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error following logs for pod ${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, ...(warnings.length > 0 && { warnings }), error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const FOLLOW_POD_LOGS_TOOL = defineTool({
+  name: 'follow_pod_logs',
+  description: 'Follow (stream) the logs of one or more containers in a pod, optionally filtered by a grep-style pattern. Lines are sent as progress notifications when the caller provides a progress token; the call ends on cancellation, when the containers stop, or after durationSeconds',
+  schema: FollowPodLogsInputSchema,
+  handler: followPodLogs,
+});
@@ -0,0 +1,210 @@
+import { GetDbConnectionInput, GetDbConnectionInputSchema } from './types';
+import { defineTool } from './registry';
+import { KubernetesClient } from '../kubernetes/client';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesError } from '../kubernetes/types';
+import { extractKubernetesError, summarizeKubernetesError, withRetry } from '../kubernetes/errors';
+import * as k8s from '@kubernetes/client-node';
+
+const MASKED_PASSWORD = '********';
+
+type DbEngine = 'postgresql' | 'mysql' | 'redis' | 'mongodb' | 'unknown';
+
+// Engine detection by clusterDefinitionRef, with the engine's default port
+const ENGINES: Array<{ match: RegExp; engine: DbEngine; defaultPort: number }> = [
+  { match: /postgres/i, engine: 'postgresql', defaultPort: 5432 },
+  { match: /mysql/i, engine: 'mysql', defaultPort: 3306 },
+  { match: /redis/i, engine: 'redis', defaultPort: 6379 },
+  { match: /mongo/i, engine: 'mongodb', defaultPort: 27017 },
+];
+
+export interface ConnectionString {
+  client: string;
+  command: string;
+}
+
+export interface DbConnectionResponse {
+  namespace: string;
+  name: string;
+  engine?: DbEngine;
+  clusterDefinitionRef?: string;
+  service?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  revealed: boolean;
+  publicEndpoint?: { type: string; host: string; port: number };
+  connectionStrings: ConnectionString[];
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+/**
+ * Decode a base64 Secret field
+ */
+function decodeSecretField(data: Record<string, string> | undefined, key: string): string | undefined {
+  const value = data?.[key];
+  return value ? Buffer.from(value, 'base64').toString('utf-8') : undefined;
+}
+
+/**
+ * Resolve the in-cluster Service: <db> first, then the non-headless ClusterIP
+ * Service labelled with the cluster's instance name
+ */
+async function resolveServices(
+  kubernetesClient: KubernetesClient,
+  name: string,
+  namespace: string
+): Promise<{ internal?: k8s.V1Service; external?: k8s.V1Service }> {
+  const k8sApi = kubernetesClient.getApiClient();
+  const serviceList = await withRetry(() => k8sApi.listNamespacedService(
+    namespace,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    `app.kubernetes.io/instance=${name}`
+  ));
+  const services = serviceList.body.items;
+
+  const internal = services.find(svc => svc.metadata?.name === name)
+    || services.find(svc => svc.spec?.type === 'ClusterIP' && svc.spec?.clusterIP !== 'None' && !svc.metadata?.name?.endsWith('-headless'));
+  const external = services.find(svc => svc.spec?.type === 'NodePort' || svc.spec?.type === 'LoadBalancer');
+
+  return { internal, external };
+}
+
+/**
+ * Build ready-to-copy client commands for the engine
+ */
+function buildConnectionStrings(engine: DbEngine, host: string, port: number, username: string, password: string): ConnectionString[] {
+  const user = encodeURIComponent(username);
+  const pass = encodeURIComponent(password);
+
+  switch (engine) {
+    case 'postgresql':
+      return [
+        { client: 'psql', command: `psql "postgresql://${user}:${pass}@${host}:${port}/postgres"` },
+        { client: 'uri', command: `postgresql://${user}:${pass}@${host}:${port}/postgres` },
+      ];
+    case 'mysql':
+      return [
+        { client: 'mysql', command: `mysql -h ${host} -P ${port} -u ${username} -p'${password}'` },
+        { client: 'uri', command: `mysql://${user}:${pass}@${host}:${port}` },
+      ];
+    case 'redis':
+      return [
+        { client: 'redis-cli', command: `redis-cli -h ${host} -p ${port} --user ${username} -a '${password}'` },
+        { client: 'uri', command: `redis://${user}:${pass}@${host}:${port}` },
+      ];
+    case 'mongodb':
+      return [
+        { client: 'mongosh', command: `mongosh "mongodb://${user}:${pass}@${host}:${port}/admin"` },
+        { client: 'uri', command: `mongodb://${user}:${pass}@${host}:${port}/admin` },
+      ];
+    default:
+      return [{ client: 'tcp', command: `${host}:${port}` }];
+  }
+}
+
+export async function getDbConnection(input: GetDbConnectionInput): Promise<DbConnectionResponse> {
+  // Validate input
+  const validatedInput = GetDbConnectionInputSchema.parse(input);
+  const { name, namespace, reveal, zone } = validatedInput;
+
+  // Log execution (never the password)
+  console.error(`[Server] Executing: get db connection ${name} -n ${namespace}${reveal ? ' (reveal)' : ''}`);
+
+  const response: DbConnectionResponse = {
+    namespace,
+    name,
+    revealed: false,
+    connectionStrings: [],
+    success: true,
+  };
+  const warnings: string[] = [];
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+
+    // 1. Cluster CR: engine from clusterDefinitionRef
+    const cluster = await withRetry(() => kubernetesClient.getCustomObjectsApi().getNamespacedCustomObject(
+      'apps.kubeblocks.io',
+      'v1alpha1',
+      namespace,
+      'clusters',
+      name
+    ));
+    const clusterDefinitionRef: string = (cluster.body as any).spec?.clusterDefinitionRef || '';
+    const engineInfo = ENGINES.find(e => e.match.test(clusterDefinitionRef));
+    response.clusterDefinitionRef = clusterDefinitionRef || undefined;
+    response.engine = engineInfo?.engine || 'unknown';
+
+    // 2. <db>-conn-credential Secret
+    const secret = await withRetry(() => kubernetesClient.getApiClient().readNamespacedSecret(`${name}-conn-credential`, namespace));
+    const data = secret.body.data;
+    const username = decodeSecretField(data, 'username') || '';
+    const password = decodeSecretField(data, 'password') || '';
+    const secretPort = Number(decodeSecretField(data, 'port'));
+
+    // 3. Service endpoint
+    const { internal, external } = await resolveServices(kubernetesClient, name, namespace);
+    const serviceName = internal?.metadata?.name || name;
+    if (!internal) {
+      warnings.push(`No Service found for ${name}; assuming ${name}.${namespace}.svc`);
+    }
+
+    const port = secretPort || internal?.spec?.ports?.[0]?.port || engineInfo?.defaultPort || 0;
+    const host = decodeSecretField(data, 'host') || `${serviceName}.${namespace}.svc.cluster.local`;
+
+    if (external) {
+      const externalPort = external.spec?.ports?.[0];
+      const ingressHost = external.status?.loadBalancer?.ingress?.[0];
+      const publicHost = ingressHost?.hostname || ingressHost?.ip || kubernetesClient.getClusterHost();
+      response.publicEndpoint = {
+        type: external.spec?.type || 'NodePort',
+        host: publicHost,
+        port: (external.spec?.type === 'NodePort' ? externalPort?.nodePort : externalPort?.port) || 0,
+      };
+    }
+
+    // 4. Mask unless explicitly revealed; reveals are audit-logged (reveal: true in the entry args)
+    const shownPassword = reveal ? password : MASKED_PASSWORD;
+
+    response.service = serviceName;
+    response.host = host;
+    response.port = port;
+    response.username = username;
+    response.password = shownPassword;
+    response.revealed = reveal;
+    response.connectionStrings = buildConnectionStrings(response.engine, host, port, username, shownPassword);
+    if (response.publicEndpoint) {
+      buildConnectionStrings(response.engine, response.publicEndpoint.host, response.publicEndpoint.port, username, shownPassword)
+        .forEach(c => response.connectionStrings.push({ client: `${c.client} (public)`, command: c.command }));
+    }
+
+    if (warnings.length > 0) {
+      response.warnings = warnings;
+    }
+
+    return response;
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error getting connection info for ${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { ...response, error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const GET_DB_CONNECTION_TOOL = defineTool({
+  name: 'get_db_connection',
+  description: 'Get connection info (endpoint, port, username, client commands) for a KubeBlocks database from its <db>-conn-credential Secret. The password is masked unless reveal is set',
+  schema: GetDbConnectionInputSchema,
+  handler: getDbConnection,
+});
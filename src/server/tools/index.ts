@@ -0,0 +1,66 @@
+// Tool registry: every MCP tool exposed by the server, in ListTools order
+
+import { ToolDefinition } from './registry';
+import { LIST_PODS_BY_NS_TOOL } from './list-pods-by-ns';
+import { LIST_DEVBOX_BY_NS_TOOL } from './list-devbox-by-ns';
+import { LIST_CLUSTER_BY_NS_TOOL } from './list-cluster-by-ns';
+import { LIST_QUOTA_BY_NS_TOOL } from './list-quota-by-ns';
+import { LIST_INGRESS_BY_NS_TOOL } from './list-ingress-by-ns';
+import { LIST_NODES_TOOL } from './list-nodes';
+import { LIST_CRONJOBS_BY_NS_TOOL } from './list-cronjobs-by-ns';
+import { LIST_EVENTS_BY_NS_TOOL } from './list-events-by-ns';
+import { LIST_ACCOUNT_BY_NS_TOOL } from './list-account-by-ns';
+import { LIST_DEBT_BY_NS_TOOL } from './list-debt-by-ns';
+import { LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL } from './list-objectstoragebucket-by-ns';
+import { LIST_CERTIFICATE_BY_NS_TOOL } from './list-certificate-by-ns';
+import { INSPECT_RESOURCE_TOOL } from './inspect-resource';
+import { DIAGNOSE_RESOURCE_TOOL } from './diagnose-resource';
+import { ANALYZE_BILLING_TOOL } from './analyze-billing';
+import { CHECK_DEBT_LIMIT_TOOL } from './check-debt-limit';
+import { GET_DB_CONNECTION_TOOL } from './get-db-connection';
+import { CHECK_DEVBOX_SSH_TOOL } from './check-devbox-ssh';
+import { DEVBOX_HISTORY_TOOL } from './devbox-history';
+import { RESOURCE_TREE_TOOL } from './resource-tree';
+import { RANK_SUSPECT_PODS_TOOL } from './rank-suspect-pods';
+import { ANALYZE_POD_LOGS_TOOL } from './analyze-pod-logs';
+import { FOLLOW_POD_LOGS_TOOL } from './follow-pod-logs';
+import { RESTART_POD_TOOL } from './restart-pod';
+import { SET_DEVBOX_STATE_TOOL } from './set-devbox-state';
+import { SUSPEND_CRONJOB_TOOL } from './suspend-cronjob';
+import { RESTART_CLUSTER_TOOL } from './restart-cluster';
+import { QUERY_AUDIT_LOG_TOOL } from './query-audit-log';
+import { NAMESPACE_HEALTH_TOOL } from './namespace-health';
+
+export const TOOLS: ToolDefinition<any>[] = [
+  LIST_PODS_BY_NS_TOOL,
+  LIST_DEVBOX_BY_NS_TOOL,
+  LIST_CLUSTER_BY_NS_TOOL,
+  LIST_QUOTA_BY_NS_TOOL,
+  LIST_INGRESS_BY_NS_TOOL,
+  LIST_NODES_TOOL,
+  LIST_CRONJOBS_BY_NS_TOOL,
+  LIST_EVENTS_BY_NS_TOOL,
+  LIST_ACCOUNT_BY_NS_TOOL,
+  LIST_DEBT_BY_NS_TOOL,
+  LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL,
+  LIST_CERTIFICATE_BY_NS_TOOL,
+  INSPECT_RESOURCE_TOOL,
+  DIAGNOSE_RESOURCE_TOOL,
+  ANALYZE_BILLING_TOOL,
+  CHECK_DEBT_LIMIT_TOOL,
+  GET_DB_CONNECTION_TOOL,
+  CHECK_DEVBOX_SSH_TOOL,
+  DEVBOX_HISTORY_TOOL,
+  RESOURCE_TREE_TOOL,
+  RANK_SUSPECT_PODS_TOOL,
+  ANALYZE_POD_LOGS_TOOL,
+  FOLLOW_POD_LOGS_TOOL,
+  RESTART_POD_TOOL,
+  SET_DEVBOX_STATE_TOOL,
+  SUSPEND_CRONJOB_TOOL,
+  RESTART_CLUSTER_TOOL,
+  QUERY_AUDIT_LOG_TOOL,
+  NAMESPACE_HEALTH_TOOL,
+];
+
+export const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]));
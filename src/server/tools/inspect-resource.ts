@@ -1,6 +1,11 @@
 import { InspectResourceInput, InspectResourceInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { KubernetesClient } from '../kubernetes/client';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { ClusterTopology, DevboxHistory, DevboxPhaseSince, DevboxState, KubernetesError, PreviousContainerLogs } from '../kubernetes/types';
+import { createKubernetesError, extractKubernetesError, withRetry } from '../kubernetes/errors';
+import { buildClusterTopology, listClusterPods } from '../kubernetes/kubeblocks';
+import { buildDevboxHistory, classifyDevboxState, listDevboxPods, phaseSince } from '../kubernetes/devbox';
 
 // Resource type mapping with both singular and plural forms
 const RESOURCE_MAPPING: Record<string, { group: string; version: string; plural: string }> = {
@@ -74,52 +79,15 @@ export interface InspectResourceResponse {
   manifest?: any;
   events?: any[];
   logs?: string;
+  previousLogs?: PreviousContainerLogs[];
+  topology?: ClusterTopology;
+  devboxState?: DevboxState;
+  devboxHistory?: DevboxHistory;
   warnings?: string[];
   error?: KubernetesError;
   success: boolean;
 }
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
-
 /**
  * Clean Kubernetes resource manifest by removing sensitive and noisy fields
  */
@@ -160,14 +128,15 @@ function cleanManifest(manifest: any): any {
  * Fetch resource manifest
  */
 async function fetchResourceManifest(
+  kubernetesClient: KubernetesClient,
   resourceType: string,
   resourceName: string,
   namespace: string
-): Promise<{ manifest?: any; error?: string }> {
+): Promise<{ manifest?: any; phaseSince?: DevboxPhaseSince; error?: KubernetesError }> {
   try {
     const mapping = RESOURCE_MAPPING[resourceType.toLowerCase()];
     if (!mapping) {
-      return { error: `Unsupported resource type: ${resourceType}` };
+      return { error: createKubernetesError('InvalidArguments', `Unsupported resource type: ${resourceType}`) };
     }
 
     const { group, version, plural } = mapping;
@@ -179,40 +148,40 @@ async function fetchResourceManifest(
 
       switch (plural) {
         case 'pods':
-          response = await k8sApi.readNamespacedPod(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedPod(resourceName, namespace));
           break;
         case 'services':
-          response = await k8sApi.readNamespacedService(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedService(resourceName, namespace));
           break;
         case 'configmaps':
-          response = await k8sApi.readNamespacedConfigMap(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedConfigMap(resourceName, namespace));
           break;
         case 'secrets':
-          response = await k8sApi.readNamespacedSecret(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedSecret(resourceName, namespace));
           break;
         case 'events':
-          response = await k8sApi.readNamespacedEvent(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedEvent(resourceName, namespace));
           break;
         case 'namespaces':
-          response = await k8sApi.readNamespace(resourceName);
+          response = await withRetry(() => k8sApi.readNamespace(resourceName));
           break;
         case 'nodes':
-          response = await k8sApi.readNode(resourceName);
+          response = await withRetry(() => k8sApi.readNode(resourceName));
           break;
         case 'persistentvolumes':
-          response = await k8sApi.readPersistentVolume(resourceName);
+          response = await withRetry(() => k8sApi.readPersistentVolume(resourceName));
           break;
         case 'persistentvolumeclaims':
-          response = await k8sApi.readNamespacedPersistentVolumeClaim(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedPersistentVolumeClaim(resourceName, namespace));
           break;
         case 'resourcequotas':
-          response = await k8sApi.readNamespacedResourceQuota(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedResourceQuota(resourceName, namespace));
           break;
         case 'serviceaccounts':
-          response = await k8sApi.readNamespacedServiceAccount(resourceName, namespace);
+          response = await withRetry(() => k8sApi.readNamespacedServiceAccount(resourceName, namespace));
           break;
         default:
-          return { error: `Unsupported core resource: ${plural}` };
+          return { error: createKubernetesError('InvalidArguments', `Unsupported core resource: ${plural}`) };
       }
 
       return { manifest: cleanManifest(response.body) };
@@ -220,38 +189,40 @@ async function fetchResourceManifest(
 
     // Custom Objects API for CRDs
     const customObjectsApi = kubernetesClient.getCustomObjectsApi();
-    const response = await customObjectsApi.getNamespacedCustomObject(
+    const response = await withRetry(() => customObjectsApi.getNamespacedCustomObject(
       group,
       version,
       namespace,
       plural,
       resourceName
-    );
+    ));
 
-    return { manifest: cleanManifest(response.body) };
+    // managedFields are cleaned away, so resolve the phase age from the raw object
+    return { manifest: cleanManifest(response.body), phaseSince: phaseSince(response.body) };
   } catch (error) {
     const k8sError = extractKubernetesError(error);
-    return { error: `Failed to fetch manifest: ${k8sError.message}` };
+    return { error: { ...k8sError, message: `Failed to fetch manifest: ${k8sError.message}` } };
   }
 }
 
 /**
  * Fetch events for a specific resource
  */
-async function fetchResourceEvents(
+export async function fetchResourceEvents(
+  kubernetesClient: KubernetesClient,
   _resourceType: string, // Unused parameter - prefix with underscore to avoid TypeScript warning
   resourceName: string,
   namespace: string
 ): Promise<{ events?: any[]; error?: string }> {
   try {
     const k8sApi = kubernetesClient.getApiClient();
-    const eventList = await k8sApi.listNamespacedEvent(
+    const eventList = await withRetry(() => k8sApi.listNamespacedEvent(
       namespace,
       undefined,
       undefined,
       undefined,
       `involvedObject.name=${resourceName}` // FIXED: Removed prefix and fragile Kind check
-    );
+    ));
 
     const events = eventList.body.items
       .map((event: any) => ({
@@ -279,6 +250,7 @@ async function fetchResourceEvents(
  * Fetch logs for specific containers in a pod
  */
 async function fetchPodLogs(
+  kubernetesClient: KubernetesClient,
   podName: string,
   namespace: string,
   containerNames: string[],
@@ -292,7 +264,7 @@ async function fetchPodLogs(
     const k8sApi = kubernetesClient.getApiClient();
     const logPromises = containerNames.map(async (container) => {
       try {
-        const response = await k8sApi.readNamespacedPodLog(
+        const response = await withRetry(() => k8sApi.readNamespacedPodLog(
           podName,
           namespace,
           container, // Explicitly specify container name
@@ -304,7 +276,7 @@ async function fetchPodLogs(
           undefined, // sinceSeconds
           lines,     // tailLines (9th arg)
           undefined  // timestamps
-        );
+        ));
         return `=== Container: ${container} ===\n${(response.body || '').trim()}`;
       } catch (error: any) {
         // Don't fail the whole request if one container log fails (e.g. init container cleaned up)
@@ -320,13 +292,63 @@ async function fetchPodLogs(
   }
 }
 
+/**
+ * Fetch logs of the last terminated instance for containers that have restarted.
+ * For a CrashLoopBackOff pod the current container is often still empty, so these
+ * are usually the logs that explain the crash.
+ */
+async function fetchPreviousPodLogs(
+  kubernetesClient: KubernetesClient,
+  podName: string,
+  namespace: string,
+  status: any,
+  lines: number
+): Promise<PreviousContainerLogs[]> {
+  const statuses: any[] = [...(status?.initContainerStatuses || []), ...(status?.containerStatuses || [])];
+  const restarted = statuses.filter(s => (s.restartCount || 0) > 0 || s.lastState?.terminated);
+  const k8sApi = kubernetesClient.getApiClient();
+
+  return Promise.all(restarted.map(async (containerStatus): Promise<PreviousContainerLogs> => {
+    const terminated = containerStatus.lastState?.terminated;
+    const entry: PreviousContainerLogs = {
+      container: containerStatus.name,
+      restarts: containerStatus.restartCount || 0,
+      ...(terminated && { exitCode: terminated.exitCode }),
+      ...(terminated?.reason && { reason: terminated.reason }),
+      ...(terminated?.signal && { signal: terminated.signal }),
+      ...(terminated?.finishedAt && { finishedAt: new Date(terminated.finishedAt).toISOString() }),
+    };
+
+    try {
+      const response = await withRetry(() => k8sApi.readNamespacedPodLog(
+        podName,
+        namespace,
+        containerStatus.name,
+        undefined, // follow
+        undefined, // insecureSkipTLSVerifyBackend
+        undefined, // limitBytes
+        undefined, // pretty
+        true,      // previous
+        undefined, // sinceSeconds
+        lines,     // tailLines
+        undefined  // timestamps
+      ));
+      entry.logs = (response.body || '').trim();
+    } catch (error) {
+      // The previous instance may already be garbage-collected; keep the termination info
+      entry.error = `Previous logs unavailable: ${extractKubernetesError(error).message}`;
+    }
+    return entry;
+  }));
+}
+
 /**
  * Main function to inspect a Kubernetes resource
  */
 export async function inspectResource(input: InspectResourceInput): Promise<InspectResourceResponse> {
   // Validate input
   const validatedInput = InspectResourceInputSchema.parse(input);
-  const { namespace, resource, name, lines = 30 } = validatedInput;
+  const { namespace, resource, name, lines = 30, zone } = validatedInput;
 
   // Normalize resource type to lowercase
   const normalizedResourceType = resource.toLowerCase();
@@ -338,9 +360,20 @@ export async function inspectResource(input: InspectResourceInput): Promise<Insp
   const mapping = RESOURCE_MAPPING[normalizedResourceType];
   if (!mapping) {
     return {
-      error: {
-        message: `Unsupported resource type: ${resource}. Supported types: ${Object.keys(RESOURCE_MAPPING).sort().join(', ')}`,
-      },
+      error: createKubernetesError(
+        'InvalidArguments',
+        `Unsupported resource type: ${resource}. Supported types: ${Object.keys(RESOURCE_MAPPING).sort().join(', ')}`
+      ),
+      success: false,
+    };
+  }
+
+  let kubernetesClient: KubernetesClient;
+  try {
+    kubernetesClient = getKubernetesClient(zone);
+  } catch (error) {
+    return {
+      error: extractKubernetesError(error),
       success: false,
     };
   }
@@ -350,14 +383,17 @@ export async function inspectResource(input: InspectResourceInput): Promise<Insp
 
   // --- Step 1: Fetch Manifest FIRST (Blocking) ---
   // We need the manifest to know which containers exist
-  const manifestResult = await fetchResourceManifest(normalizedResourceType, name, namespace);
+  const manifestResult = await fetchResourceManifest(kubernetesClient, normalizedResourceType, name, namespace);
 
   if (manifestResult.manifest) {
     response.manifest = manifestResult.manifest;
+    if (normalizedResourceType === 'devbox' || normalizedResourceType === 'devboxes') {
+      response.devboxState = classifyDevboxState(manifestResult.manifest, manifestResult.phaseSince);
+    }
   } else if (manifestResult.error) {
     return {
       success: false,
-      error: { message: manifestResult.error }
+      error: manifestResult.error,
     };
   }
 
@@ -365,7 +401,7 @@ export async function inspectResource(input: InspectResourceInput): Promise<Insp
   const tasks: Promise<any>[] = [];
 
   // Task A: Events (Always fetch)
-  const eventsPromise = fetchResourceEvents(resource, name, namespace).then(result => {
+  const eventsPromise = fetchResourceEvents(kubernetesClient, resource, name, namespace).then(result => {
     if (result.events) response.events = result.events;
     if (result.error) warnings.push(result.error);
   });
@@ -378,11 +414,43 @@ export async function inspectResource(input: InspectResourceInput): Promise<Insp
     const initContainers = (spec.initContainers || []).map((c: any) => c.name);
     const allContainers = [...initContainers, ...containers];
 
-    const logsPromise = fetchPodLogs(name, namespace, allContainers, lines).then(result => {
+    const logsPromise = fetchPodLogs(kubernetesClient, name, namespace, allContainers, lines).then(result => {
       if (result.logs) response.logs = result.logs;
       if (result.error) warnings.push(result.error);
     });
     tasks.push(logsPromise);
+
+    // Previous instance logs for restarted containers (crash output lives there)
+    const previousPromise = fetchPreviousPodLogs(kubernetesClient, name, namespace, response.manifest?.status, lines).then(previousLogs => {
+      if (previousLogs.length > 0) response.previousLogs = previousLogs;
+    });
+    tasks.push(previousPromise);
+  }
+
+  // Task C: Member pods and roles (Only for KubeBlocks Clusters)
+  if (normalizedResourceType === 'cluster' || normalizedResourceType === 'clusters') {
+    const clusterDefinitionRef = response.manifest?.spec?.clusterDefinitionRef || '';
+    const topologyPromise = listClusterPods(kubernetesClient, namespace, name)
+      .then(podsByCluster => {
+        response.topology = buildClusterTopology(podsByCluster.get(name) || [], clusterDefinitionRef);
+      })
+      .catch(error => {
+        warnings.push(`Failed to fetch cluster pods: ${extractKubernetesError(error).message}`);
+      });
+    tasks.push(topologyPromise);
+  }
+
+  // Task D: Commit history and running image (Only for Devboxes)
+  if (normalizedResourceType === 'devbox' || normalizedResourceType === 'devboxes') {
+    const historyPromise = listDevboxPods(kubernetesClient, namespace, name)
+      .catch(error => {
+        warnings.push(`Failed to fetch devbox pods: ${extractKubernetesError(error).message}`);
+        return [];
+      })
+      .then(pods => {
+        response.devboxHistory = buildDevboxHistory(response.manifest, pods);
+      });
+    tasks.push(historyPromise);
   }
 
   // --- Step 3: Execute Parallel Tasks ---
@@ -393,4 +461,12 @@ export async function inspectResource(input: InspectResourceInput): Promise<Insp
   }
 
   return response;
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const INSPECT_RESOURCE_TOOL = defineTool({
+  name: 'inspect_resource',
+  description: 'Inspect a Kubernetes resource by fetching its manifest, events, and logs (for pods)',
+  schema: InspectResourceInputSchema,
+  handler: inspectResource,
+});
@@ -1,53 +1,8 @@
 import { ListAccountByNsInput, ListAccountByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListAccountResponse, AccountStatus } from '../kubernetes/types';
-
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListAccountResponse, AccountStatus } from '../kubernetes/types';
 
 /**
  * Calculate age from creation timestamp
@@ -73,21 +28,21 @@ function calculateAge(creationTimestamp: Date): string {
 export async function listAccountByNamespace(input: ListAccountByNsInput): Promise<ListAccountResponse> {
   // Validate input
   const validatedInput = ListAccountByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get accounts -n ${namespace}`);
 
   try {
-    const customObjectsApi = kubernetesClient.getCustomObjectsApi();
+    const customObjectsApi = getKubernetesClient(zone).getCustomObjectsApi();
 
     // List Account CRD resources in the specified namespace
-    const accountList = await customObjectsApi.listNamespacedCustomObject(
+    const accountList = await withRetry(() => customObjectsApi.listNamespacedCustomObject(
       'account.sealos.io',  // group
       'v1',                 // version
       namespace,           // namespace
       'accounts'           // plural
-    );
+    ));
 
     // Transform Account data
     const accounts = (accountList.body as any).items?.map((account: any) => {
@@ -122,11 +77,7 @@ export async function listAccountByNamespace(input: ListAccountByNsInput): Promi
     const k8sError = extractKubernetesError(error);
 
     // Log structured error
-    console.error(`[Server] Error listing accounts in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing accounts in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response
     return {
@@ -137,4 +88,12 @@ export async function listAccountByNamespace(input: ListAccountByNsInput): Promi
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_ACCOUNT_BY_NS_TOOL = defineTool({
+  name: 'list_account_by_ns',
+  description: 'List Account CRD resources in a specific namespace',
+  schema: ListAccountByNsInputSchema,
+  handler: listAccountByNamespace,
+});
@@ -1,6 +1,8 @@
 import { ListCertificateByNsInput, ListCertificateByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListCertificateResponse } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListCertificateResponse } from '../kubernetes/types';
 
 /**
  * Calculate days remaining from notAfter date
@@ -55,50 +57,21 @@ function calculateAge(creationTimestamp: string): string {
   return `${minutes}m`;
 }
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  if (error?.response?.body) {
-    const responseBody = error.response.body;
-    return {
-      code: error.response.statusCode || 500,
-      reason: responseBody.reason || 'Unknown',
-      message: responseBody.message || error.message,
-      details: responseBody.details,
-    };
-  }
-
-  if (error?.statusCode) {
-    return {
-      code: error.statusCode,
-      reason: error.code || 'Unknown',
-      message: error.message || 'Unknown error occurred',
-    };
-  }
-
-  return {
-    code: 500,
-    reason: 'Unknown',
-    message: error?.message || 'Unknown error occurred',
-  };
-}
-
 export async function listCertificateByNamespace(input: ListCertificateByNsInput): Promise<ListCertificateResponse> {
   const validatedInput = ListCertificateByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   console.error(`[Server] Executing: kubectl get certificates -n ${namespace}`);
 
   try {
-    const customObjectsApi = kubernetesClient.getCustomObjectsApi();
+    const customObjectsApi = getKubernetesClient(zone).getCustomObjectsApi();
 
-    const certificateList = await customObjectsApi.listNamespacedCustomObject(
+    const certificateList = await withRetry(() => customObjectsApi.listNamespacedCustomObject(
       'cert-manager.io',  // group
       'v1',               // version
       namespace,          // namespace
       'certificates'      // plural
-    );
+    ));
 
     const certificates = (certificateList.body as any).items?.map((cert: any) => {
       const name = cert.metadata?.name || 'unknown';
@@ -132,11 +105,7 @@ export async function listCertificateByNamespace(input: ListCertificateByNsInput
   } catch (error) {
     const k8sError = extractKubernetesError(error);
 
-    console.error(`[Server] Error listing certificates in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing certificates in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     return {
       namespace,
@@ -146,4 +115,12 @@ export async function listCertificateByNamespace(input: ListCertificateByNsInput
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_CERTIFICATE_BY_NS_TOOL = defineTool({
+  name: 'list_certificate_by_ns',
+  description: 'List Certificate CRD resources in a specific namespace',
+  schema: ListCertificateByNsInputSchema,
+  handler: listCertificateByNamespace,
+});
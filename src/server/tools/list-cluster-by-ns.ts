@@ -1,52 +1,76 @@
 import { ListClusterByNsInput, ListClusterByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import { buildClusterTopology, listClusterPods } from '../kubernetes/kubeblocks';
+import { ClusterInfo, ListClusterResponse } from '../kubernetes/types';
 
-export async function listClusterByNamespace(input: ListClusterByNsInput) {
+export async function listClusterByNamespace(input: ListClusterByNsInput): Promise<ListClusterResponse> {
   const validatedInput = ListClusterByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   console.error(`[Server] Executing: kubectl get cluster -n ${namespace}`);
 
   try {
+    const kubernetesClient = getKubernetesClient(zone);
     const customObjectsApi = kubernetesClient.getCustomObjectsApi();
 
-    const response = await customObjectsApi.listNamespacedCustomObject(
+    const response = await withRetry(() => customObjectsApi.listNamespacedCustomObject(
       'apps.kubeblocks.io',  // group
       'v1alpha1',           // version
       namespace,            // namespace
       'clusters'            // plural (required by K8s API)
-    );
+    ));
 
     // Extract and transform cluster data
-    const clusters = (response.body as any).items?.map((item: any) => ({
+    const clusters: ClusterInfo[] = (response.body as any).items?.map((item: any) => ({
       name: item.metadata?.name || 'unknown',
       status: item.status?.phase || 'Unknown',
       type: item.spec?.clusterDefinitionRef || 'Unknown',
       version: item.spec?.clusterVersionRef || 'Unknown',
     })) || [];
 
+    // Member pods and primary/leader roles; the list still succeeds without them
+    const warnings: string[] = [];
+    if (clusters.length > 0) {
+      try {
+        const podsByCluster = await listClusterPods(kubernetesClient, namespace);
+        clusters.forEach(cluster => {
+          const type = cluster.type === 'Unknown' ? '' : cluster.type;
+          cluster.topology = buildClusterTopology(podsByCluster.get(cluster.name) || [], type);
+        });
+      } catch (error) {
+        const k8sError = extractKubernetesError(error);
+        warnings.push(`Failed to list cluster pods: ${k8sError.message}`);
+      }
+    }
+
     return {
       namespace,
       clusters,
       total: clusters.length,
+      ...(warnings.length > 0 && { warnings }),
       success: true,
     };
-  } catch (error: any) {
-    console.error(`[Server] Error listing clusters in namespace ${namespace}:`, error);
-
-    let errorMessage = 'Unknown error occurred';
-    if (error.response && error.response.body && error.response.body.message) {
-      errorMessage = error.response.body.message;
-    } else if (error.message) {
-      errorMessage = error.message;
-    }
+  } catch (error) {
+    const k8sError = extractKubernetesError(error);
+
+    console.error(`[Server] Error listing clusters in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     return {
       namespace,
       clusters: [],
       total: 0,
-      error: errorMessage,
+      error: k8sError,
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_CLUSTER_BY_NS_TOOL = defineTool({
+  name: 'list_cluster_by_ns',
+  description: 'List KubeBlocks clusters (databases) in a namespace',
+  schema: ListClusterByNsInputSchema,
+  handler: listClusterByNamespace,
+});
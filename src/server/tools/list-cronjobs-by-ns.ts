@@ -1,55 +1,10 @@
 import { ListCronjobsByNsInput, ListCronjobsByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListCronJobsResponse } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListCronJobsResponse } from '../kubernetes/types';
 import * as k8s from '@kubernetes/client-node';
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
-
 /**
  * Calculate age from creation timestamp
  */
@@ -74,16 +29,16 @@ function calculateAge(creationTimestamp: Date): string {
 export async function listCronjobsByNamespace(input: ListCronjobsByNsInput): Promise<ListCronJobsResponse> {
   // Validate input
   const validatedInput = ListCronjobsByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get cronjobs -n ${namespace}`);
 
   try {
-    const batchV1Api = kubernetesClient.getBatchV1Api();
+    const batchV1Api = getKubernetesClient(zone).getBatchV1Api();
 
     // List CronJob resources in the specified namespace
-    const cronjobList = await batchV1Api.listNamespacedCronJob(namespace);
+    const cronjobList = await withRetry(() => batchV1Api.listNamespacedCronJob(namespace));
 
     // Transform CronJob data
     const cronjobs = cronjobList.body.items.map((cronjob: k8s.V1CronJob) => {
@@ -128,11 +83,7 @@ export async function listCronjobsByNamespace(input: ListCronjobsByNsInput): Pro
     const k8sError = extractKubernetesError(error);
 
     // Log structured error
-    console.error(`[Server] Error listing cronjobs in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing cronjobs in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response
     return {
@@ -143,4 +94,12 @@ export async function listCronjobsByNamespace(input: ListCronjobsByNsInput): Pro
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_CRONJOBS_BY_NS_TOOL = defineTool({
+  name: 'list_cronjobs_by_ns',
+  description: 'List CronJob resources in a specific namespace',
+  schema: ListCronjobsByNsInputSchema,
+  handler: listCronjobsByNamespace,
+});
@@ -1,52 +1,65 @@
 import { ListDevboxByNsInput, ListDevboxByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import { classifyDevboxState, compareDevboxHealth, phaseSince } from '../kubernetes/devbox';
+import { DevboxHealth, DevboxInfo, ListDevboxResponse } from '../kubernetes/types';
 
-export async function listDevboxByNamespace(input: ListDevboxByNsInput) {
+export async function listDevboxByNamespace(input: ListDevboxByNsInput): Promise<ListDevboxResponse> {
   const validatedInput = ListDevboxByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, sortBy, zone } = validatedInput;
 
   console.error(`[Server] Executing: kubectl get devbox -n ${namespace}`);
 
   try {
-    const customObjectsApi = kubernetesClient.getCustomObjectsApi();
+    const customObjectsApi = getKubernetesClient(zone).getCustomObjectsApi();
 
-    const response = await customObjectsApi.listNamespacedCustomObject(
+    const response = await withRetry(() => customObjectsApi.listNamespacedCustomObject(
       'devbox.sealos.io',  // group
       'v1alpha2',          // version
       namespace,           // namespace
       'devboxes'           // plural
-    );
+    ));
 
-    // Extract and transform devbox data
-    const devboxes = (response.body as any).items?.map((item: any) => ({
+    // Extract and transform devbox data, classifying desired vs actual state
+    const devboxes: DevboxInfo[] = (response.body as any).items?.map((item: any) => ({
       name: item.metadata?.name || 'unknown',
       status: item.status?.phase || item.status?.state || 'Unknown',
+      state: classifyDevboxState(item, phaseSince(item)),
       network: item.status?.network || {},
     })) || [];
 
+    devboxes.sort(sortBy === 'name' ? (a, b) => a.name.localeCompare(b.name) : compareDevboxHealth);
+
+    const summary: Record<DevboxHealth, number> = { FakeStopped: 0, Stuck: 0, Transitional: 0, Healthy: 0 };
+    devboxes.forEach(devbox => summary[devbox.state.health]++);
+
     return {
       namespace,
       devboxes,
       total: devboxes.length,
+      summary,
       success: true,
     };
-  } catch (error: any) {
-    console.error(`[Server] Error listing devboxes in namespace ${namespace}:`, error);
+  } catch (error) {
+    const k8sError = extractKubernetesError(error);
 
-    // Extract meaningful error information
-    let errorMessage = 'Unknown error occurred';
-    if (error.response && error.response.body && error.response.body.message) {
-      errorMessage = error.response.body.message;
-    } else if (error.message) {
-      errorMessage = error.message;
-    }
+    console.error(`[Server] Error listing devboxes in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     return {
       namespace,
       devboxes: [],
       total: 0,
-      error: errorMessage,
+      error: k8sError,
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_DEVBOX_BY_NS_TOOL = defineTool({
+  name: 'list_devbox_by_ns',
+  description: 'List all devboxes in a namespace with desired (spec.state) vs actual (status.phase) state, classified as Healthy, Transitional, Stuck or FakeStopped. Broken devboxes are listed first',
+  schema: ListDevboxByNsInputSchema,
+  handler: listDevboxByNamespace,
+});
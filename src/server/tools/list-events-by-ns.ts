@@ -1,67 +1,22 @@
 import { ListEventsByNsInput, ListEventsByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListEventsResponse } from '../kubernetes/types';
-
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListEventsResponse } from '../kubernetes/types';
 
 export async function listEventsByNamespace(input: ListEventsByNsInput): Promise<ListEventsResponse> {
   // Validate input
   const validatedInput = ListEventsByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get events -n ${namespace} --sort-by='.lastTimestamp'`);
 
   try {
-    const k8sApi = kubernetesClient.getApiClient();
+    const k8sApi = getKubernetesClient(zone).getApiClient();
 
     // List Event resources in the specified namespace
-    const eventList = await k8sApi.listNamespacedEvent(namespace);
+    const eventList = await withRetry(() => k8sApi.listNamespacedEvent(namespace));
 
     // Transform Event data and sort by lastTimestamp descending
     const events = eventList.body.items
@@ -100,11 +55,7 @@ export async function listEventsByNamespace(input: ListEventsByNsInput): Promise
     const k8sError = extractKubernetesError(error);
 
     // Log structured error
-    console.error(`[Server] Error listing events in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing events in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response
     return {
@@ -115,4 +66,12 @@ export async function listEventsByNamespace(input: ListEventsByNsInput): Promise
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_EVENTS_BY_NS_TOOL = defineTool({
+  name: 'list_events_by_ns',
+  description: 'List Event resources in a specific namespace (last 100, sorted by timestamp)',
+  schema: ListEventsByNsInputSchema,
+  handler: listEventsByNamespace,
+});
@@ -1,55 +1,10 @@
 import { ListIngressByNsInput, ListIngressByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListIngressResponse } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListIngressResponse } from '../kubernetes/types';
 import * as k8s from '@kubernetes/client-node';
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
-
 /**
  * Calculate age from creation timestamp
  */
@@ -74,16 +29,16 @@ function calculateAge(creationTimestamp: Date): string {
 export async function listIngressByNamespace(input: ListIngressByNsInput): Promise<ListIngressResponse> {
   // Validate input
   const validatedInput = ListIngressByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get ingress -n ${namespace}`);
 
   try {
-    const networkingV1Api = kubernetesClient.getNetworkingV1Api();
+    const networkingV1Api = getKubernetesClient(zone).getNetworkingV1Api();
 
     // List Ingress resources in the specified namespace
-    const ingressList = await networkingV1Api.listNamespacedIngress(namespace);
+    const ingressList = await withRetry(() => networkingV1Api.listNamespacedIngress(namespace));
 
     // Transform ingress data
     const ingresses = ingressList.body.items.map((ingress: k8s.V1Ingress) => {
@@ -151,11 +106,7 @@ export async function listIngressByNamespace(input: ListIngressByNsInput): Promi
     const k8sError = extractKubernetesError(error);
 
     // Log structured error (not noisy full object)
-    console.error(`[Server] Error listing ingresses in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing ingresses in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response without crashing
     return {
@@ -166,4 +117,12 @@ export async function listIngressByNamespace(input: ListIngressByNsInput): Promi
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_INGRESS_BY_NS_TOOL = defineTool({
+  name: 'list_ingress_by_ns',
+  description: 'List Ingress resources in a specific namespace',
+  schema: ListIngressByNsInputSchema,
+  handler: listIngressByNamespace,
+});
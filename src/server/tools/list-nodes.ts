@@ -1,55 +1,10 @@
 import { ListNodesInput, ListNodesInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListNodesResponse } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListNodesResponse } from '../kubernetes/types';
 import * as k8s from '@kubernetes/client-node';
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
-
 /**
  * Calculate age from creation timestamp
  */
@@ -73,16 +28,16 @@ function calculateAge(creationTimestamp: Date): string {
 
 export async function listNodes(input: ListNodesInput): Promise<ListNodesResponse> {
   // Validate input (namespace is ignored for nodes)
-  ListNodesInputSchema.parse(input);
+  const { zone } = ListNodesInputSchema.parse(input);
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get nodes`);
 
   try {
-    const k8sApi = kubernetesClient.getApiClient();
+    const k8sApi = getKubernetesClient(zone).getApiClient();
 
     // List all nodes in the cluster (cluster-level resource)
-    const nodeList = await k8sApi.listNode();
+    const nodeList = await withRetry(() => k8sApi.listNode());
 
     // Transform node data
     const nodes = nodeList.body.items.map((node: k8s.V1Node) => {
@@ -131,11 +86,7 @@ export async function listNodes(input: ListNodesInput): Promise<ListNodesRespons
     const k8sError = extractKubernetesError(error);
 
     // Log structured error
-    console.error(`[Server] Error listing nodes:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing nodes:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response
     return {
@@ -145,4 +96,12 @@ export async function listNodes(input: ListNodesInput): Promise<ListNodesRespons
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_NODES_TOOL = defineTool({
+  name: 'list_nodes',
+  description: 'List all cluster nodes',
+  schema: ListNodesInputSchema,
+  handler: listNodes,
+});
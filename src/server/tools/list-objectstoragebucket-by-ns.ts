@@ -1,6 +1,8 @@
 import { ListObjectStorageBucketByNsInput, ListObjectStorageBucketByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError, ListObjectStorageBucketResponse } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {ListObjectStorageBucketResponse } from '../kubernetes/types';
 
 /**
  * Format bytes to human-readable format
@@ -35,50 +37,21 @@ function calculateAge(creationTimestamp: string): string {
   return `${minutes}m`;
 }
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  if (error?.response?.body) {
-    const responseBody = error.response.body;
-    return {
-      code: error.response.statusCode || 500,
-      reason: responseBody.reason || 'Unknown',
-      message: responseBody.message || error.message,
-      details: responseBody.details,
-    };
-  }
-
-  if (error?.statusCode) {
-    return {
-      code: error.statusCode,
-      reason: error.code || 'Unknown',
-      message: error.message || 'Unknown error occurred',
-    };
-  }
-
-  return {
-    code: 500,
-    reason: 'Unknown',
-    message: error?.message || 'Unknown error occurred',
-  };
-}
-
 export async function listObjectStorageBucketByNamespace(input: ListObjectStorageBucketByNsInput): Promise<ListObjectStorageBucketResponse> {
   const validatedInput = ListObjectStorageBucketByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   console.error(`[Server] Executing: kubectl get objectstoragebuckets -n ${namespace}`);
 
   try {
-    const customObjectsApi = kubernetesClient.getCustomObjectsApi();
+    const customObjectsApi = getKubernetesClient(zone).getCustomObjectsApi();
 
-    const objectstoragebucketList = await customObjectsApi.listNamespacedCustomObject(
+    const objectstoragebucketList = await withRetry(() => customObjectsApi.listNamespacedCustomObject(
       'objectstorage.sealos.io',  // group
       'v1',                       // version
       namespace,                  // namespace
       'objectstoragebuckets'      // plural
-    );
+    ));
 
     const objectstoragebuckets = (objectstoragebucketList.body as any).items?.map((bucket: any) => {
       const name = bucket.metadata?.name || 'unknown';
@@ -110,11 +83,7 @@ export async function listObjectStorageBucketByNamespace(input: ListObjectStorag
   } catch (error) {
     const k8sError = extractKubernetesError(error);
 
-    console.error(`[Server] Error listing objectstoragebuckets in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing objectstoragebuckets in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     return {
       namespace,
@@ -124,4 +93,12 @@ export async function listObjectStorageBucketByNamespace(input: ListObjectStorag
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL = defineTool({
+  name: 'list_objectstoragebucket_by_ns',
+  description: 'List ObjectStorageBucket CRD resources in a specific namespace',
+  schema: ListObjectStorageBucketByNsInputSchema,
+  handler: listObjectStorageBucketByNamespace,
+});
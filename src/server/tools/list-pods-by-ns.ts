@@ -1,77 +1,27 @@
 import { ListPodsByNsInput, ListPodsByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { PodInfo, ListPodsResponse, KubernetesError } from '../kubernetes/types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { extractKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import {PodInfo, ListPodsResponse } from '../kubernetes/types';
+import { toPodInfo } from '../kubernetes/pods';
 import * as k8s from '@kubernetes/client-node';
 
-/**
- * Extract meaningful error information from Kubernetes HttpError
- */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
-
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
-    }
-
-    return k8sError;
-  }
-
-  // Handle non-Kubernetes errors
-  return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
-  };
-}
-
 export async function listPodsByNamespace(input: ListPodsByNsInput): Promise<ListPodsResponse> {
   // Validate input
   const validatedInput = ListPodsByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, zone } = validatedInput;
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get pods -n ${namespace}`);
 
   try {
-    const k8sApi = kubernetesClient.getApiClient();
+    const k8sApi = getKubernetesClient(zone).getApiClient();
 
     // List pods in the specified namespace
-    const podList = await k8sApi.listNamespacedPod(namespace);
+    const podList = await withRetry(() => k8sApi.listNamespacedPod(namespace));
 
-    // Transform pod data
-    const pods: PodInfo[] = podList.body.items.map((pod: k8s.V1Pod) => ({
-      name: pod.metadata?.name || 'unknown',
-      namespace: pod.metadata?.namespace || namespace,
-      status: pod.status?.phase || 'Unknown',
-      ip: pod.status?.podIP,
-      node: pod.spec?.nodeName,
-    }));
+    // Transform pod data (container reasons, readiness, age, owner)
+    const pods: PodInfo[] = podList.body.items.map((pod: k8s.V1Pod) => toPodInfo(pod, namespace));
 
     return {
       namespace,
@@ -84,11 +34,7 @@ export async function listPodsByNamespace(input: ListPodsByNsInput): Promise<Lis
     const k8sError = extractKubernetesError(error);
 
     // Log structured error (not noisy full object)
-    console.error(`[Server] Error listing pods in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing pods in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response without crashing
     return {
@@ -99,4 +45,12 @@ export async function listPodsByNamespace(input: ListPodsByNsInput): Promise<Lis
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_PODS_BY_NS_TOOL = defineTool({
+  name: 'list_pods_by_ns',
+  description: 'List all pods in a specific namespace with container waiting/terminated reasons, restarts, readiness, age and owner',
+  schema: ListPodsByNsInputSchema,
+  handler: listPodsByNamespace,
+});
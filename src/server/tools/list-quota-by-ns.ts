@@ -1,93 +1,227 @@
-import { ListQuotaByNsInput, ListQuotaByNsInputSchema } from './types';
-import { kubernetesClient } from '../kubernetes/client';
-import { KubernetesError } from '../kubernetes/types';
+import { ListQuotaByNsInput, ListQuotaByNsInputSchema, QuotaResize } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { createKubernetesError, extractKubernetesError, isKubernetesError, withRetry, summarizeKubernetesError } from '../kubernetes/errors';
+import { formatQuantity, parseQuantity, predictResizeFit, quotaUsage, QuotaThresholds } from '../kubernetes/quota';
+import { ListQuotaResponse, QuotaAlert, QuotaInfo, ResizeFit } from '../kubernetes/types';
 import * as k8s from '@kubernetes/client-node';
 
+// Current size of the resized object, per replica (parsed quantities)
+interface ResizeBaseline {
+  component?: string;
+  cpu?: number;
+  memory?: number;
+  requestsCpu?: number;
+  requestsMemory?: number;
+  storage?: number;
+  replicas: number;
+  warnings: string[];
+}
+
 /**
- * Extract meaningful error information from Kubernetes HttpError
+ * Read the current size of the devbox (spec.resource) or cluster component (resources, replicas, data volume)
  */
-function extractKubernetesError(error: any): KubernetesError {
-  // Check if it's a Kubernetes HttpError
-  if (error && error.response && error.body) {
-    const statusCode = error.statusCode || (error.response && error.response.statusCode);
-
-    // Try to parse Kubernetes API error response
-    let k8sError: KubernetesError = {
-      code: statusCode,
-      message: 'Unknown Kubernetes error',
-    };
+async function readResizeBaseline(resize: QuotaResize, namespace: string, zone: string | undefined): Promise<ResizeBaseline> {
+  const customObjectsApi = getKubernetesClient(zone).getCustomObjectsApi();
 
-    try {
-      if (typeof error.body === 'string') {
-        // Parse JSON string response
-        const errorBody = JSON.parse(error.body);
-        k8sError = {
-          code: errorBody.code || statusCode,
-          reason: errorBody.reason,
-          message: errorBody.message || error.body,
-          details: errorBody.details,
-        };
-      } else if (typeof error.body === 'object') {
-        // Handle object response directly
-        k8sError = {
-          code: error.body.code || statusCode,
-          reason: error.body.reason,
-          message: error.body.message || JSON.stringify(error.body),
-          details: error.body.details,
-        };
-      }
-    } catch (parseError) {
-      // Fallback if parsing fails
-      k8sError.message = error.message || 'Failed to parse Kubernetes error';
+  if (resize.kind === 'devbox') {
+    const devbox: any = (await withRetry(() => customObjectsApi.getNamespacedCustomObject(
+      'devbox.sealos.io', 'v1alpha2', namespace, 'devboxes', resize.name
+    ))).body;
+    const warnings: string[] = [];
+    if (resize.storage || resize.replicas) {
+      warnings.push('Devboxes have no replicas or resizable data volume: storage and replicas are ignored');
     }
+    return {
+      cpu: parseQuantity(devbox.spec?.resource?.cpu),
+      memory: parseQuantity(devbox.spec?.resource?.memory),
+      replicas: 1,
+      warnings,
+    };
+  }
 
-    return k8sError;
+  const cluster: any = (await withRetry(() => customObjectsApi.getNamespacedCustomObject(
+    'apps.kubeblocks.io', 'v1alpha1', namespace, 'clusters', resize.name
+  ))).body;
+  const components: any[] = cluster.spec?.componentSpecs || [];
+  const component = resize.component ? components.find(c => c.name === resize.component) : components[0];
+  if (!component) {
+    throw createKubernetesError('NotFound', resize.component
+      ? `Cluster ${resize.name} has no component ${resize.component} (components: ${components.map(c => c.name).join(', ') || 'none'})`
+      : `Cluster ${resize.name} has no componentSpecs`, { code: 404 });
   }
 
-  // Handle non-Kubernetes errors
+  const warnings: string[] = [];
+  if (!resize.component && components.length > 1) {
+    warnings.push(`Cluster ${resize.name} has ${components.length} components; predicted for ${component.name}`);
+  }
+  const volume = (component.volumeClaimTemplates || []).find((v: any) => v.name === 'data') || component.volumeClaimTemplates?.[0];
   return {
-    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    component: component.name,
+    cpu: parseQuantity(component.resources?.limits?.cpu),
+    memory: parseQuantity(component.resources?.limits?.memory),
+    requestsCpu: parseQuantity(component.resources?.requests?.cpu),
+    requestsMemory: parseQuantity(component.resources?.requests?.memory),
+    storage: parseQuantity(volume?.spec?.resources?.requests?.storage),
+    replicas: component.replicas ?? 1,
+    warnings,
   };
 }
 
-export async function listQuotaByNamespace(input: ListQuotaByNsInput) {
+/**
+ * Change of each quota resource when going from the baseline to the target size.
+ * Requests keep their current ratio to limits, as the Sealos console sets them.
+ */
+function resizeDeltas(baseline: ResizeBaseline, target: { cpu?: number; memory?: number; storage?: number; replicas: number }): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  const total = (perReplica: number | undefined, replicas: number) => (perReplica || 0) * replicas;
+
+  (['cpu', 'memory'] as const).forEach(resource => {
+    const current = baseline[resource];
+    const next = target[resource];
+    deltas[`limits.${resource}`] = total(next, target.replicas) - total(current, baseline.replicas);
+
+    const requests = resource === 'cpu' ? baseline.requestsCpu : baseline.requestsMemory;
+    if (requests !== undefined && current) {
+      const nextRequests = next !== undefined ? requests * next / current : requests;
+      const delta = total(nextRequests, target.replicas) - total(requests, baseline.replicas);
+      deltas[`requests.${resource}`] = delta;
+      deltas[resource] = delta;   // bare "cpu"/"memory" quota keys count requests
+    }
+  });
+
+  if (baseline.storage !== undefined) {
+    deltas['requests.storage'] = total(target.storage, target.replicas) - total(baseline.storage, baseline.replicas);
+  }
+  deltas['pods'] = target.replicas - baseline.replicas;
+  deltas['count/pods'] = deltas['pods'];
+  return deltas;
+}
+
+/**
+ * Predict whether a resize fits every quota of the namespace
+ */
+async function predictResize(resize: QuotaResize, quotas: QuotaInfo[], namespace: string, zone: string | undefined): Promise<ResizeFit> {
+  const fit: ResizeFit = {
+    kind: resize.kind,
+    name: resize.name,
+    current: { replicas: 1 },
+    target: { replicas: 1 },
+    fits: false,
+    checks: [],
+  };
+
+  try {
+    const baseline = await readResizeBaseline(resize, namespace, zone);
+    const warnings = [...baseline.warnings];
+
+    const parseTarget = (field: 'cpu' | 'memory' | 'storage'): number | undefined => {
+      if (resize[field] === undefined || (resize.kind === 'devbox' && field === 'storage')) return baseline[field];
+      const value = parseQuantity(resize[field]);
+      if (value === undefined) {
+        throw createKubernetesError('InvalidArguments', `Invalid ${field} quantity: ${resize[field]}`, { code: 400 });
+      }
+      return value;
+    };
+    const target = {
+      cpu: parseTarget('cpu'),
+      memory: parseTarget('memory'),
+      storage: parseTarget('storage'),
+      replicas: resize.kind === 'devbox' ? 1 : resize.replicas ?? baseline.replicas,
+    };
+
+    if (baseline.storage !== undefined && target.storage !== undefined && target.storage < baseline.storage) {
+      warnings.push('Volumes cannot shrink: a smaller storage size will be rejected');
+    }
+
+    const format = (resource: string, value: number | undefined) => value !== undefined ? formatQuantity(resource, value) : undefined;
+    const describe = (size: { cpu?: number; memory?: number; storage?: number; replicas: number }) => ({
+      ...(size.cpu !== undefined && { cpu: format('cpu', size.cpu) }),
+      ...(size.memory !== undefined && { memory: format('memory', size.memory) }),
+      ...(size.storage !== undefined && { storage: format('storage', size.storage) }),
+      replicas: size.replicas,
+    });
+
+    const prediction = predictResizeFit(quotas, resizeDeltas(baseline, target));
+    if (quotas.length === 0) {
+      warnings.push('No ResourceQuota in this namespace: nothing limits the resize');
+    }
+
+    return {
+      ...fit,
+      ...(baseline.component && { component: baseline.component }),
+      current: describe(baseline),
+      target: describe(target),
+      fits: prediction.fits,
+      checks: prediction.checks,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  } catch (error) {
+    // Baseline lookups may throw a ready-made KubernetesError
+    const k8sError = isKubernetesError(error) ? error : extractKubernetesError(error);
+    console.error(`[Server] Error predicting resize of ${resize.kind} ${resize.name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+    return { ...fit, error: k8sError };
+  }
+}
+
+export async function listQuotaByNamespace(input: ListQuotaByNsInput): Promise<ListQuotaResponse> {
   // Validate input
   const validatedInput = ListQuotaByNsInputSchema.parse(input);
-  const { namespace } = validatedInput;
+  const { namespace, resize, zone } = validatedInput;
+  const thresholds: QuotaThresholds = {
+    warning: validatedInput.warningThreshold,
+    critical: Math.max(validatedInput.warningThreshold, validatedInput.criticalThreshold),
+  };
 
   // Log execution as required
   console.error(`[Server] Executing: kubectl get quota -n ${namespace}`);
 
   try {
-    const k8sApi = kubernetesClient.getApiClient();
+    const k8sApi = getKubernetesClient(zone).getApiClient();
 
     // List resource quotas in the specified namespace
-    const quotaList = await k8sApi.listNamespacedResourceQuota(namespace);
+    const quotaList = await withRetry(() => k8sApi.listNamespacedResourceQuota(namespace));
 
     // Transform quota data
-    const quotas = quotaList.body.items.map((quota: k8s.V1ResourceQuota) => {
+    const quotas: QuotaInfo[] = quotaList.body.items.map((quota: k8s.V1ResourceQuota) => {
       // Extract hard and used limits
       const hard = quota.status?.hard || {};
       const used = quota.status?.used || {};
 
+      const usage = Object.keys(hard).sort().map(key => quotaUsage(key, used[key] || '0', hard[key], thresholds));
+
       // Build a details string for display
-      const details = Object.keys(hard).map(key => {
-        const usedValue = used[key] || '0';
-        const hardValue = hard[key];
-        return `${key}: ${usedValue}/${hardValue}`;
-      }).join(', ');
+      const details = usage.map(u => `${u.resource}: ${u.used}/${u.hard}`).join(', ');
 
       return {
         name: quota.metadata?.name || 'unknown',
         namespace: quota.metadata?.namespace || namespace,
         details: details || 'No limits defined',
+        usage,
       };
     });
 
+    // Resources at or above the warning threshold, fullest first
+    const alerts: QuotaAlert[] = quotas.flatMap(quota => quota.usage
+      .filter(u => u.level === 'warning' || u.level === 'critical')
+      .map(u => ({
+        quota: quota.name,
+        resource: u.resource,
+        level: u.level as QuotaAlert['level'],
+        percent: u.percent!,
+        used: u.used,
+        hard: u.hard,
+        ...(u.remaining !== undefined && { remaining: u.remaining }),
+      })))
+      .sort((a, b) => b.percent - a.percent);
+
     return {
       namespace,
       quotas,
       total: quotas.length,
+      thresholds,
+      alerts,
+      ...(resize && { resizeFit: await predictResize(resize, quotas, namespace, zone) }),
       success: true,
     };
   } catch (error) {
@@ -95,19 +229,25 @@ export async function listQuotaByNamespace(input: ListQuotaByNsInput) {
     const k8sError = extractKubernetesError(error);
 
     // Log structured error (not noisy full object)
-    console.error(`[Server] Error listing quotas in namespace ${namespace}:`, {
-      code: k8sError.code,
-      reason: k8sError.reason,
-      message: k8sError.message,
-    });
+    console.error(`[Server] Error listing quotas in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
 
     // Return structured error response without crashing
     return {
       namespace,
       quotas: [],
       total: 0,
+      thresholds,
+      alerts: [],
       error: k8sError,
       success: false,
     };
   }
-}
\ No newline at end of file
+}
+
+// Tool definition for the MCP registry
+export const LIST_QUOTA_BY_NS_TOOL = defineTool({
+  name: 'list_quota_by_ns',
+  description: 'List resource quotas in a namespace with used/hard per resource, usage percentage and remaining headroom. Flags resources above the warning/critical thresholds and, with resize, predicts whether a devbox or database resize would fit',
+  schema: ListQuotaByNsInputSchema,
+  handler: listQuotaByNamespace,
+});
@@ -0,0 +1,295 @@
+import { NamespaceHealthInput, NamespaceHealthInputSchema } from './types';
+import { defineTool } from './registry';
+import { listPodsByNamespace } from './list-pods-by-ns';
+import { listDevboxByNamespace } from './list-devbox-by-ns';
+import { listClusterByNamespace } from './list-cluster-by-ns';
+import { listCertificateByNamespace } from './list-certificate-by-ns';
+import { listQuotaByNamespace } from './list-quota-by-ns';
+import { listEventsByNamespace } from './list-events-by-ns';
+import { listDebtByNamespace } from './list-debt-by-ns';
+import { listAccountByNamespace } from './list-account-by-ns';
+import { CLUSTER_TRANSITIONAL_PHASES } from './diagnose-resource';
+import { KubernetesError } from '../kubernetes/types';
+import { rankSuspectPods } from '../kubernetes/pods';
+import { centsToYuan, isBlockingImpact, summarizeDebts } from '../kubernetes/billing';
+
+export type HealthCategory = 'pods' | 'devboxes' | 'clusters' | 'certificates' | 'quotas' | 'events' | 'billing';
+export type HealthGrade = 'Healthy' | 'Degraded' | 'Critical';
+
+export interface HealthFinding {
+  category: HealthCategory;
+  severity: 'critical' | 'warning';
+  resource: string;
+  message: string;
+  drillDown?: string;     // REPL command that shows the details
+}
+
+export interface NamespaceHealthResponse {
+  namespace: string;
+  score: number;          // 0-100
+  grade: HealthGrade;
+  summary: {
+    pods: { total: number; unhealthy: number };
+    devboxes: { total: number; unhealthy: number };
+    clusters: { total: number; notRunning: number };
+    certificates: { total: number; expiring: number };
+    quotas: { total: number; overThreshold: number };
+    events: { warnings: number; windowMinutes: number };
+    billing: { debtStatus?: string; impact: string; balance?: number };
+  };
+  findings: HealthFinding[];
+  unavailable: string[];  // sections whose list call failed
+  warnings?: string[];
+  error?: KubernetesError;
+  success: boolean;
+}
+
+// Score deductions per finding, capped per category so one noisy section cannot hide the rest
+const SEVERITY_PENALTY = { critical: 15, warning: 5 };
+const MAX_CATEGORY_PENALTY = 30;
+
+// Cluster phases that need no attention (transitional ones are warnings, the rest critical)
+const CLUSTER_OK_PHASES = new Set(['Running', 'Stopped']);
+
+// Distinct Warning events (object + reason) reported individually
+const MAX_EVENT_FINDINGS = 5;
+
+function scoreFindings(findings: HealthFinding[]): number {
+  const penalties = new Map<HealthCategory, number>();
+  findings.forEach(finding => {
+    penalties.set(finding.category, (penalties.get(finding.category) || 0) + SEVERITY_PENALTY[finding.severity]);
+  });
+  const total = [...penalties.values()].reduce((sum, penalty) => sum + Math.min(penalty, MAX_CATEGORY_PENALTY), 0);
+  return Math.max(0, 100 - total);
+}
+
+function gradeOf(score: number, findings: HealthFinding[]): HealthGrade {
+  if (score < 60 || findings.some(f => f.category === 'billing' && f.severity === 'critical')) return 'Critical';
+  if (score < 90 || findings.some(f => f.severity === 'critical')) return 'Degraded';
+  return 'Healthy';
+}
+
+/**
+ * Days left from list_certificate_by_ns notAfter ("12d left", "Expired", "unknown")
+ */
+function certificateDaysLeft(notAfter: string): number | undefined {
+  if (notAfter === 'Expired') return -1;
+  const match = notAfter.match(/^(\d+)d left$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export async function getNamespaceHealth(input: NamespaceHealthInput): Promise<NamespaceHealthResponse> {
+  // Validate input
+  const validatedInput = NamespaceHealthInputSchema.parse(input);
+  const { namespace, certificateDays, quotaThreshold, eventWindowMinutes, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: namespace health -n ${namespace}`);
+
+  const suffix = `${namespace}${zone ? ` ${zone}` : ''}`;
+  const findings: HealthFinding[] = [];
+  const unavailable: string[] = [];
+  const warnings: string[] = [];
+  const response: NamespaceHealthResponse = {
+    namespace,
+    score: 100,
+    grade: 'Healthy',
+    summary: {
+      pods: { total: 0, unhealthy: 0 },
+      devboxes: { total: 0, unhealthy: 0 },
+      clusters: { total: 0, notRunning: 0 },
+      certificates: { total: 0, expiring: 0 },
+      quotas: { total: 0, overThreshold: 0 },
+      events: { warnings: 0, windowMinutes: eventWindowMinutes },
+      billing: { impact: 'None' },
+    },
+    findings,
+    unavailable,
+    success: true,
+  };
+
+  const [podResult, devboxResult, clusterResult, certificateResult, quotaResult, eventResult, debtResult, accountResult] = await Promise.all([
+    listPodsByNamespace({ namespace, zone }),
+    listDevboxByNamespace({ namespace, sortBy: 'health', zone }),
+    listClusterByNamespace({ namespace, zone }),
+    listCertificateByNamespace({ namespace, zone }),
+    // Quota usage at 100% or more is critical: nothing more can be scheduled
+    listQuotaByNamespace({ namespace, warningThreshold: quotaThreshold, criticalThreshold: 100, zone }),
+    listEventsByNamespace({ namespace, zone }),
+    listDebtByNamespace({ namespace, zone }),
+    listAccountByNamespace({ namespace, zone }),
+  ]);
+
+  const results: Array<[string, { success: boolean; error?: KubernetesError }]> = [
+    ['pods', podResult], ['devboxes', devboxResult], ['clusters', clusterResult], ['certificates', certificateResult],
+    ['quotas', quotaResult], ['events', eventResult], ['debts', debtResult], ['accounts', accountResult],
+  ];
+  results.forEach(([section, result]) => {
+    if (result.success) return;
+    // CRDs that are not installed in this zone are simply not part of the report
+    if (result.error?.errorCode !== 'CrdNotInstalled') {
+      unavailable.push(section);
+      warnings.push(`Failed to list ${section}: ${result.error?.message || 'Unknown error'}`);
+    }
+  });
+
+  // Nothing readable at all (bad namespace, credentials or zone): no report
+  if (results.every(([, result]) => !result.success)) {
+    return { ...response, error: podResult.error, success: false };
+  }
+
+  // 1. Pods: anything not in the Healthy bucket
+  if (podResult.success) {
+    const ranked = rankSuspectPods(podResult.pods);
+    const suspects = ranked.filter(pod => pod.bucket !== 'Healthy');
+    response.summary.pods = { total: ranked.length, unhealthy: suspects.length };
+    suspects.forEach(pod => findings.push({
+      category: 'pods',
+      severity: pod.bucket === 'Crash' ? 'critical' : 'warning',
+      resource: `pod/${pod.name}`,
+      message: `${pod.bucket}: ${pod.reasons.join(', ') || pod.status}`,
+      drillDown: pod.bucket === 'Crash' ? `logs pod ${pod.name} ${suffix}` : `describe pod ${pod.name} ${suffix}`,
+    }));
+  }
+
+  // 2. Devboxes: fake-stopped and stuck
+  if (devboxResult.success) {
+    const unhealthy = devboxResult.devboxes.filter(d => d.state.health === 'FakeStopped' || d.state.health === 'Stuck');
+    response.summary.devboxes = { total: devboxResult.devboxes.length, unhealthy: unhealthy.length };
+    unhealthy.forEach(devbox => findings.push({
+      category: 'devboxes',
+      severity: devbox.state.health === 'FakeStopped' ? 'critical' : 'warning',
+      resource: `devbox/${devbox.name}`,
+      message: `${devbox.state.health}: ${devbox.state.reason}`,
+      drillDown: `diagnose devbox ${devbox.name} ${suffix}`,
+    }));
+  }
+
+  // 3. Clusters: anything but Running/Stopped
+  if (clusterResult.success) {
+    const notRunning = clusterResult.clusters.filter(c => !CLUSTER_OK_PHASES.has(c.status));
+    response.summary.clusters = { total: clusterResult.clusters.length, notRunning: notRunning.length };
+    notRunning.forEach(cluster => findings.push({
+      category: 'clusters',
+      severity: CLUSTER_TRANSITIONAL_PHASES.has(cluster.status) ? 'warning' : 'critical',
+      resource: `cluster/${cluster.name}`,
+      message: `Cluster is ${cluster.status}`,
+      drillDown: `diagnose db ${cluster.name} ${suffix}`,
+    }));
+  }
+
+  // 4. Certificates: expired, expiring within certificateDays, or not Ready
+  if (certificateResult.success) {
+    let expiring = 0;
+    certificateResult.certificates.forEach(cert => {
+      const daysLeft = certificateDaysLeft(cert.notAfter);
+      const expiresSoon = daysLeft !== undefined && daysLeft <= certificateDays;
+      if (expiresSoon) expiring++;
+      if (!expiresSoon && cert.ready !== 'False') return;
+      findings.push({
+        category: 'certificates',
+        severity: daysLeft !== undefined && daysLeft < 0 ? 'critical' : 'warning',
+        resource: `certificate/${cert.name}`,
+        message: [expiresSoon && (daysLeft! < 0 ? 'Expired' : `Expires in ${daysLeft}d`), cert.ready === 'False' && 'not Ready'].filter(Boolean).join(', '),
+        drillDown: `describe cert ${cert.name} ${suffix}`,
+      });
+    });
+    response.summary.certificates = { total: certificateResult.certificates.length, expiring };
+  }
+
+  // 5. Quotas: usage at or above quotaThreshold percent
+  if (quotaResult.success) {
+    let overThreshold = 0;
+    quotaResult.quotas.forEach(quota => {
+      quota.usage.forEach(usage => {
+        if (usage.level !== 'warning' && usage.level !== 'critical') return;
+        overThreshold++;
+        findings.push({
+          category: 'quotas',
+          severity: usage.level,
+          resource: `quota/${quota.name}`,
+          message: `${usage.resource} at ${usage.percent}% (${usage.used}/${usage.hard}, ${usage.remaining} left)`,
+          drillDown: `quota ${suffix}`,
+        });
+      });
+    });
+    response.summary.quotas = { total: quotaResult.quotas.length, overThreshold };
+  }
+
+  // 6. Warning events inside the window, grouped by object and reason
+  if (eventResult.success) {
+    const since = Date.now() - eventWindowMinutes * 60 * 1000;
+    const recent = eventResult.events.filter(e => e.type === 'Warning' && e.lastTimestamp && new Date(e.lastTimestamp).getTime() >= since);
+    response.summary.events.warnings = recent.length;
+    const grouped = new Map<string, { object: string; reason: string; message: string; count: number }>();
+    recent.forEach(event => {
+      const key = `${event.object}|${event.reason}`;
+      const entry = grouped.get(key) || { object: event.object, reason: event.reason, message: event.message, count: 0 };
+      entry.count += event.count || 1;
+      grouped.set(key, entry);
+    });
+    [...grouped.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_EVENT_FINDINGS)
+      .forEach(entry => findings.push({
+        category: 'events',
+        severity: 'warning',
+        resource: entry.object,
+        message: `${entry.reason} ×${entry.count}: ${entry.message}`,
+        drillDown: `events ${suffix}`,
+      }));
+  }
+
+  // 7. Billing: debt status and available balance
+  if (debtResult.success) {
+    const debt = summarizeDebts(debtResult.debts);
+    if (debt) {
+      response.summary.billing.debtStatus = debt.status;
+      response.summary.billing.impact = debt.impact;
+      if (debt.impact !== 'None') {
+        findings.push({
+          category: 'billing',
+          severity: isBlockingImpact(debt.impact) ? 'critical' : 'warning',
+          resource: `debt/${debt.name}`,
+          message: `${debt.status}: ${debt.meaning}`,
+          drillDown: `debtlimit ${suffix}`,
+        });
+      }
+    }
+  }
+  if (accountResult.success && accountResult.accounts.length > 0) {
+    const status = accountResult.accounts[0].status || {};
+    if (status.balance !== undefined) {
+      const balance = Math.round((centsToYuan(status.balance) - centsToYuan(status.deductionBalance)) * 100) / 100;
+      response.summary.billing.balance = balance;
+      if (balance < 0) {
+        findings.push({
+          category: 'billing',
+          severity: 'warning',
+          resource: `account/${accountResult.accounts[0].name}`,
+          message: `Available balance is negative (¥${balance.toFixed(2)})`,
+          drillDown: `billing ${suffix}`,
+        });
+      }
+    }
+  }
+
+  // Most severe first, then by category order above
+  findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+  response.score = scoreFindings(findings);
+  response.grade = gradeOf(response.score, findings);
+
+  if (warnings.length > 0) {
+    response.warnings = warnings;
+  }
+
+  return response;
+}
+
+// Tool definition for the MCP registry
+export const NAMESPACE_HEALTH_TOOL = defineTool({
+  name: 'namespace_health',
+  description: 'One-call health report of a namespace: runs the pod, devbox, cluster, certificate, quota, event, debt and account list tools concurrently and returns a 0-100 score with findings (unhealthy pods, stuck devboxes, non-Running clusters, expiring certificates, quotas above threshold, recent Warning events, debt status and balance), each with a drill-down command',
+  schema: NamespaceHealthInputSchema,
+  handler: getNamespaceHealth,
+});
@@ -0,0 +1,63 @@
+import { QueryAuditLogInput, QueryAuditLogInputSchema } from './types';
+import { defineTool } from './registry';
+import { KubernetesError } from '../kubernetes/types';
+import { createKubernetesError } from '../kubernetes/errors';
+import { AUDIT_LOG_PATH, AuditEntry, parseTimeBound, queryAuditLog } from '../audit/audit-log';
+
+export interface QueryAuditLogResponse {
+  file: string;
+  entries: AuditEntry[];
+  matched: number;
+  total: number;
+  skipped?: number;       // unreadable lines
+  error?: KubernetesError;
+  success: boolean;
+}
+
+export async function queryAudit(input: QueryAuditLogInput): Promise<QueryAuditLogResponse> {
+  // Validate input
+  const validatedInput = QueryAuditLogInputSchema.parse(input);
+  const { since, until, namespace, tool, limit } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: query audit log${since ? ` since ${since}` : ''}${until ? ` until ${until}` : ''}${namespace ? ` -n ${namespace}` : ''}${tool ? ` tool=${tool}` : ''}`);
+
+  const response: QueryAuditLogResponse = {
+    file: AUDIT_LOG_PATH,
+    entries: [],
+    matched: 0,
+    total: 0,
+    success: true,
+  };
+
+  const sinceMs = since ? parseTimeBound(since) : undefined;
+  const untilMs = until ? parseTimeBound(until) : undefined;
+  const invalid = [since && sinceMs === undefined && `since "${since}"`, until && untilMs === undefined && `until "${until}"`].filter(Boolean);
+  if (invalid.length > 0) {
+    const error = createKubernetesError('InvalidArguments', `Invalid time bound: ${invalid.join(', ')}. Use an ISO date/time or 30m, 2h, 7d`, { code: 400, reason: 'InvalidArguments' });
+    return { ...response, error, success: false };
+  }
+
+  try {
+    const result = queryAuditLog({ since: sinceMs, until: untilMs, namespace, tool, limit });
+    response.entries = result.entries;
+    response.matched = result.matched;
+    response.total = result.total;
+    if (result.skipped > 0) {
+      response.skipped = result.skipped;
+    }
+    return response;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Server] Error reading audit log ${AUDIT_LOG_PATH}: ${message}`);
+    return { ...response, error: createKubernetesError('Unknown', `Failed to read audit log: ${message}`, { hint: 'Check that the audit log file is readable by the server.' }), success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const QUERY_AUDIT_LOG_TOOL = defineTool({
+  name: 'query_audit_log',
+  description: 'Query the server audit log of tool calls (tool, validated arguments, zone, kube context, duration, status, error code, write confirmation step) by time range, namespace or tool, newest first',
+  schema: QueryAuditLogInputSchema,
+  handler: queryAudit,
+});
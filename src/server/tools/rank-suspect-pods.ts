@@ -0,0 +1,50 @@
+import { RankSuspectPodsInput, RankSuspectPodsInputSchema } from './types';
+import { defineTool } from './registry';
+import { listPodsByNamespace } from './list-pods-by-ns';
+import { KubernetesError, SuspectBucket, SuspectPod } from '../kubernetes/types';
+import { rankSuspectPods } from '../kubernetes/pods';
+
+export interface RankSuspectPodsResponse {
+  namespace: string;
+  suspects: SuspectPod[];
+  scanned: number;
+  buckets: Record<SuspectBucket, number>;
+  error?: KubernetesError;
+  success: boolean;
+}
+
+export async function rankSuspectPodsInNamespace(input: RankSuspectPodsInput): Promise<RankSuspectPodsResponse> {
+  // Validate input
+  const validatedInput = RankSuspectPodsInputSchema.parse(input);
+  const { namespace, limit, includeHealthy, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: rank suspect pods -n ${namespace}`);
+
+  const buckets: Record<SuspectBucket, number> = { Crash: 0, Pending: 0, Restarts: 0, NotReady: 0, Healthy: 0 };
+
+  // Reuse the enriched pod list (errors are already classified there)
+  const podResult = await listPodsByNamespace({ namespace, zone });
+  if (!podResult.success) {
+    return { namespace, suspects: [], scanned: 0, buckets, error: podResult.error, success: false };
+  }
+
+  const ranked = rankSuspectPods(podResult.pods);
+  ranked.forEach(pod => buckets[pod.bucket]++);
+
+  return {
+    namespace,
+    suspects: ranked.filter(pod => includeHealthy || pod.bucket !== 'Healthy').slice(0, limit),
+    scanned: ranked.length,
+    buckets,
+    success: true,
+  };
+}
+
+// Tool definition for the MCP registry
+export const RANK_SUSPECT_PODS_TOOL = defineTool({
+  name: 'rank_suspect_pods',
+  description: 'Rank the pods of a namespace by suspicion (Crash > Pending > Restarts > NotReady, youngest first) with container reasons, so the most likely culprit comes first',
+  schema: RankSuspectPodsInputSchema,
+  handler: rankSuspectPodsInNamespace,
+});
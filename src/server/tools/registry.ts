@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { createKubernetesError, extractKubernetesError } from '../kubernetes/errors';
+import { DEFAULT_ZONE, zoneRegistry } from '../kubernetes/zone-registry';
+import { appendAuditEntry, auditArgs, AuditEntry, tokenId } from '../audit/audit-log';
+import { redactSecrets } from '../../shared/redaction';
+
+// Per-call context: cancellation, progress messages for streaming tools, redaction override
+export interface ToolContext {
+  signal?: AbortSignal;
+  progress?: (message: string) => Promise<void>;   // only set when the caller sent a progress token
+  reveal?: boolean;                                // skip redaction (audit-logged)
+}
+
+// A tool module's registry entry: MCP metadata, input schema and handler
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (input: z.infer<S>, context: ToolContext) => Promise<unknown>;
+}
+
+// Uniform MCP tool call result
+export interface ToolCallResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Declare a tool with its handler typed from the schema
+ */
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+/**
+ * Build the ListTools entry, deriving the JSON Schema from the zod schema
+ */
+export function toMcpTool(tool: ToolDefinition) {
+  const { $schema, ...inputSchema } = zodToJsonSchema(tool.schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: inputSchema as { type: 'object'; [key: string]: unknown },
+  };
+}
+
+/**
+ * Wrap any payload as MCP text content
+ */
+export function toToolResult(payload: unknown, isError: boolean = false): ToolCallResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+    ...(isError && { isError: true }),
+  };
+}
+
+type AuditOutcome = Pick<AuditEntry, 'status' | 'errorCode' | 'confirmation' | 'revealed' | 'redacted'>;
+
+/**
+ * Status, error code and write-confirmation step of a handler payload
+ */
+function auditOutcome(payload: any, args: any, context: ToolContext): AuditOutcome {
+  const outcome: AuditOutcome = {
+    status: context.signal?.aborted ? 'cancelled' : payload?.success === false ? 'failure' : 'success',
+    ...(payload?.error?.errorCode && { errorCode: payload.error.errorCode }),
+  };
+
+  // Guarded write tools answer with dryRun (see kubernetes/guard.ts)
+  if (typeof payload?.dryRun === 'boolean') {
+    const token = payload.dryRun ? payload.confirmationToken : args.confirmationToken;
+    outcome.confirmation = { step: payload.dryRun ? 'dry-run' : 'confirm', ...(token && { tokenId: tokenId(token) }) };
+  }
+  return outcome;
+}
+
+/**
+ * Append the audit entry of one call, with the kube context its zone resolved to
+ */
+function auditCall(toolName: string, args: any, startedAt: number, outcome: AuditOutcome): void {
+  const zone = typeof args?.zone === 'string' && args.zone ? args.zone.toLowerCase() : DEFAULT_ZONE;
+  let kubeContext: string | undefined;
+  try {
+    kubeContext = zoneRegistry.getClient(zone).getCurrentContext();
+  } catch {
+    // Unknown zone or unreadable kubeconfig: the entry is still written
+  }
+
+  appendAuditEntry({
+    time: new Date(startedAt).toISOString(),
+    tool: toolName,
+    args: auditArgs(args),
+    ...(typeof args?.namespace === 'string' && { namespace: args.namespace }),
+    zone,
+    ...(kubeContext && { context: kubeContext }),
+    durationMs: Date.now() - startedAt,
+    ...outcome,
+  });
+}
+
+/**
+ * Validate arguments and run the handler; every call is written to the audit log.
+ * Credentials in the response are redacted unless the caller asked to reveal them
+ * (context.reveal, or the tool's own reveal argument).
+ * Validation failures become isError responses naming the offending field.
+ */
+export async function executeTool(tool: ToolDefinition, args: unknown, context: ToolContext = {}): Promise<ToolCallResult> {
+  const startedAt = Date.now();
+  const parsed = tool.schema.safeParse(args ?? {});
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+    }));
+    const summary = issues.map(issue => `${issue.field}: ${issue.message}`).join('; ');
+
+    console.error(`[Server] Invalid arguments for ${tool.name}: ${summary}`);
+    auditCall(tool.name, args, startedAt, { status: 'invalid', errorCode: 'InvalidArguments' });
+    return toToolResult({
+      success: false,
+      error: createKubernetesError('InvalidArguments', `Invalid arguments for ${tool.name}: ${summary}`, {
+        code: 400,
+        reason: 'InvalidArguments',
+        details: issues,
+      }),
+    }, true);
+  }
+
+  let payload: any;
+  try {
+    payload = await tool.handler(parsed.data, context);
+  } catch (error) {
+    auditCall(tool.name, parsed.data, startedAt, { status: 'failure', errorCode: extractKubernetesError(error).errorCode });
+    throw error;
+  }
+
+  const reveal = context.reveal === true || parsed.data?.reveal === true;
+  const { value, count } = reveal ? { value: payload, count: 0 } : redactSecrets(payload);
+  if (reveal) {
+    console.error(`[Server] Redaction disabled for ${tool.name} (reveal requested)`);
+  } else if (count > 0 && value && typeof value === 'object' && !Array.isArray(value)) {
+    value.redacted = count;
+  }
+
+  auditCall(tool.name, parsed.data, startedAt, {
+    ...auditOutcome(payload, parsed.data, context),
+    ...(reveal && { revealed: true }),
+    ...(count > 0 && { redacted: count }),
+  });
+  return toToolResult(value);
+}
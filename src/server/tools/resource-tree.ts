@@ -0,0 +1,57 @@
+import { ResourceTreeInput, ResourceTreeInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { KubernetesError, ResourceTreeNode } from '../kubernetes/types';
+import { extractKubernetesError, summarizeKubernetesError } from '../kubernetes/errors';
+import { buildResourceTree, MatchRule } from '../kubernetes/ownership';
+
+export interface ResourceTreeResponse {
+  namespace: string;
+  resource: string;
+  name: string;
+  tree?: ResourceTreeNode;
+  matchedBy?: MatchRule;
+  counts: Record<string, number>;
+  error?: KubernetesError;
+  success: boolean;
+}
+
+export async function getResourceTree(input: ResourceTreeInput): Promise<ResourceTreeResponse> {
+  // Validate input
+  const validatedInput = ResourceTreeInputSchema.parse(input);
+  const { resource, name, namespace, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: resource tree ${resource}/${name} -n ${namespace}`);
+
+  try {
+    const kubernetesClient = getKubernetesClient(zone);
+    const { root, matchedBy, counts } = await buildResourceTree(kubernetesClient, resource, name, namespace);
+
+    return {
+      namespace,
+      resource,
+      name,
+      tree: root,
+      ...(matchedBy && { matchedBy }),
+      counts,
+      success: true,
+    };
+  } catch (error) {
+    // Extract meaningful error information
+    const k8sError = extractKubernetesError(error);
+
+    // Log structured error
+    console.error(`[Server] Error building resource tree for ${resource}/${name} in namespace ${namespace}:`, summarizeKubernetesError(k8sError));
+
+    return { namespace, resource, name, counts: {}, error: k8sError, success: false };
+  }
+}
+
+// Tool definition for the MCP registry
+export const RESOURCE_TREE_TOOL = defineTool({
+  name: 'resource_tree',
+  description: 'Build the ownership graph of a devbox or cluster (parent -> StatefulSet/Deployment -> Pod -> PVC, Service -> Ingress) using label rules, ownerReferences and name-prefix fallback, with a status badge per node',
+  schema: ResourceTreeInputSchema,
+  handler: getResourceTree,
+});
@@ -0,0 +1,83 @@
+import { RestartClusterInput, RestartClusterInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { WriteActionResponse } from '../kubernetes/types';
+import { createKubernetesError, withRetry } from '../kubernetes/errors';
+import { applyWrite, runGuardedAction } from '../kubernetes/guard';
+
+export async function restartCluster(input: RestartClusterInput): Promise<WriteActionResponse> {
+  // Validate input
+  const validatedInput = RestartClusterInputSchema.parse(input);
+  const { name, namespace, components, confirm, confirmationToken, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: create opsrequest -n ${namespace} (Restart cluster ${name})${confirm ? '' : ' --dry-run=server'}`);
+
+  // Resolved by the preview: the components the OpsRequest restarts
+  let componentNames: string[] = [];
+
+  return runGuardedAction({
+    tool: 'restart_cluster',
+    action: 'restart cluster',
+    zone,
+    namespace,
+    target: `Cluster/${name}`,
+    params: { components: components || [] },
+    preview: async () => {
+      const cluster = (await withRetry(() => getKubernetesClient(zone).getCustomObjectsApi().getNamespacedCustomObject(
+        'apps.kubeblocks.io',
+        'v1alpha1',
+        namespace,
+        'clusters',
+        name
+      ))).body as any;
+      const available: string[] = (cluster.spec?.componentSpecs || []).map((spec: any) => spec.name);
+      const unknown = (components || []).filter(component => !available.includes(component));
+      if (unknown.length > 0) {
+        throw createKubernetesError('InvalidArguments', `Unknown component(s) ${unknown.join(', ')}; cluster ${name} has ${available.join(', ') || 'none'}`, { code: 400, reason: 'InvalidArguments' });
+      }
+      componentNames = components && components.length > 0 ? components : available;
+
+      return {
+        lines: [
+          `Cluster ${name}: ${cluster.spec?.clusterDefinitionRef || 'unknown type'}, status ${cluster.status?.phase || 'Unknown'}`,
+          `Create OpsRequest ${name}-restart-* (type Restart) for component(s): ${componentNames.join(', ')}`,
+          'Pods are restarted one by one; the database may be briefly unavailable',
+        ],
+        warnings: cluster.status?.phase && cluster.status.phase !== 'Running'
+          ? [`Cluster ${name} is ${cluster.status.phase}; KubeBlocks may reject or queue the OpsRequest`]
+          : undefined,
+      };
+    },
+    apply: async (dryRun) => {
+      const created = await applyWrite(dryRun, () => getKubernetesClient(zone).getCustomObjectsApi().createNamespacedCustomObject(
+        'apps.kubeblocks.io',
+        'v1alpha1',
+        namespace,
+        'opsrequests',
+        {
+          apiVersion: 'apps.kubeblocks.io/v1alpha1',
+          kind: 'OpsRequest',
+          metadata: { generateName: `${name}-restart-`, namespace },
+          spec: {
+            clusterRef: name,
+            type: 'Restart',
+            restart: componentNames.map(componentName => ({ componentName })),
+          },
+        },
+        undefined,                      // pretty
+        dryRun ? 'All' : undefined
+      ));
+      const opsName = (created.body as any).metadata?.name || `${name}-restart-*`;
+      return [`OpsRequest ${opsName} created`, `Track it with: kubectl get opsrequest ${opsName} -n ${namespace}`];
+    },
+  }, confirm, confirmationToken);
+}
+
+// Tool definition for the MCP registry
+export const RESTART_CLUSTER_TOOL = defineTool({
+  name: 'restart_cluster',
+  description: 'Restart a KubeBlocks database cluster (all or selected components) by creating a Restart OpsRequest. Guarded write: the first call is a server-side dry run returning a preview and a confirmationToken; call again with confirm=true and the token to apply. Only allowed in namespaces on the zone allowlist',
+  schema: RestartClusterInputSchema,
+  handler: restartCluster,
+});
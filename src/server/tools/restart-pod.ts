@@ -0,0 +1,55 @@
+import { RestartPodInput, RestartPodInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { WriteActionResponse } from '../kubernetes/types';
+import { withRetry } from '../kubernetes/errors';
+import { applyWrite, runGuardedAction } from '../kubernetes/guard';
+
+export async function restartPod(input: RestartPodInput): Promise<WriteActionResponse> {
+  // Validate input
+  const validatedInput = RestartPodInputSchema.parse(input);
+  const { name, namespace, gracePeriodSeconds, confirm, confirmationToken, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: delete pod ${name} -n ${namespace}${confirm ? '' : ' --dry-run=server'}`);
+
+  return runGuardedAction({
+    tool: 'restart_pod',
+    action: 'restart pod',
+    zone,
+    namespace,
+    target: `Pod/${name}`,
+    params: { gracePeriodSeconds },
+    preview: async () => {
+      const pod = (await withRetry(() => getKubernetesClient(zone).getApiClient().readNamespacedPod(name, namespace))).body;
+      const owner = pod.metadata?.ownerReferences?.find(ref => ref.controller);
+      const restarts = (pod.status?.containerStatuses || []).reduce((sum, cs) => sum + (cs.restartCount || 0), 0);
+      return {
+        lines: [
+          `Pod ${name}: ${pod.status?.phase || 'Unknown'}, ${restarts} restarts, on node ${pod.spec?.nodeName || '-'}`,
+          `Delete the pod${gracePeriodSeconds !== undefined ? ` (grace period ${gracePeriodSeconds}s)` : ''}`,
+          owner ? `${owner.kind}/${owner.name} recreates it` : 'No controller owns this pod: it will NOT be recreated',
+        ],
+        warnings: owner ? undefined : [`Pod ${name} has no controller; deleting it removes it for good`],
+      };
+    },
+    apply: async (dryRun) => {
+      await applyWrite(dryRun, () => getKubernetesClient(zone).getApiClient().deleteNamespacedPod(
+        name,
+        namespace,
+        undefined,                      // pretty
+        dryRun ? 'All' : undefined,     // dryRun
+        gracePeriodSeconds
+      ));
+      return [`Pod ${name} deleted`];
+    },
+  }, confirm, confirmationToken);
+}
+
+// Tool definition for the MCP registry
+export const RESTART_POD_TOOL = defineTool({
+  name: 'restart_pod',
+  description: 'Restart a pod by deleting it so its controller recreates it. Guarded write: the first call is a server-side dry run returning a preview and a confirmationToken; call again with confirm=true and the token to apply. Only allowed in namespaces on the zone allowlist',
+  schema: RestartPodInputSchema,
+  handler: restartPod,
+});
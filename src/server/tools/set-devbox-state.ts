@@ -0,0 +1,65 @@
+import { SetDevboxStateInput, SetDevboxStateInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { WriteActionResponse } from '../kubernetes/types';
+import { withRetry } from '../kubernetes/errors';
+import { applyWrite, runGuardedAction } from '../kubernetes/guard';
+import * as k8s from '@kubernetes/client-node';
+
+export async function setDevboxState(input: SetDevboxStateInput): Promise<WriteActionResponse> {
+  // Validate input
+  const validatedInput = SetDevboxStateInputSchema.parse(input);
+  const { name, namespace, state, confirm, confirmationToken, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: patch devbox ${name} -n ${namespace} --type=merge -p '{"spec":{"state":"${state}"}}'${confirm ? '' : ' --dry-run=server'}`);
+
+  return runGuardedAction({
+    tool: 'set_devbox_state',
+    action: state === 'Running' ? 'start devbox' : 'stop devbox',
+    zone,
+    namespace,
+    target: `Devbox/${name}`,
+    params: { state },
+    preview: async () => {
+      const devbox = (await withRetry(() => getKubernetesClient(zone).getCustomObjectsApi().getNamespacedCustomObject(
+        'devbox.sealos.io',
+        'v1alpha2',
+        namespace,
+        'devboxes',
+        name
+      ))).body as any;
+      const current = devbox.spec?.state || 'Unknown';
+      return {
+        lines: [
+          `Devbox ${name}: spec.state ${current}, phase ${devbox.status?.phase || 'Unknown'}`,
+          `spec.state: ${current} → ${state}`,
+        ],
+        warnings: current === state ? [`Devbox ${name} is already ${state}; the patch changes nothing`] : undefined,
+      };
+    },
+    apply: async (dryRun) => {
+      await applyWrite(dryRun, () => getKubernetesClient(zone).getCustomObjectsApi().patchNamespacedCustomObject(
+        'devbox.sealos.io',
+        'v1alpha2',
+        namespace,
+        'devboxes',
+        name,
+        { spec: { state } },
+        dryRun ? 'All' : undefined,
+        undefined,                      // fieldManager
+        undefined,                      // force
+        { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_JSON_MERGE_PATCH } }
+      ));
+      return [`Devbox ${name} spec.state set to ${state}`];
+    },
+  }, confirm, confirmationToken);
+}
+
+// Tool definition for the MCP registry
+export const SET_DEVBOX_STATE_TOOL = defineTool({
+  name: 'set_devbox_state',
+  description: 'Start or stop a devbox by setting spec.state to Running or Stopped. Guarded write: the first call is a server-side dry run returning a preview and a confirmationToken; call again with confirm=true and the token to apply. Only allowed in namespaces on the zone allowlist',
+  schema: SetDevboxStateInputSchema,
+  handler: setDevboxState,
+});
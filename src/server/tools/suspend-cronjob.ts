@@ -0,0 +1,62 @@
+import { SuspendCronJobInput, SuspendCronJobInputSchema } from './types';
+import { defineTool } from './registry';
+import { getKubernetesClient } from '../kubernetes/zone-registry';
+import { WriteActionResponse } from '../kubernetes/types';
+import { withRetry } from '../kubernetes/errors';
+import { applyWrite, runGuardedAction } from '../kubernetes/guard';
+import * as k8s from '@kubernetes/client-node';
+
+export async function suspendCronJob(input: SuspendCronJobInput): Promise<WriteActionResponse> {
+  // Validate input
+  const validatedInput = SuspendCronJobInputSchema.parse(input);
+  const { name, namespace, suspend, confirm, confirmationToken, zone } = validatedInput;
+
+  // Log execution
+  console.error(`[Server] Executing: patch cronjob ${name} -n ${namespace} -p '{"spec":{"suspend":${suspend}}}'${confirm ? '' : ' --dry-run=server'}`);
+
+  return runGuardedAction({
+    tool: 'suspend_cronjob',
+    action: suspend ? 'suspend cronjob' : 'resume cronjob',
+    zone,
+    namespace,
+    target: `CronJob/${name}`,
+    params: { suspend },
+    preview: async () => {
+      const cronJob = (await withRetry(() => getKubernetesClient(zone).getBatchV1Api().readNamespacedCronJob(name, namespace))).body;
+      const current = cronJob.spec?.suspend === true;
+      const active = cronJob.status?.active?.length || 0;
+      const warnings: string[] = [];
+      if (current === suspend) warnings.push(`CronJob ${name} is already ${suspend ? 'suspended' : 'running on schedule'}; the patch changes nothing`);
+      if (suspend && active > 0) warnings.push(`${active} job(s) already running keep running; suspend only stops new runs`);
+      return {
+        lines: [
+          `CronJob ${name}: schedule "${cronJob.spec?.schedule}", last run ${cronJob.status?.lastScheduleTime ? new Date(cronJob.status.lastScheduleTime).toISOString() : 'never'}`,
+          `spec.suspend: ${current} → ${suspend}`,
+        ],
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    },
+    apply: async (dryRun) => {
+      await applyWrite(dryRun, () => getKubernetesClient(zone).getBatchV1Api().patchNamespacedCronJob(
+        name,
+        namespace,
+        { spec: { suspend } },
+        undefined,                      // pretty
+        dryRun ? 'All' : undefined,
+        undefined,                      // fieldManager
+        undefined,                      // fieldValidation
+        undefined,                      // force
+        { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_JSON_MERGE_PATCH } }
+      ));
+      return [`CronJob ${name} ${suspend ? 'suspended' : 'resumed'}`];
+    },
+  }, confirm, confirmationToken);
+}
+
+// Tool definition for the MCP registry
+export const SUSPEND_CRONJOB_TOOL = defineTool({
+  name: 'suspend_cronjob',
+  description: 'Suspend or resume a CronJob (spec.suspend). Guarded write: the first call is a server-side dry run returning a preview and a confirmationToken; call again with confirm=true and the token to apply. Only allowed in namespaces on the zone allowlist',
+  schema: SuspendCronJobInputSchema,
+  handler: suspendCronJob,
+});
@@ -1,315 +1,312 @@
 import { z } from 'zod';
 
+// Shared optional zone argument (see kubernetes/zone-registry.ts)
+const ZoneSchema = z.string().optional().describe('The zone (cluster) to query, e.g. hzh, bja, gzg. Defaults to the server default zone');
+
+// Write tools: dry run by default, applied only with the token of that dry run
+const ConfirmSchema = z.boolean().optional().default(false).describe('Apply the change. Without it the call is a server-side dry run that returns a preview and a confirmationToken (default: false)');
+const ConfirmationTokenSchema = z.string().optional().describe('The confirmationToken returned by the dry run; required with confirm=true');
+
 // Schema for list_pods_by_ns tool
 export const ListPodsByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list pods from'),
+  zone: ZoneSchema,
 });
 
 export type ListPodsByNsInput = z.infer<typeof ListPodsByNsInputSchema>;
 
-// Tool definitions for MCP
-export const LIST_PODS_BY_NS_TOOL = {
-  name: 'list_pods_by_ns',
-  description: 'List all pods in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list pods from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_devbox_by_ns tool
 export const ListDevboxByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list devboxes from'),
+  sortBy: z.enum(['health', 'name']).optional().default('health').describe('Sort order: "health" lists fake-stopped, stuck and transitional devboxes first (default), "name" sorts alphabetically'),
+  zone: ZoneSchema,
 });
 
 export type ListDevboxByNsInput = z.infer<typeof ListDevboxByNsInputSchema>;
 
-// Devbox tool definitions for MCP
-export const LIST_DEVBOX_BY_NS_TOOL = {
-  name: 'list_devbox_by_ns',
-  description: 'List all devboxes in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list devboxes from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_cluster_by_ns tool
 export const ListClusterByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list clusters from'),
+  zone: ZoneSchema,
 });
 
 export type ListClusterByNsInput = z.infer<typeof ListClusterByNsInputSchema>;
 
-// Cluster tool definitions for MCP
-export const LIST_CLUSTER_BY_NS_TOOL = {
-  name: 'list_cluster_by_ns',
-  description: 'List KubeBlocks clusters (databases) in a namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list clusters from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
+// Target size of a devbox or database; omitted fields keep their current value
+const QuotaResizeSchema = z.object({
+  kind: z.enum(['devbox', 'cluster']).describe('What is resized: a devbox or a KubeBlocks cluster (database)'),
+  name: z.string().min(1, 'Name is required').describe('Name of the devbox or cluster'),
+  component: z.string().optional().describe('Cluster component to resize (default: the first component)'),
+  cpu: z.string().optional().describe('New CPU limit per replica, e.g. "2" or "500m"'),
+  memory: z.string().optional().describe('New memory limit per replica, e.g. "4Gi"'),
+  storage: z.string().optional().describe('New data volume size per replica (clusters only), e.g. "20Gi"'),
+  replicas: z.number().int().positive().optional().describe('New replica count (clusters only)'),
+});
 
 // Schema for list_quota_by_ns tool
 export const ListQuotaByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list quotas from'),
+  warningThreshold: z.number().positive().max(100).optional().default(80).describe('Flag quota usage at or above this percentage as a warning (default: 80)'),
+  criticalThreshold: z.number().positive().max(100).optional().default(95).describe('Flag quota usage at or above this percentage as critical (default: 95)'),
+  resize: QuotaResizeSchema.optional().describe('Predict whether resizing this devbox or cluster would fit the remaining quota'),
+  zone: ZoneSchema,
 });
 
 export type ListQuotaByNsInput = z.infer<typeof ListQuotaByNsInputSchema>;
-
-// Quota tool definitions for MCP
-export const LIST_QUOTA_BY_NS_TOOL = {
-  name: 'list_quota_by_ns',
-  description: 'List resource quotas in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list quotas from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
+export type QuotaResize = z.infer<typeof QuotaResizeSchema>;
 
 // Schema for list_ingress_by_ns tool
 export const ListIngressByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list Ingress resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListIngressByNsInput = z.infer<typeof ListIngressByNsInputSchema>;
 
-// Ingress tool definitions for MCP
-export const LIST_INGRESS_BY_NS_TOOL = {
-  name: 'list_ingress_by_ns',
-  description: 'List Ingress resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list Ingress resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_nodes tool
 export const ListNodesInputSchema = z.object({
-  namespace: z.string().optional(),
+  namespace: z.string().optional().describe('Ignored for cluster-level resources'),
+  zone: ZoneSchema,
 });
 
 export type ListNodesInput = z.infer<typeof ListNodesInputSchema>;
 
-// Node tool definitions for MCP
-export const LIST_NODES_TOOL = {
-  name: 'list_nodes',
-  description: 'List all cluster nodes',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'Ignored for cluster-level resources',
-      },
-    },
-    required: [],
-  },
-};
-
 // Schema for list_cronjobs_by_ns tool
 export const ListCronjobsByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list CronJob resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListCronjobsByNsInput = z.infer<typeof ListCronjobsByNsInputSchema>;
 
-// CronJob tool definitions for MCP
-export const LIST_CRONJOBS_BY_NS_TOOL = {
-  name: 'list_cronjobs_by_ns',
-  description: 'List CronJob resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list CronJob resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_events_by_ns tool
 export const ListEventsByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list Event resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListEventsByNsInput = z.infer<typeof ListEventsByNsInputSchema>;
 
-// Event tool definitions for MCP
-export const LIST_EVENTS_BY_NS_TOOL = {
-  name: 'list_events_by_ns',
-  description: 'List Event resources in a specific namespace (last 100, sorted by timestamp)',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list Event resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_account_by_ns tool
 export const ListAccountByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list Account CRD resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListAccountByNsInput = z.infer<typeof ListAccountByNsInputSchema>;
 
-// Account tool definitions for MCP
-export const LIST_ACCOUNT_BY_NS_TOOL = {
-  name: 'list_account_by_ns',
-  description: 'List Account CRD resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list Account CRD resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_debt_by_ns tool
 export const ListDebtByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list Debt CRD resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListDebtByNsInput = z.infer<typeof ListDebtByNsInputSchema>;
 
-// Debt tool definitions for MCP
-export const LIST_DEBT_BY_NS_TOOL = {
-  name: 'list_debt_by_ns',
-  description: 'List Debt CRD resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list Debt CRD resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_objectstoragebucket_by_ns tool
 export const ListObjectStorageBucketByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list ObjectStorageBucket CRD resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListObjectStorageBucketByNsInput = z.infer<typeof ListObjectStorageBucketByNsInputSchema>;
 
-// ObjectStorageBucket tool definitions for MCP
-export const LIST_OBJECTSTORAGEBUCKET_BY_NS_TOOL = {
-  name: 'list_objectstoragebucket_by_ns',
-  description: 'List ObjectStorageBucket CRD resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list ObjectStorageBucket CRD resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for list_certificate_by_ns tool
 export const ListCertificateByNsInputSchema = z.object({
-  namespace: z.string().min(1, 'Namespace is required'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to list Certificate CRD resources from'),
+  zone: ZoneSchema,
 });
 
 export type ListCertificateByNsInput = z.infer<typeof ListCertificateByNsInputSchema>;
 
-// Certificate tool definitions for MCP
-export const LIST_CERTIFICATE_BY_NS_TOOL = {
-  name: 'list_certificate_by_ns',
-  description: 'List Certificate CRD resources in a specific namespace',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      namespace: {
-        type: 'string',
-        description: 'The namespace to list Certificate CRD resources from',
-      },
-    },
-    required: ['namespace'],
-  },
-};
-
 // Schema for inspect_resource tool
 export const InspectResourceInputSchema = z.object({
-  resource: z.string().min(1, 'Resource type is required'),
-  name: z.string().min(1, 'Resource name is required'),
-  namespace: z.string().min(1, 'Namespace is required'),
-  lines: z.number().optional().default(30), // Optional lines parameter for logs, default 30
+  resource: z.string().min(1, 'Resource type is required').describe('The type of resource to inspect (e.g., pod, deployment, service, devbox, cluster). Both singular and plural forms are accepted.'),
+  name: z.string().min(1, 'Resource name is required').describe('The name of the resource to inspect'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the resource is located'),
+  lines: z.number().optional().default(30).describe('Number of recent log lines to fetch (for pods only, default: 30)'),
+  zone: ZoneSchema,
 });
 
 export type InspectResourceInput = z.infer<typeof InspectResourceInputSchema>;
 
-// Inspect resource tool definitions for MCP
-export const INSPECT_RESOURCE_TOOL = {
-  name: 'inspect_resource',
-  description: 'Inspect a Kubernetes resource by fetching its manifest, events, and logs (for pods)',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      resource: {
-        type: 'string',
-        description: 'The type of resource to inspect (e.g., pod, deployment, service, devbox, cluster). Both singular and plural forms are accepted.',
-      },
-      name: {
-        type: 'string',
-        description: 'The name of the resource to inspect',
-      },
-      namespace: {
-        type: 'string',
-        description: 'The namespace where the resource is located',
-      },
-      lines: {
-        type: 'number',
-        description: 'Number of recent log lines to fetch (for pods only, default: 30)',
-      },
-    },
-    required: ['resource', 'name', 'namespace'],
-  },
-};
\ No newline at end of file
+// Schema for diagnose_resource tool
+export const DiagnoseResourceInputSchema = z.object({
+  resource: z.enum(['devbox', 'cluster']).describe('The parent resource type to diagnose'),
+  name: z.string().min(1, 'Resource name is required').describe('The name of the devbox or cluster'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the resource is located'),
+  lines: z.number().optional().default(30).describe('Number of recent log lines to fetch per inspected pod (default: 30)'),
+  maxPods: z.number().int().positive().optional().default(3).describe('Maximum number of candidate pods to inspect automatically before asking for approval (default: 3)'),
+  zone: ZoneSchema,
+});
+
+export type DiagnoseResourceInput = z.infer<typeof DiagnoseResourceInputSchema>;
+
+
+// Schema for analyze_billing tool
+export const AnalyzeBillingInputSchema = z.object({
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace holding the Account and Debt resources'),
+  lowBalanceThreshold: z.number().nonnegative().optional().default(10).describe('Available balance in yuan below which the account is flagged as low (default: 10)'),
+  zone: ZoneSchema,
+});
+
+export type AnalyzeBillingInput = z.infer<typeof AnalyzeBillingInputSchema>;
+
+// Schema for check_debt_limit tool
+export const CheckDebtLimitInputSchema = z.object({
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to check for billing (debt-limit) blocks'),
+  zone: ZoneSchema,
+});
+
+export type CheckDebtLimitInput = z.infer<typeof CheckDebtLimitInputSchema>;
+
+// Schema for get_db_connection tool
+export const GetDbConnectionInputSchema = z.object({
+  name: z.string().min(1, 'Database name is required').describe('The name of the KubeBlocks cluster (database)'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the database is located'),
+  reveal: z.boolean().optional().default(false).describe('Return the plain-text password instead of a masked one. Every reveal is audit-logged'),
+  zone: ZoneSchema,
+});
+
+export type GetDbConnectionInput = z.infer<typeof GetDbConnectionInputSchema>;
+
+// Schema for check_devbox_ssh tool
+export const CheckDevboxSshInputSchema = z.object({
+  name: z.string().min(1, 'Devbox name is required').describe('The name of the devbox to check'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the devbox is located'),
+  host: z.string().optional().describe('SSH host override (default: the zone API server hostname)'),
+  port: z.number().int().positive().optional().describe('SSH port override (default: status.network.nodePort)'),
+  user: z.string().optional().describe('SSH user override (default: spec.config.user)'),
+  timeoutMs: z.number().int().positive().optional().default(5000).describe('Timeout per stage in milliseconds (default: 5000)'),
+  zone: ZoneSchema,
+});
+
+export type CheckDevboxSshInput = z.infer<typeof CheckDevboxSshInputSchema>;
+
+// Schema for devbox_history tool
+export const DevboxHistoryInputSchema = z.object({
+  name: z.string().min(1, 'Devbox name is required').describe('The name of the devbox'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the devbox is located'),
+  limit: z.number().int().positive().optional().default(20).describe('Maximum number of commits to return, newest first (default: 20)'),
+  zone: ZoneSchema,
+});
+
+export type DevboxHistoryInput = z.infer<typeof DevboxHistoryInputSchema>;
+
+// Schema for resource_tree tool
+export const ResourceTreeInputSchema = z.object({
+  resource: z.enum(['devbox', 'cluster']).describe('The parent resource type'),
+  name: z.string().min(1, 'Resource name is required').describe('The name of the devbox or cluster'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the resource is located'),
+  zone: ZoneSchema,
+});
+
+export type ResourceTreeInput = z.infer<typeof ResourceTreeInputSchema>;
+
+// Schema for rank_suspect_pods tool
+export const RankSuspectPodsInputSchema = z.object({
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to rank pods in'),
+  limit: z.number().int().positive().optional().default(10).describe('Maximum number of suspects to return (default: 10)'),
+  includeHealthy: z.boolean().optional().default(false).describe('Also return healthy pods at the bottom of the ranking (default: false)'),
+  zone: ZoneSchema,
+});
+
+export type RankSuspectPodsInput = z.infer<typeof RankSuspectPodsInputSchema>;
+
+// Schema for analyze_pod_logs tool
+export const AnalyzePodLogsInputSchema = z.object({
+  name: z.string().min(1, 'Pod name is required').describe('The name of the pod'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the pod is located'),
+  container: z.string().optional().describe('Only analyze this container (default: all containers)'),
+  tailLines: z.number().int().positive().optional().default(500).describe('Number of lines to read from the end of each log (default: 500)'),
+  sinceSeconds: z.number().int().positive().optional().describe('Only read log lines newer than this many seconds'),
+  includePrevious: z.boolean().optional().default(true).describe('Also analyze the previous (crashed) container instance when it has restarted (default: true)'),
+  zone: ZoneSchema,
+});
+
+export type AnalyzePodLogsInput = z.infer<typeof AnalyzePodLogsInputSchema>;
+
+// Schema for follow_pod_logs tool
+export const FollowPodLogsInputSchema = z.object({
+  name: z.string().min(1, 'Pod name is required').describe('The name of the pod'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the pod is located'),
+  containers: z.array(z.string().min(1)).optional().describe('Containers to stream (default: all app containers)'),
+  tailLines: z.number().int().nonnegative().optional().default(10).describe('Lines of existing output to start with (default: 10)'),
+  grep: z.string().optional().describe('Grep-style regular expression; only matching lines are streamed'),
+  ignoreCase: z.boolean().optional().default(false).describe('Match the grep pattern case-insensitively (default: false)'),
+  invert: z.boolean().optional().default(false).describe('Stream only lines that do NOT match the grep pattern (default: false)'),
+  durationSeconds: z.number().int().positive().max(1800).optional().default(300).describe('Stop following after this many seconds (default: 300, max: 1800)'),
+  zone: ZoneSchema,
+});
+
+export type FollowPodLogsInput = z.infer<typeof FollowPodLogsInputSchema>;
+
+// Schema for restart_pod tool
+export const RestartPodInputSchema = z.object({
+  name: z.string().min(1, 'Pod name is required').describe('The name of the pod to delete so its controller recreates it'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the pod is located'),
+  gracePeriodSeconds: z.number().int().nonnegative().optional().describe('Termination grace period (default: the pod\'s own)'),
+  confirm: ConfirmSchema,
+  confirmationToken: ConfirmationTokenSchema,
+  zone: ZoneSchema,
+});
+
+export type RestartPodInput = z.infer<typeof RestartPodInputSchema>;
+
+// Schema for set_devbox_state tool
+export const SetDevboxStateInputSchema = z.object({
+  name: z.string().min(1, 'Devbox name is required').describe('The name of the devbox'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the devbox is located'),
+  state: z.enum(['Running', 'Stopped']).describe('The desired spec.state'),
+  confirm: ConfirmSchema,
+  confirmationToken: ConfirmationTokenSchema,
+  zone: ZoneSchema,
+});
+
+export type SetDevboxStateInput = z.infer<typeof SetDevboxStateInputSchema>;
+
+// Schema for suspend_cronjob tool
+export const SuspendCronJobInputSchema = z.object({
+  name: z.string().min(1, 'CronJob name is required').describe('The name of the CronJob'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the CronJob is located'),
+  suspend: z.boolean().describe('true to suspend the schedule, false to resume it'),
+  confirm: ConfirmSchema,
+  confirmationToken: ConfirmationTokenSchema,
+  zone: ZoneSchema,
+});
+
+export type SuspendCronJobInput = z.infer<typeof SuspendCronJobInputSchema>;
+
+// Schema for restart_cluster tool
+export const RestartClusterInputSchema = z.object({
+  name: z.string().min(1, 'Cluster name is required').describe('The name of the KubeBlocks cluster'),
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace where the cluster is located'),
+  components: z.array(z.string().min(1)).optional().describe('Components to restart (default: all components of the cluster)'),
+  confirm: ConfirmSchema,
+  confirmationToken: ConfirmationTokenSchema,
+  zone: ZoneSchema,
+});
+
+export type RestartClusterInput = z.infer<typeof RestartClusterInputSchema>;
+
+// Schema for query_audit_log tool
+export const QueryAuditLogInputSchema = z.object({
+  since: z.string().optional().describe('Only entries at or after this time: ISO date/time or relative like 30m, 2h, 7d'),
+  until: z.string().optional().describe('Only entries at or before this time: ISO date/time or relative like 30m, 2h, 7d'),
+  namespace: z.string().optional().describe('Only calls against this namespace'),
+  tool: z.string().optional().describe('Only calls of this tool, e.g. restart_pod'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of entries to return, newest first (default: 50)'),
+});
+
+export type QueryAuditLogInput = z.infer<typeof QueryAuditLogInputSchema>;
+
+// Schema for namespace_health tool
+export const NamespaceHealthInputSchema = z.object({
+  namespace: z.string().min(1, 'Namespace is required').describe('The namespace to report on'),
+  certificateDays: z.number().int().nonnegative().optional().default(14).describe('Flag certificates expiring within this many days (default: 14)'),
+  quotaThreshold: z.number().positive().max(100).optional().default(80).describe('Flag quota usage at or above this percentage (default: 80)'),
+  eventWindowMinutes: z.number().int().positive().optional().default(60).describe('Only count Warning events seen in the last N minutes (default: 60)'),
+  zone: ZoneSchema,
+});
+
+export type NamespaceHealthInput = z.infer<typeof NamespaceHealthInputSchema>;